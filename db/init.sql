@@ -1,10 +1,20 @@
+-- Recherche insensible aux accents et tolérante aux fautes de frappe
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- unaccent() n'est pas IMMUTABLE : cette enveloppe permet de l'utiliser dans un index
+CREATE OR REPLACE FUNCTION search_normalize(value TEXT) RETURNS TEXT
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+  AS $$ SELECT lower(public.unaccent('public.unaccent'::regdictionary, value)) $$;
+
 CREATE TABLE IF NOT EXISTS students (
   id SERIAL PRIMARY KEY,
   first_name VARCHAR(100) NOT NULL,
   last_name VARCHAR(100) NOT NULL,
   email VARCHAR(255) UNIQUE NOT NULL,
   date_of_birth DATE NOT NULL,
-  student_id VARCHAR(50) UNIQUE NOT NULL
+  student_id VARCHAR(50) UNIQUE NOT NULL,
+  archived_at TIMESTAMP
 );
 
 CREATE TABLE IF NOT EXISTS courses (
@@ -12,17 +22,41 @@ CREATE TABLE IF NOT EXISTS courses (
   code VARCHAR(20) UNIQUE NOT NULL,
   name VARCHAR(255) NOT NULL,
   credits INTEGER NOT NULL,
-  description TEXT
+  description TEXT,
+  -- BUT : ressource (enseignement) ou SAÉ (situation d'apprentissage et d'évaluation)
+  type VARCHAR(10) NOT NULL DEFAULT 'resource' CHECK (type IN ('resource', 'sae')),
+  -- Incrémentée à chaque modification, exposée comme ETag
+  version INTEGER NOT NULL DEFAULT 1
 );
 
+CREATE INDEX IF NOT EXISTS idx_students_search ON students
+  USING GIN (search_normalize(first_name || ' ' || last_name || ' ' || email || ' ' || student_id) gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_courses_search ON courses
+  USING GIN (search_normalize(code || ' ' || name) gin_trgm_ops);
+
 CREATE TABLE IF NOT EXISTS grades (
   id SERIAL PRIMARY KEY,
   student_id INTEGER REFERENCES students(id),
   course_id INTEGER REFERENCES courses(id),
-  grade NUMERIC(4,2) NOT NULL CHECK (grade >= 0 AND grade <= 20),
+  grade NUMERIC(4,2) CHECK (grade >= 0 AND grade <= 20),
+  -- Code saisi à la place de la note : ABS (absence injustifiée, comptée 0),
+  -- ABJ (absence justifiée) et DISP (dispense), exclus des moyennes,
+  -- EN ATTENTE (note non encore connue), qui bloque la validation
+  special_code VARCHAR(10) CHECK (special_code IN ('ABS', 'ABJ', 'DISP', 'EN ATTENTE')),
   semester VARCHAR(20) NOT NULL,
   academic_year VARCHAR(9) NOT NULL,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  -- Note calculée à partir des évaluations du cours, non modifiable directement
+  is_computed BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Première session ou session de rattrapage
+  session VARCHAR(10) NOT NULL DEFAULT 'first' CHECK (session IN ('first', 'resit')),
+  -- Incrémentée à chaque modification, exposée comme ETag
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK ((grade IS NULL) <> (special_code IS NULL)),
+  -- Une note par étudiant, cours et session : une seconde ligne fausserait
+  -- les moyennes. Ajoutée aux bases existantes par le script db:unique-grades
+  CONSTRAINT grades_unique_session UNIQUE (student_id, course_id, semester, academic_year, session)
 );
 
 CREATE TABLE IF NOT EXISTS professors (
@@ -31,5 +65,366 @@ CREATE TABLE IF NOT EXISTS professors (
   last_name VARCHAR(100) NOT NULL,
   email VARCHAR(255) UNIQUE NOT NULL,
   department VARCHAR(100) NOT NULL,
-  password_hash VARCHAR(255) NOT NULL
+  password_hash VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL DEFAULT 'professor'
+    CHECK (role IN ('admin', 'department_head', 'professor')),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_login_at TIMESTAMP,
+  locked_until TIMESTAMP,
+  totp_secret VARCHAR(64),
+  totp_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  totp_last_used_step BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS course_assignments (
+  id SERIAL PRIMARY KEY,
+  course_id INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  professor_id INTEGER NOT NULL REFERENCES professors(id) ON DELETE CASCADE,
+  academic_year VARCHAR(9) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('responsible', 'contributor')),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (course_id, professor_id, academic_year)
+);
+
+-- Un seul enseignant responsable par cours et par année universitaire
+CREATE UNIQUE INDEX IF NOT EXISTS idx_course_assignments_responsible
+  ON course_assignments (course_id, academic_year)
+  WHERE role = 'responsible';
+
+-- Un cours dispensé pour un semestre d'une année universitaire
+CREATE TABLE IF NOT EXISTS course_offerings (
+  id SERIAL PRIMARY KEY,
+  course_id INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  semester VARCHAR(20) NOT NULL,
+  academic_year VARCHAR(9) NOT NULL,
+  -- Note retenue après rattrapage : replace (la note de rattrapage remplace),
+  -- best (meilleure des deux sessions), capped (rattrapage plafonné à 10)
+  resit_policy VARCHAR(10) NOT NULL DEFAULT 'best'
+    CHECK (resit_policy IN ('replace', 'best', 'capped')),
+  -- Publication des notes : draft (saisie), submitted (saisie terminée),
+  -- published (visibles des étudiants), locked (figées après le jury)
+  status VARCHAR(10) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'submitted', 'published', 'locked')),
+  -- Dernier jour de saisie des notes ; passé ce jour, seuls les
+  -- administrateurs et chefs de département peuvent les modifier
+  grade_deadline DATE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (course_id, semester, academic_year)
+);
+
+-- Changements d'état des offres de cours ; le déverrouillage est justifié
+CREATE TABLE IF NOT EXISTS offering_status_changes (
+  id SERIAL PRIMARY KEY,
+  offering_id INTEGER NOT NULL REFERENCES course_offerings(id) ON DELETE CASCADE,
+  from_status VARCHAR(10) NOT NULL,
+  to_status VARCHAR(10) NOT NULL,
+  justification TEXT,
+  changed_by INTEGER REFERENCES professors(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_offering_status_changes_offering
+  ON offering_status_changes (offering_id, id);
+
+-- Note retenue par étudiant, cours et semestre : la dernière note saisie de
+-- chaque session, combinées selon la politique de rattrapage de l'offre de
+-- cours (meilleure des deux par défaut). Les codes spéciaux y sont traduits
+-- une fois pour toutes : ABS vaut 0, ABJ et DISP n'ont pas de note et sont
+-- donc exclus des moyennes, EN ATTENTE n'a pas de note et bloque la
+-- validation (blocks_validation). Moyennes, relevés et statistiques lisent
+-- cette vue plutôt que la table grades. Les notes ne sont visibles des
+-- étudiants (published) qu'une fois l'offre de cours publiée ; celles saisies
+-- sans offre de cours restent masquées jusqu'à sa création et sa publication.
+CREATE OR REPLACE VIEW retained_grades AS
+WITH attempts AS (
+  SELECT DISTINCT ON (student_id, course_id, semester, academic_year, session)
+         id, student_id, course_id, semester, academic_year, session, special_code,
+         CASE WHEN special_code = 'ABS' THEN 0 ELSE grade END AS grade,
+         special_code IS NOT DISTINCT FROM 'EN ATTENTE' AS blocks_validation
+  FROM grades
+  ORDER BY student_id, course_id, semester, academic_year, session, id DESC
+),
+sessions AS (
+  SELECT student_id, course_id, semester, academic_year,
+         MAX(grade) FILTER (WHERE session = 'first') AS first_grade,
+         MAX(grade) FILTER (WHERE session = 'resit') AS resit_grade,
+         MAX(id) FILTER (WHERE session = 'first') AS first_id,
+         MAX(id) FILTER (WHERE session = 'resit') AS resit_id,
+         BOOL_OR(blocks_validation) FILTER (WHERE session = 'resit') AS resit_pending
+  FROM attempts
+  GROUP BY student_id, course_id, semester, academic_year
+),
+choices AS (
+  SELECT s.*,
+         COALESCE(o.resit_policy, 'best') AS resit_policy,
+         COALESCE(o.status IN ('published', 'locked'), FALSE) AS published,
+         CASE
+           WHEN s.resit_id IS NULL THEN 'first'
+           WHEN s.first_id IS NULL OR s.resit_pending THEN 'resit'
+           -- Rattrapage sans note (absence justifiée, dispense) : la première session reste acquise
+           WHEN s.resit_grade IS NULL THEN 'first'
+           WHEN s.first_grade IS NULL OR o.resit_policy = 'replace' THEN 'resit'
+           WHEN o.resit_policy = 'capped' THEN
+             CASE WHEN LEAST(s.resit_grade, 10) > s.first_grade THEN 'resit' ELSE 'first' END
+           WHEN s.resit_grade > s.first_grade THEN 'resit'
+           ELSE 'first'
+         END AS session
+  FROM sessions s
+  LEFT JOIN course_offerings o
+    ON o.course_id = s.course_id AND o.semester = s.semester AND o.academic_year = s.academic_year
+)
+SELECT
+  a.id, a.student_id, a.course_id, a.semester, a.academic_year,
+  CASE WHEN a.session = 'resit' AND c.resit_policy = 'capped'
+    THEN LEAST(a.grade, 10) ELSE a.grade END AS grade,
+  a.special_code, a.blocks_validation, a.session,
+  c.first_grade, c.resit_grade, c.resit_policy, c.published
+FROM choices c
+JOIN attempts a ON a.id = CASE WHEN c.session = 'resit' THEN c.resit_id ELSE c.first_id END;
+
+CREATE TABLE IF NOT EXISTS assessments (
+  id SERIAL PRIMARY KEY,
+  offering_id INTEGER NOT NULL REFERENCES course_offerings(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  weight NUMERIC(5,2) NOT NULL CHECK (weight > 0),
+  max_score NUMERIC(5,2) NOT NULL DEFAULT 20 CHECK (max_score > 0),
+  assessment_date DATE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS assessment_marks (
+  id SERIAL PRIMARY KEY,
+  assessment_id INTEGER NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  score NUMERIC(5,2) NOT NULL CHECK (score >= 0),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (assessment_id, student_id)
+);
+
+-- Référentiel BUT : une UE évalue une compétence sur un semestre
+CREATE TABLE IF NOT EXISTS competences (
+  id SERIAL PRIMARY KEY,
+  code VARCHAR(20) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT
+);
+
+CREATE TABLE IF NOT EXISTS teaching_units (
+  id SERIAL PRIMARY KEY,
+  code VARCHAR(20) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  competence_id INTEGER NOT NULL REFERENCES competences(id),
+  semester VARCHAR(20) NOT NULL,
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  UNIQUE (competence_id, semester)
+);
+
+-- Coefficient d'une ressource ou d'une SAÉ dans le calcul de la moyenne d'une UE
+CREATE TABLE IF NOT EXISTS course_units (
+  course_id INTEGER NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  unit_id INTEGER NOT NULL REFERENCES teaching_units(id) ON DELETE CASCADE,
+  coefficient NUMERIC(5,2) NOT NULL CHECK (coefficient > 0),
+  PRIMARY KEY (course_id, unit_id)
+);
+
+-- Règles de jury d'une année universitaire ; à défaut, les règles par défaut de l'API s'appliquent
+CREATE TABLE IF NOT EXISTS jury_rules (
+  academic_year VARCHAR(9) PRIMARY KEY,
+  passing_average NUMERIC(4,2) NOT NULL CHECK (passing_average BETWEEN 0 AND 20),
+  eliminatory_average NUMERIC(4,2) NOT NULL CHECK (eliminatory_average BETWEEN 0 AND 20),
+  compensation BOOLEAN NOT NULL,
+  max_failed_units INTEGER NOT NULL CHECK (max_failed_units >= 0),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Décision du jury lorsqu'elle diffère de la proposition calculée
+CREATE TABLE IF NOT EXISTS jury_decisions (
+  id SERIAL PRIMARY KEY,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  academic_year VARCHAR(9) NOT NULL,
+  semester VARCHAR(20) NOT NULL,
+  decision VARCHAR(3) NOT NULL CHECK (decision IN ('ADM', 'AJ', 'ADJ', 'CMP')),
+  proposed_decision VARCHAR(3) CHECK (proposed_decision IN ('ADM', 'AJ', 'ADJ', 'CMP')),
+  justification TEXT NOT NULL,
+  decided_by INTEGER REFERENCES professors(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (student_id, academic_year, semester)
+);
+
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id SERIAL PRIMARY KEY,
+  professor_id INTEGER NOT NULL REFERENCES professors(id) ON DELETE CASCADE,
+  code_hash CHAR(64) NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  prefix VARCHAR(16) NOT NULL,
+  key_hash CHAR(64) UNIQUE NOT NULL,
+  scopes TEXT[] NOT NULL,
+  created_by INTEGER REFERENCES professors(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP
+);
+
+-- Journal des modifications de notes, en ajout seul. Alimenté par trigger
+-- pour qu'aucune écriture n'y échappe ; l'auteur, l'adresse IP et le motif
+-- sont transmis par l'application via des paramètres de transaction
+-- (voir GradeAuditService.setContext).
+CREATE TABLE IF NOT EXISTS grade_audit (
+  id BIGSERIAL PRIMARY KEY,
+  -- Pas de clés étrangères : le journal survit à la suppression de la note,
+  -- de l'étudiant ou du compte auteur, et n'est jamais modifié par cascade
+  grade_id INTEGER NOT NULL,
+  student_id INTEGER,
+  course_id INTEGER,
+  semester VARCHAR(20),
+  academic_year VARCHAR(9),
+  session VARCHAR(10),
+  action VARCHAR(10) NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  old_grade NUMERIC(4,2),
+  old_special_code VARCHAR(10),
+  new_grade NUMERIC(4,2),
+  new_special_code VARCHAR(10),
+  professor_id INTEGER,
+  api_key_id INTEGER,
+  ip VARCHAR(45),
+  reason TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_grade_audit_grade ON grade_audit (grade_id, id);
+CREATE INDEX IF NOT EXISTS idx_grade_audit_created_at ON grade_audit (created_at);
+
+CREATE OR REPLACE FUNCTION record_grade_change() RETURNS trigger AS $$
+DECLARE
+  grade_row grades%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.grade IS NOT DISTINCT FROM NEW.grade
+    AND OLD.special_code IS NOT DISTINCT FROM NEW.special_code THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    grade_row := OLD;
+  ELSE
+    grade_row := NEW;
+  END IF;
+
+  INSERT INTO grade_audit (
+    grade_id, student_id, course_id, semester, academic_year, session, action,
+    old_grade, old_special_code, new_grade, new_special_code,
+    professor_id, api_key_id, ip, reason
+  ) VALUES (
+    grade_row.id, grade_row.student_id, grade_row.course_id, grade_row.semester,
+    grade_row.academic_year, grade_row.session,
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.grade END,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.special_code END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.grade END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.special_code END,
+    NULLIF(current_setting('audit.professor_id', TRUE), '')::INTEGER,
+    NULLIF(current_setting('audit.api_key_id', TRUE), '')::INTEGER,
+    NULLIF(current_setting('audit.ip', TRUE), ''),
+    NULLIF(current_setting('audit.reason', TRUE), '')
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER grades_audit
+  AFTER INSERT OR UPDATE OR DELETE ON grades
+  FOR EACH ROW EXECUTE FUNCTION record_grade_change();
+
+CREATE OR REPLACE FUNCTION reject_grade_audit_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Le journal des notes est en ajout seul';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER grade_audit_append_only
+  BEFORE UPDATE OR DELETE ON grade_audit
+  FOR EACH ROW EXECUTE FUNCTION reject_grade_audit_change();
+
+CREATE OR REPLACE TRIGGER grade_audit_no_truncate
+  BEFORE TRUNCATE ON grade_audit
+  FOR EACH STATEMENT EXECUTE FUNCTION reject_grade_audit_change();
+
+-- Contrôle de concurrence optimiste : toute modification d'un cours ou d'une
+-- note, y compris par import ou recalcul, invalide l'ETag déjà transmis
+CREATE OR REPLACE FUNCTION increment_version() RETURNS trigger AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER courses_version
+  BEFORE UPDATE ON courses
+  FOR EACH ROW EXECUTE FUNCTION increment_version();
+
+CREATE OR REPLACE TRIGGER grades_version
+  BEFORE UPDATE ON grades
+  FOR EACH ROW EXECUTE FUNCTION increment_version();
+
+CREATE TABLE IF NOT EXISTS department_settings (
+  department VARCHAR(100) PRIMARY KEY,
+  require_two_factor BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  ip VARCHAR(45),
+  succeeded BOOLEAN NOT NULL,
+  attempted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip ON login_attempts (ip, attempted_at);
+
+CREATE TABLE IF NOT EXISTS student_accounts (
+  student_id INTEGER PRIMARY KEY REFERENCES students(id) ON DELETE CASCADE,
+  password_hash VARCHAR(255),
+  activation_token_hash CHAR(64) UNIQUE,
+  activation_expires_at TIMESTAMP,
+  activated_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id UUID PRIMARY KEY,
+  -- Une session appartient soit à un membre du personnel, soit à un étudiant
+  professor_id INTEGER REFERENCES professors(id) ON DELETE CASCADE,
+  student_id INTEGER REFERENCES students(id) ON DELETE CASCADE,
+  ip VARCHAR(45),
+  user_agent TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  revoked_at TIMESTAMP,
+  CHECK ((professor_id IS NULL) <> (student_id IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id SERIAL PRIMARY KEY,
+  professor_id INTEGER NOT NULL REFERENCES professors(id) ON DELETE CASCADE,
+  token_hash CHAR(64) UNIQUE NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id SERIAL PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES auth_sessions(id) ON DELETE CASCADE,
+  token_hash CHAR(64) UNIQUE NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -4,11 +4,20 @@ INSERT INTO professors (
     last_name,
     email,
     department,
-    password_hash
+    password_hash,
+    role
 ) VALUES (
     'John',
     'Doe',
     'prof@example.com',
     'Informatique',
-    '$2a$10$rN/uXdoptbcyxYNIr20pOOrhlF9uMmc27eM7/IfmBHx1gUEDLDTD.'
+    '$2a$10$rN/uXdoptbcyxYNIr20pOOrhlF9uMmc27eM7/IfmBHx1gUEDLDTD.',
+    'professor'
+), (
+    'Jane',
+    'Smith',
+    'admin@example.com',
+    'Informatique',
+    '$2a$10$rN/uXdoptbcyxYNIr20pOOrhlF9uMmc27eM7/IfmBHx1gUEDLDTD.',
+    'admin'
 );
@@ -0,0 +1,38 @@
+-- Colonnes ajoutées aux tables d'origine depuis la création des premières
+-- bases : init.sql ne crée que les tables absentes et ne les ajoute donc pas.
+-- Exécuté par le script db:unique-grades avant init.sql, qui crée ensuite
+-- les nouvelles tables, vues, fonctions et triggers.
+
+ALTER TABLE students
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP;
+
+ALTER TABLE courses
+  ADD COLUMN IF NOT EXISTS type VARCHAR(10) NOT NULL DEFAULT 'resource' CHECK (type IN ('resource', 'sae')),
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE grades
+  ALTER COLUMN grade DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS special_code VARCHAR(10) CHECK (special_code IN ('ABS', 'ABJ', 'DISP', 'EN ATTENTE')),
+  ADD COLUMN IF NOT EXISTS is_computed BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS session VARCHAR(10) NOT NULL DEFAULT 'first' CHECK (session IN ('first', 'resit')),
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Nom donné par PostgreSQL à la contrainte anonyme de init.sql
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'grades_check') THEN
+    ALTER TABLE grades ADD CONSTRAINT grades_check CHECK ((grade IS NULL) <> (special_code IS NULL));
+  END IF;
+END $$;
+
+ALTER TABLE professors
+  ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'professor'
+    CHECK (role IN ('admin', 'department_head', 'professor')),
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS totp_secret VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS totp_last_used_step BIGINT,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
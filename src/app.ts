@@ -1,4 +1,6 @@
 import express from 'express';
+// Transmet les rejets des handlers async au middleware d'erreurs
+import 'express-async-errors';
 import cors from 'cors';
 import helmet from 'helmet';
 import swaggerUi from 'swagger-ui-express';
@@ -11,6 +13,15 @@ import { courseRoutes } from './routes/courses';
 import { gradeRoutes } from './routes/grades';
 import { authRoutes } from './routes/auth';
 import { statsRoutes } from './routes/stats';
+import { professorRoutes } from './routes/professors';
+import { departmentRoutes } from './routes/departments';
+import { apiKeyRoutes } from './routes/apiKeys';
+import { meRoutes } from './routes/me';
+import { searchRoutes } from './routes/search';
+import { offeringRoutes } from './routes/offerings';
+import { curriculumRoutes } from './routes/curriculum';
+import { juryRoutes } from './routes/juries';
+import { auditRoutes } from './routes/audit';
 import { setupUnhandledErrors } from './middleware/unhandledErrors';
 
 // Configuration des gestionnaires d'erreurs globaux
@@ -20,8 +31,10 @@ const app = express();
 
 const corsOptions = {
     origin: process.env.FRONTEND_URL || 'http://localhost:5173', 
-    methods: ['GET', 'POST', 'PUT', 'DELETE'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
     credentials: true,
+    // Nom du fichier des exports CSV/XLSX, version des ressources modifiables
+    exposedHeaders: ['Content-Disposition', 'ETag'],
   };
 app.use(cors(corsOptions));
 
@@ -40,6 +53,15 @@ app.use('/api/students', authMiddleware, studentRoutes);
 app.use('/api/courses', authMiddleware, courseRoutes);
 app.use('/api/grades', authMiddleware, gradeRoutes);
 app.use('/api/stats', authMiddleware, statsRoutes);
+app.use('/api/professors', authMiddleware, professorRoutes);
+app.use('/api/departments', authMiddleware, departmentRoutes);
+app.use('/api/api-keys', authMiddleware, apiKeyRoutes);
+app.use('/api/me', authMiddleware, meRoutes);
+app.use('/api/search', authMiddleware, searchRoutes);
+app.use('/api/offerings', authMiddleware, offeringRoutes);
+app.use('/api/curriculum', authMiddleware, curriculumRoutes);
+app.use('/api/juries', authMiddleware, juryRoutes);
+app.use('/api/audit', authMiddleware, auditRoutes);
 
 // Middleware de gestion d'erreurs
 app.use(errorHandler);
@@ -1,4 +1,5 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
+import QueryStream from 'pg-query-stream';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -10,3 +11,40 @@ export const pool = new Pool({
   password: process.env.DB_PASSWORD || 'postgres',
   port: Number(process.env.DB_PORT) || 5432,
 });
+
+/**
+ * Exécute `work` dans une transaction : tout est validé si la fonction
+ * réussit, tout est annulé si elle lève une erreur.
+ */
+export const withTransaction = async <T>(
+  work: (client: PoolClient) => Promise<T>
+): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Parcourt le résultat d'une requête ligne par ligne, sans le charger
+ * entièrement en mémoire. La connexion est libérée en fin de parcours.
+ */
+export async function* streamQuery<T = Record<string, unknown>>(
+  text: string,
+  values: unknown[] = []
+): AsyncGenerator<T> {
+  const client = await pool.connect();
+  try {
+    yield* client.query(new QueryStream(text, values));
+  } finally {
+    client.release();
+  }
+}
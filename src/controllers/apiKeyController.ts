@@ -0,0 +1,82 @@
+import { Response } from 'express';
+import { pool } from '../config/database';
+import { CreateApiKeyInput } from '../schemas/apiKey.schema';
+import { AppError } from '../types/error';
+import { RequestWithUser } from '../middleware/auth';
+import { ApiKeyService } from '../services/apiKeyService';
+
+const API_KEY_COLUMNS = `
+  id,
+  name,
+  prefix,
+  scopes,
+  created_by as "createdBy",
+  created_at as "createdAt",
+  expires_at as "expiresAt",
+  last_used_at as "lastUsedAt",
+  revoked_at as "revokedAt"
+`;
+
+export const apiKeyController = {
+  async getAll(req: RequestWithUser, res: Response): Promise<void> {
+    try {
+      const result = await pool.query(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at DESC`
+      );
+      res.status(200).json(result.rows);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des clés API',
+        'API_KEYS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async create(req: RequestWithUser, res: Response): Promise<void> {
+    const { name, scopes, expiresAt }: CreateApiKeyInput = req.body;
+    try {
+      const { key, prefix, keyHash } = ApiKeyService.generate();
+      const result = await pool.query(
+        `
+        INSERT INTO api_keys (name, prefix, key_hash, scopes, created_by, expires_at)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING ${API_KEY_COLUMNS}
+      `,
+        [name, prefix, keyHash, scopes, req.user?.id, expiresAt ?? null]
+      );
+
+      // La clé en clair n'est renvoyée qu'à la création
+      res.status(201).json({ ...result.rows[0], key });
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la création de la clé API',
+        'API_KEY_CREATE_ERROR'
+      );
+    }
+  },
+
+  async revoke(req: RequestWithUser, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const result = await pool.query(
+        'UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW()) WHERE id = $1 RETURNING id',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'Clé API non trouvée', 'API_KEY_NOT_FOUND');
+      }
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la révocation de la clé API',
+        'API_KEY_REVOKE_ERROR'
+      );
+    }
+  },
+};
@@ -0,0 +1,305 @@
+import { Response } from 'express';
+import { pool } from '../config/database';
+import {
+  CreateAssessmentInput,
+  SaveAssessmentMarksInput,
+  UpdateAssessmentInput,
+} from '../schemas/assessment.schema';
+import { AppError } from '../types/error';
+import { RequestWithUser } from '../middleware/auth';
+import { CourseAccessService } from '../services/courseAccessService';
+import {
+  CourseOffering,
+  CourseOfferingService,
+} from '../services/courseOfferingService';
+import {
+  ASSESSMENT_COLUMNS,
+  AssessmentService,
+} from '../services/assessmentService';
+import { GradeAuditService } from '../services/gradeAuditService';
+
+const UPDATABLE_COLUMNS: Record<keyof UpdateAssessmentInput, string> = {
+  name: 'name',
+  weight: 'weight',
+  maxScore: 'max_score',
+  date: 'assessment_date',
+};
+
+/**
+ * Offre de cours de la requête, après vérification des droits de l'enseignant.
+ * Les évaluations recalculant les notes du cours, elles suivent les mêmes
+ * règles que les notes : figées une fois l'offre verrouillée, réservées aux
+ * gestionnaires après la date limite de saisie.
+ */
+const findManagedOffering = async (
+  req: RequestWithUser
+): Promise<CourseOffering> => {
+  const offering = await CourseOfferingService.findById(req.params.id);
+  await CourseAccessService.assertCanManageGrades(
+    req.user,
+    offering.courseId,
+    offering.academicYear
+  );
+  CourseOfferingService.assertGradesWritable(req.user, offering);
+  return offering;
+};
+
+const findAssessment = async (
+  offeringId: number | string,
+  assessmentId: string
+): Promise<{ id: number; maxScore: number }> => {
+  const result = await pool.query(
+    'SELECT id, max_score::float as "maxScore" FROM assessments WHERE id = $1 AND offering_id = $2',
+    [assessmentId, offeringId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AppError(404, 'Évaluation non trouvée', 'ASSESSMENT_NOT_FOUND');
+  }
+
+  return result.rows[0];
+};
+
+const listMarks = async (assessmentId: string): Promise<unknown[]> => {
+  const result = await pool.query(
+    `
+    SELECT s.id as "studentId", s.student_id as "studentNumber",
+           s.first_name as "firstName", s.last_name as "lastName",
+           m.score::float as "score"
+    FROM assessment_marks m
+    JOIN students s ON s.id = m.student_id
+    WHERE m.assessment_id = $1
+    ORDER BY s.last_name, s.first_name
+  `,
+    [assessmentId]
+  );
+  return result.rows;
+};
+
+export const assessmentController = {
+  /** Une nouvelle évaluation, encore sans notes, met en attente les notes du cours */
+  async create(req: RequestWithUser, res: Response): Promise<void> {
+    const {
+      name,
+      weight,
+      maxScore = 20,
+      date = null,
+    }: CreateAssessmentInput = req.body;
+    try {
+      const offering = await findManagedOffering(req);
+
+      const assessment = await GradeAuditService.withContext(
+        GradeAuditService.contextFrom(req, "Création de l'évaluation"),
+        async (client) => {
+          const result = await client.query(
+            `
+            INSERT INTO assessments AS a (offering_id, name, weight, max_score, assessment_date)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING ${ASSESSMENT_COLUMNS}
+          `,
+            [offering.id, name, weight, maxScore, date]
+          );
+
+          await AssessmentService.recomputeGrades(client, offering);
+          return result.rows[0];
+        }
+      );
+
+      res.status(201).json(assessment);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la création de l'évaluation",
+        'ASSESSMENT_CREATE_ERROR'
+      );
+    }
+  },
+
+  /** Un changement de coefficient ou de barème recalcule les notes du cours */
+  async update(req: RequestWithUser, res: Response): Promise<void> {
+    const { assessmentId } = req.params;
+    const changes: UpdateAssessmentInput = req.body;
+    const fields = (
+      Object.keys(UPDATABLE_COLUMNS) as (keyof UpdateAssessmentInput)[]
+    ).filter((field) => changes[field] !== undefined);
+
+    try {
+      if (fields.length === 0) {
+        throw new AppError(400, 'Aucune modification fournie', 'EMPTY_UPDATE');
+      }
+
+      const offering = await findManagedOffering(req);
+      await findAssessment(offering.id, assessmentId);
+
+      if (changes.maxScore !== undefined) {
+        const above = await pool.query(
+          'SELECT COUNT(*)::int as "count" FROM assessment_marks WHERE assessment_id = $1 AND score > $2',
+          [assessmentId, changes.maxScore]
+        );
+        if (above.rows[0].count > 0) {
+          throw new AppError(
+            409,
+            'Des notes déjà saisies dépassent le nouveau barème',
+            'ASSESSMENT_SCORES_ABOVE_MAX',
+            { count: above.rows[0].count }
+          );
+        }
+      }
+
+      const assessment = await GradeAuditService.withContext(
+        GradeAuditService.contextFrom(req, "Modification de l'évaluation"),
+        async (client) => {
+          const result = await client.query(
+            `
+            UPDATE assessments a
+            SET ${fields
+              .map((field, index) => `${UPDATABLE_COLUMNS[field]} = $${index + 1}`)
+              .join(', ')}
+            WHERE a.id = $${fields.length + 1}
+            RETURNING ${ASSESSMENT_COLUMNS}
+          `,
+            [...fields.map((field) => changes[field]), assessmentId]
+          );
+
+          if (fields.includes('weight') || fields.includes('maxScore')) {
+            await AssessmentService.recomputeGrades(client, offering);
+          }
+          return result.rows[0];
+        }
+      );
+
+      res.status(200).json(assessment);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la mise à jour de l'évaluation",
+        'ASSESSMENT_UPDATE_ERROR'
+      );
+    }
+  },
+
+  async delete(req: RequestWithUser, res: Response): Promise<void> {
+    const { assessmentId } = req.params;
+    try {
+      const offering = await findManagedOffering(req);
+      await findAssessment(offering.id, assessmentId);
+
+      await GradeAuditService.withContext(
+        GradeAuditService.contextFrom(req, "Suppression de l'évaluation"),
+        async (client) => {
+          await client.query('DELETE FROM assessments WHERE id = $1', [
+            assessmentId,
+          ]);
+          await AssessmentService.recomputeGrades(client, offering);
+        }
+      );
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la suppression de l'évaluation",
+        'ASSESSMENT_DELETE_ERROR'
+      );
+    }
+  },
+
+  async getMarks(req: RequestWithUser, res: Response): Promise<void> {
+    const { id, assessmentId } = req.params;
+    try {
+      await findAssessment(id, assessmentId);
+      res.status(200).json(await listMarks(assessmentId));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la récupération des notes de l'évaluation",
+        'ASSESSMENT_MARKS_FETCH_ERROR'
+      );
+    }
+  },
+
+  /**
+   * Enregistre les notes d'une évaluation pour plusieurs étudiants et
+   * recalcule leur note de cours, dans une seule transaction.
+   */
+  async saveMarks(req: RequestWithUser, res: Response): Promise<void> {
+    const { assessmentId } = req.params;
+    const { marks }: SaveAssessmentMarksInput = req.body;
+    try {
+      const offering = await findManagedOffering(req);
+      const { maxScore } = await findAssessment(offering.id, assessmentId);
+
+      const seen = new Set<number>();
+      const errors = marks.flatMap(({ studentId, score }, index) => {
+        let message: string | null = null;
+        if (seen.has(studentId)) {
+          message = 'Étudiant présent plusieurs fois';
+        } else if (score !== null && score > maxScore) {
+          message = `La note dépasse le barème de l'évaluation (${maxScore})`;
+        }
+        seen.add(studentId);
+        return message ? [{ index, studentId, message }] : [];
+      });
+      if (errors.length > 0) {
+        throw new AppError(400, 'Notes invalides', 'INVALID_MARKS', errors);
+      }
+
+      const studentIds = [...seen];
+      const students = await pool.query(
+        'SELECT id FROM students WHERE id = ANY($1)',
+        [studentIds]
+      );
+      const found = new Set(students.rows.map((row) => row.id));
+      const missing = studentIds.filter((studentId) => !found.has(studentId));
+      if (missing.length > 0) {
+        throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND', {
+          studentIds: missing,
+        });
+      }
+
+      const scored = marks.filter((mark) => mark.score !== null);
+      const removed = marks.filter((mark) => mark.score === null);
+      await GradeAuditService.withContext(
+        GradeAuditService.contextFrom(req, "Saisie des notes d'évaluation"),
+        async (client) => {
+          if (scored.length > 0) {
+            await client.query(
+              `
+              INSERT INTO assessment_marks (assessment_id, student_id, score)
+              SELECT $1, student_id, score
+              FROM UNNEST($2::int[], $3::numeric[]) AS t(student_id, score)
+              ON CONFLICT (assessment_id, student_id) DO UPDATE
+              SET score = EXCLUDED.score, updated_at = CURRENT_TIMESTAMP
+            `,
+              [
+                assessmentId,
+                scored.map((mark) => mark.studentId),
+                scored.map((mark) => mark.score),
+              ]
+            );
+          }
+          if (removed.length > 0) {
+            await client.query(
+              'DELETE FROM assessment_marks WHERE assessment_id = $1 AND student_id = ANY($2)',
+              [assessmentId, removed.map((mark) => mark.studentId)]
+            );
+          }
+          await AssessmentService.recomputeGrades(client, offering, studentIds);
+        }
+      );
+
+      res.status(200).json(await listMarks(assessmentId));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'enregistrement des notes de l'évaluation",
+        'ASSESSMENT_MARKS_SAVE_ERROR'
+      );
+    }
+  },
+};
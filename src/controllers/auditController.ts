@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { AppError } from '../types/error';
+import { gradeAuditListQuery } from '../schemas/gradeAudit.schema';
+import { GRADE_AUDIT_SOURCE } from '../services/gradeAuditService';
+import { ListQueryService } from '../services/listQueryService';
+import { ExportColumn, ExportService } from '../services/exportService';
+
+const GRADE_AUDIT_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'createdAt', header: 'Date', type: 'date' },
+  { key: 'action', header: 'Action' },
+  { key: 'gradeId', header: 'Note', type: 'number' },
+  { key: 'studentId', header: 'Étudiant', type: 'number' },
+  { key: 'courseId', header: 'Cours', type: 'number' },
+  { key: 'semester', header: 'Semestre' },
+  { key: 'academicYear', header: 'Année universitaire' },
+  { key: 'session', header: 'Session' },
+  { key: 'oldGrade', header: 'Ancienne note', type: 'number' },
+  { key: 'oldSpecialCode', header: 'Ancien code spécial' },
+  { key: 'newGrade', header: 'Nouvelle note', type: 'number' },
+  { key: 'newSpecialCode', header: 'Nouveau code spécial' },
+  { key: 'professorName', header: 'Auteur' },
+  { key: 'apiKeyId', header: 'Clé API', type: 'number' },
+  { key: 'ip', header: 'Adresse IP' },
+  { key: 'reason', header: 'Motif' },
+];
+
+export const auditController = {
+  /** Journal des modifications de notes, toutes notes confondues */
+  async getGradeChanges(req: Request, res: Response): Promise<void> {
+    const exportOptions = ExportService.getOptions(req);
+    try {
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: 'historique-notes',
+          columns: GRADE_AUDIT_EXPORT_COLUMNS,
+          rows: ListQueryService.stream(
+            req,
+            gradeAuditListQuery,
+            GRADE_AUDIT_SOURCE
+          ),
+        });
+        return;
+      }
+
+      const page = await ListQueryService.paginate(
+        req,
+        gradeAuditListQuery,
+        GRADE_AUDIT_SOURCE
+      );
+      res.status(200).json(page);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la récupération de l'historique des notes",
+        'GRADE_AUDIT_FETCH_ERROR'
+      );
+    }
+  },
+};
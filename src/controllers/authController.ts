@@ -1,9 +1,94 @@
 import { Request, Response } from 'express';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { pool } from '../config/database';
-import { LoginInput } from '../schemas/auth.schema';
+import crypto from 'crypto';
+import {
+  ActivateStudentAccountInput,
+  ChallengeInput,
+  ChangePasswordInput,
+  DisableTwoFactorInput,
+  ForgotPasswordInput,
+  LoginInput,
+  RefreshTokenInput,
+  ResetPasswordInput,
+  TwoFactorCodeInput,
+  TwoFactorLoginInput,
+} from '../schemas/auth.schema';
 import { AppError } from '../types/error';
+import { RequestWithUser } from '../middleware/auth';
+import { JWTPayload } from '../types/auth';
+import { TokenService } from '../services/tokenService';
+import { PasswordService } from '../services/passwordService';
+import { MailService } from '../services/mailService';
+import { logger } from '../services/loggerService';
+import {
+  LoginThrottleService,
+  LoginThrottleState,
+} from '../services/loginThrottleService';
+import { TwoFactorService } from '../services/twoFactorService';
+
+const PASSWORD_RESET_TTL_MINUTES =
+  Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
+
+const LOGIN_COLUMNS = `
+  p.id, p.email, p.password_hash as "passwordHash", p.first_name as "firstName",
+  p.department, p.role, p.is_active as "isActive",
+  p.failed_login_attempts as "failedLoginAttempts",
+  p.last_failed_login_at as "lastFailedLoginAt",
+  p.locked_until as "lockedUntil",
+  p.totp_enabled as "totpEnabled",
+  COALESCE(ds.require_two_factor, FALSE) as "twoFactorRequired"
+`;
+
+interface LoginProfessor extends LoginThrottleState {
+  email: string;
+  firstName: string;
+  department: string;
+  role: JWTPayload['role'];
+}
+
+const startSession = async (
+  professor: LoginProfessor,
+  req: Request,
+  res: Response,
+  extra: Record<string, unknown> = {}
+): Promise<void> => {
+  const { token, refreshToken } = await TokenService.createSession(
+    {
+      id: professor.id,
+      email: professor.email,
+      role: professor.role,
+    },
+    { ip: req.ip, userAgent: req.get('user-agent') }
+  );
+
+  res.status(200).json({
+    token,
+    refreshToken,
+    professor: {
+      id: professor.id,
+      email: professor.email,
+      firstName: professor.firstName,
+      department: professor.department,
+      role: professor.role,
+    },
+    ...extra,
+  });
+};
+
+const findProfessorForLogin = async (
+  professorId: number
+): Promise<LoginProfessor | undefined> => {
+  const result = await pool.query(
+    `
+    SELECT ${LOGIN_COLUMNS}
+    FROM professors p
+    LEFT JOIN department_settings ds ON ds.department = p.department
+    WHERE p.id = $1 AND p.is_active
+  `,
+    [professorId]
+  );
+  return result.rows[0];
+};
 
 export const authController = {
   async login(req: Request, res: Response): Promise<void> {
@@ -11,47 +96,519 @@ export const authController = {
 
     try {
       const result = await pool.query(
-        'SELECT id, email, password_hash as "passwordHash", first_name as "firstName", department FROM professors WHERE email = $1',
+        `
+        SELECT ${LOGIN_COLUMNS}
+        FROM professors p
+        LEFT JOIN department_settings ds ON ds.department = p.department
+        WHERE p.email = $1
+      `,
         [email]
       );
+      const professor = result.rows[0];
 
-      if (result.rows.length === 0) {
+      // Vérifié avant bcrypt pour ne pas payer le coût du hash sur une attaque
+      await LoginThrottleService.assertAllowed(professor, req.ip);
+
+      if (!professor) {
+        await LoginThrottleService.recordFailure(email, req.ip);
         res.status(401).json({ error: 'Email ou mot de passe incorrect' });
         return;
       }
 
-      const professor = result.rows[0];
-      const validPassword = await bcrypt.compare(
+      const validPassword = await PasswordService.verify(
         password,
         professor.passwordHash
       );
 
       if (!validPassword) {
+        await LoginThrottleService.recordFailure(email, req.ip, professor.id);
         res.status(401).json({ error: 'Email ou mot de passe incorrect' });
         return;
       }
 
-      const token = jwt.sign(
-        {
-          id: professor.id,
-          email: professor.email,
-          role: 'professor',
-        },
-        process.env.JWT_SECRET!,
-        { expiresIn: process.env.JWT_EXPIRES_IN }
+      await LoginThrottleService.recordSuccess(email, req.ip, professor.id);
+
+      if (professor.isActive === false) {
+        res.status(403).json({ error: 'Compte désactivé' });
+        return;
+      }
+
+      if (professor.totpEnabled) {
+        res.status(200).json({
+          twoFactorRequired: true,
+          challengeToken: TwoFactorService.createChallenge(professor.id, '2fa'),
+        });
+        return;
+      }
+
+      if (professor.twoFactorRequired) {
+        res.status(200).json({
+          twoFactorSetupRequired: true,
+          challengeToken: TwoFactorService.createChallenge(
+            professor.id,
+            '2fa-setup'
+          ),
+        });
+        return;
+      }
+
+      await startSession(professor, req, res);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(500, 'Erreur lors de la connexion', 'AUTH_ERROR');
+    }
+  },
+
+  async loginTwoFactor(req: Request, res: Response): Promise<void> {
+    const { challengeToken, code, recoveryCode }: TwoFactorLoginInput =
+      req.body;
+
+    try {
+      const professorId = TwoFactorService.verifyChallenge(
+        challengeToken,
+        '2fa'
+      );
+      const professor = await findProfessorForLogin(professorId);
+
+      if (!professor) {
+        throw new AppError(401, 'Compte introuvable ou désactivé', 'AUTH_ERROR');
+      }
+
+      await LoginThrottleService.assertAllowed(professor, req.ip);
+
+      const verified = await TwoFactorService.verify(professorId, {
+        code,
+        recoveryCode,
+      });
+
+      if (!verified) {
+        await LoginThrottleService.recordFailure(
+          professor.email,
+          req.ip,
+          professorId
+        );
+        throw new AppError(401, 'Code invalide', 'INVALID_TWO_FACTOR_CODE');
+      }
+
+      await LoginThrottleService.recordSuccess(
+        professor.email,
+        req.ip,
+        professorId
       );
-      
+      await startSession(professor, req, res);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(500, 'Erreur lors de la connexion', 'AUTH_ERROR');
+    }
+  },
+
+  // Enrôlement imposé par le département, avant la première connexion
+  async setupTwoFactorWithChallenge(req: Request, res: Response): Promise<void> {
+    const { challengeToken }: ChallengeInput = req.body;
+
+    try {
+      const professorId = TwoFactorService.verifyChallenge(
+        challengeToken,
+        '2fa-setup'
+      );
+      res.status(200).json(await TwoFactorService.startSetup(professorId));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'activation de la double authentification",
+        'TWO_FACTOR_ERROR'
+      );
+    }
+  },
+
+  async enableTwoFactorWithChallenge(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const { challengeToken, code }: ChallengeInput & TwoFactorCodeInput =
+      req.body;
+
+    try {
+      const professorId = TwoFactorService.verifyChallenge(
+        challengeToken,
+        '2fa-setup'
+      );
+      const professor = await findProfessorForLogin(professorId);
+
+      if (!professor) {
+        throw new AppError(401, 'Compte introuvable ou désactivé', 'AUTH_ERROR');
+      }
+
+      const recoveryCodes = await TwoFactorService.enable(professorId, code);
+      await startSession(professor, req, res, { recoveryCodes });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'activation de la double authentification",
+        'TWO_FACTOR_ERROR'
+      );
+    }
+  },
+
+  async setupTwoFactor(req: RequestWithUser, res: Response): Promise<void> {
+    try {
+      res.status(200).json(await TwoFactorService.startSetup(req.user!.id));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'activation de la double authentification",
+        'TWO_FACTOR_ERROR'
+      );
+    }
+  },
+
+  async enableTwoFactor(req: RequestWithUser, res: Response): Promise<void> {
+    const { code }: TwoFactorCodeInput = req.body;
+
+    try {
+      const recoveryCodes = await TwoFactorService.enable(req.user!.id, code);
+      res.status(200).json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'activation de la double authentification",
+        'TWO_FACTOR_ERROR'
+      );
+    }
+  },
+
+  async disableTwoFactor(req: RequestWithUser, res: Response): Promise<void> {
+    const { password }: DisableTwoFactorInput = req.body;
+
+    try {
+      const result = await pool.query(
+        'SELECT password_hash as "passwordHash" FROM professors WHERE id = $1',
+        [req.user!.id]
+      );
+
+      if (
+        result.rows.length === 0 ||
+        !(await PasswordService.verify(password, result.rows[0].passwordHash))
+      ) {
+        throw new AppError(401, 'Mot de passe incorrect', 'INVALID_PASSWORD');
+      }
+
+      if (await TwoFactorService.isRequiredFor(req.user!.id)) {
+        throw new AppError(
+          403,
+          'La double authentification est obligatoire pour votre département',
+          'TWO_FACTOR_REQUIRED'
+        );
+      }
+
+      await TwoFactorService.disable(req.user!.id);
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la désactivation de la double authentification',
+        'TWO_FACTOR_ERROR'
+      );
+    }
+  },
+
+  async refresh(req: Request, res: Response): Promise<void> {
+    const { refreshToken }: RefreshTokenInput = req.body;
+
+    try {
+      const tokens = await TokenService.rotate(refreshToken);
+      res.status(200).json(tokens);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors du renouvellement du token',
+        'TOKEN_REFRESH_ERROR'
+      );
+    }
+  },
+
+  async logout(req: RequestWithUser, res: Response): Promise<void> {
+    try {
+      await TokenService.revokeSession(req.user!.sid);
+      res.status(204).json();
+    } catch (error) {
+      throw new AppError(500, 'Erreur lors de la déconnexion', 'LOGOUT_ERROR');
+    }
+  },
+
+  async logoutAll(req: RequestWithUser, res: Response): Promise<void> {
+    try {
+      if (req.user!.role === 'student') {
+        await TokenService.revokeAllStudentSessions(req.user!.id);
+      } else {
+        await TokenService.revokeAllSessions(req.user!.id);
+      }
+      res.status(204).json();
+    } catch (error) {
+      throw new AppError(500, 'Erreur lors de la déconnexion', 'LOGOUT_ERROR');
+    }
+  },
+
+  async me(req: RequestWithUser, res: Response): Promise<void> {
+    try {
+      const result = await pool.query(
+        `
+        SELECT id, first_name as "firstName", last_name as "lastName", email,
+               department, role, is_active as "isActive"
+        FROM professors
+        WHERE id = $1
+      `,
+        [req.user!.id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'Professeur non trouvé', 'PROFESSOR_NOT_FOUND');
+      }
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération du profil',
+        'PROFILE_FETCH_ERROR'
+      );
+    }
+  },
+
+  async changePassword(req: RequestWithUser, res: Response): Promise<void> {
+    const { currentPassword, newPassword }: ChangePasswordInput = req.body;
+
+    try {
+      const result = await pool.query(
+        'SELECT password_hash as "passwordHash" FROM professors WHERE id = $1',
+        [req.user!.id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'Professeur non trouvé', 'PROFESSOR_NOT_FOUND');
+      }
+
+      const validPassword = await PasswordService.verify(
+        currentPassword,
+        result.rows[0].passwordHash
+      );
+
+      if (!validPassword) {
+        throw new AppError(
+          401,
+          'Mot de passe actuel incorrect',
+          'INVALID_CURRENT_PASSWORD'
+        );
+      }
+
+      await pool.query(
+        'UPDATE professors SET password_hash = $1 WHERE id = $2',
+        [await PasswordService.hash(newPassword), req.user!.id]
+      );
+
+      // Les autres appareils doivent se reconnecter avec le nouveau mot de passe
+      await TokenService.revokeAllSessions(req.user!.id, req.user!.sid);
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors du changement de mot de passe',
+        'PASSWORD_CHANGE_ERROR'
+      );
+    }
+  },
+
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    const { email }: ForgotPasswordInput = req.body;
+
+    try {
+      const result = await pool.query(
+        'SELECT id, email, first_name as "firstName" FROM professors WHERE email = $1 AND is_active',
+        [email]
+      );
+
+      if (result.rows.length > 0) {
+        const professor = result.rows[0];
+        const resetToken = crypto.randomBytes(32).toString('base64url');
+
+        // Un seul lien valide à la fois
+        await pool.query(
+          'UPDATE password_reset_tokens SET used_at = NOW() WHERE professor_id = $1 AND used_at IS NULL',
+          [professor.id]
+        );
+        await pool.query(
+          `
+          INSERT INTO password_reset_tokens (professor_id, token_hash, expires_at)
+          VALUES ($1, $2, NOW() + make_interval(mins => $3))
+        `,
+          [
+            professor.id,
+            TokenService.hashToken(resetToken),
+            PASSWORD_RESET_TTL_MINUTES,
+          ]
+        );
+
+        const resetUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/reset-password?token=${resetToken}`;
+
+        // Envoi non bloquant : le temps de réponse ne doit pas trahir l'existence du compte
+        MailService.send({
+          to: professor.email,
+          subject: 'Réinitialisation de votre mot de passe',
+          text: `Bonjour ${professor.firstName},\n\nPour réinitialiser votre mot de passe, suivez ce lien (valable ${PASSWORD_RESET_TTL_MINUTES} minutes) :\n${resetUrl}\n\nSi vous n'êtes pas à l'origine de cette demande, ignorez cet email.`,
+        }).catch((error) =>
+          logger.error('Password reset mail failed', {
+            error: error.message,
+            professorId: professor.id,
+          })
+        );
+      }
+
+      res.status(202).json({
+        message:
+          'Si un compte correspond à cet email, un lien de réinitialisation a été envoyé',
+      });
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la demande de réinitialisation',
+        'PASSWORD_RESET_ERROR'
+      );
+    }
+  },
+
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    const { token, newPassword }: ResetPasswordInput = req.body;
+
+    try {
+      const result = await pool.query(
+        `
+        UPDATE password_reset_tokens
+        SET used_at = NOW()
+        WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+        RETURNING professor_id as "professorId"
+      `,
+        [TokenService.hashToken(token)]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(
+          400,
+          'Lien de réinitialisation invalide ou expiré',
+          'INVALID_RESET_TOKEN'
+        );
+      }
+
+      const { professorId } = result.rows[0];
+
+      await pool.query(
+        'UPDATE professors SET password_hash = $1 WHERE id = $2',
+        [await PasswordService.hash(newPassword), professorId]
+      );
+      await TokenService.revokeAllSessions(professorId);
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la réinitialisation du mot de passe',
+        'PASSWORD_RESET_ERROR'
+      );
+    }
+  },
+  async studentLogin(req: Request, res: Response): Promise<void> {
+    const { email, password }: LoginInput = req.body;
+
+    try {
+      await LoginThrottleService.assertAllowed(undefined, req.ip);
+
+      const result = await pool.query(
+        `
+        SELECT s.id, s.email, s.first_name as "firstName", s.last_name as "lastName",
+               s.student_id as "studentId", a.password_hash as "passwordHash"
+        FROM students s
+        JOIN student_accounts a ON a.student_id = s.id
+        WHERE s.email = $1 AND a.activated_at IS NOT NULL AND s.archived_at IS NULL
+      `,
+        [email]
+      );
+      const student = result.rows[0];
+
+      if (
+        !student ||
+        !(await PasswordService.verify(password, student.passwordHash))
+      ) {
+        await LoginThrottleService.recordFailure(email, req.ip);
+        res.status(401).json({ error: 'Email ou mot de passe incorrect' });
+        return;
+      }
+
+      const { token, refreshToken } = await TokenService.createSession(
+        { id: student.id, email: student.email, role: 'student' },
+        { ip: req.ip, userAgent: req.get('user-agent') }
+      );
+
       res.status(200).json({
         token,
-        professor: {
-          id: professor.id,
-          email: professor.email,
-          firstName: professor.firstName,
-          department: professor.department,
+        refreshToken,
+        student: {
+          id: student.id,
+          email: student.email,
+          firstName: student.firstName,
+          lastName: student.lastName,
+          studentId: student.studentId,
         },
       });
     } catch (error) {
+      if (error instanceof AppError) throw error;
       throw new AppError(500, 'Erreur lors de la connexion', 'AUTH_ERROR');
     }
   },
+
+  async activateStudentAccount(req: Request, res: Response): Promise<void> {
+    const { token, password }: ActivateStudentAccountInput = req.body;
+
+    try {
+      const result = await pool.query(
+        `
+        UPDATE student_accounts
+        SET password_hash = $2,
+            activated_at = COALESCE(activated_at, NOW()),
+            activation_token_hash = NULL,
+            activation_expires_at = NULL
+        WHERE activation_token_hash = $1 AND activation_expires_at > NOW()
+        RETURNING student_id as "studentId"
+      `,
+        [TokenService.hashToken(token), await PasswordService.hash(password)]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(
+          400,
+          "Lien d'activation invalide ou expiré",
+          'INVALID_ACTIVATION_TOKEN'
+        );
+      }
+
+      await TokenService.revokeAllStudentSessions(result.rows[0].studentId);
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'activation du compte",
+        'ACCOUNT_ACTIVATION_ERROR'
+      );
+    }
+  },
 };
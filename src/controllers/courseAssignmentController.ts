@@ -0,0 +1,151 @@
+import { Request, Response } from 'express';
+import { pool } from '../config/database';
+import { CreateCourseAssignmentInput } from '../schemas/courseAssignment.schema';
+import { AppError } from '../types/error';
+
+const ASSIGNMENT_COLUMNS = `
+  ca.id,
+  ca.course_id as "courseId",
+  c.code as "courseCode",
+  c.name as "courseName",
+  ca.professor_id as "professorId",
+  p.first_name as "professorFirstName",
+  p.last_name as "professorLastName",
+  ca.academic_year as "academicYear",
+  ca.role
+`;
+
+const ASSIGNMENT_FROM = `
+  FROM course_assignments ca
+  JOIN courses c ON c.id = ca.course_id
+  JOIN professors p ON p.id = ca.professor_id
+`;
+
+export const courseAssignmentController = {
+  async getByCourse(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { academicYear } = req.query as { academicYear?: string };
+    try {
+      const result = await pool.query(
+        `
+        SELECT ${ASSIGNMENT_COLUMNS}
+        ${ASSIGNMENT_FROM}
+        WHERE ca.course_id = $1 AND ($2::varchar IS NULL OR ca.academic_year = $2)
+        ORDER BY ca.academic_year DESC, ca.role DESC, p.last_name
+      `,
+        [id, academicYear ?? null]
+      );
+      res.status(200).json(result.rows);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des enseignants du cours',
+        'COURSE_ASSIGNMENTS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async getByProfessor(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { academicYear } = req.query as { academicYear?: string };
+    try {
+      const result = await pool.query(
+        `
+        SELECT ${ASSIGNMENT_COLUMNS}
+        ${ASSIGNMENT_FROM}
+        WHERE ca.professor_id = $1 AND ($2::varchar IS NULL OR ca.academic_year = $2)
+        ORDER BY ca.academic_year DESC, c.code
+      `,
+        [id, academicYear ?? null]
+      );
+      res.status(200).json(result.rows);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des cours du professeur',
+        'COURSE_ASSIGNMENTS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async create(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const {
+      professorId,
+      academicYear,
+      role = 'contributor',
+    }: CreateCourseAssignmentInput = req.body;
+    try {
+      const courseExists = await pool.query(
+        'SELECT id FROM courses WHERE id = $1',
+        [id]
+      );
+      const professorExists = await pool.query(
+        'SELECT id FROM professors WHERE id = $1 AND is_active',
+        [professorId]
+      );
+
+      if (courseExists.rows.length === 0) {
+        throw new AppError(404, 'Cours non trouvé', 'COURSE_NOT_FOUND');
+      }
+      if (professorExists.rows.length === 0) {
+        throw new AppError(404, 'Professeur non trouvé', 'PROFESSOR_NOT_FOUND');
+      }
+
+      const result = await pool.query(
+        `
+        INSERT INTO course_assignments (course_id, professor_id, academic_year, role)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id, course_id as "courseId", professor_id as "professorId",
+                  academic_year as "academicYear", role
+      `,
+        [id, professorId, academicYear, role]
+      );
+
+      res.status(201).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      if (error instanceof Error && 'code' in error && error.code === '23505') {
+        throw new AppError(
+          409,
+          role === 'responsible'
+            ? 'Ce cours a déjà un responsable ou ce professeur y est déjà affecté pour cette année'
+            : 'Ce professeur est déjà affecté à ce cours pour cette année',
+          'COURSE_ASSIGNMENT_CONFLICT'
+        );
+      }
+      throw new AppError(
+        500,
+        "Erreur lors de l'affectation du professeur",
+        'COURSE_ASSIGNMENT_CREATE_ERROR'
+      );
+    }
+  },
+
+  async delete(req: Request, res: Response): Promise<void> {
+    const { id, assignmentId } = req.params;
+    try {
+      const result = await pool.query(
+        'DELETE FROM course_assignments WHERE id = $1 AND course_id = $2 RETURNING id',
+        [assignmentId, id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(
+          404,
+          'Affectation non trouvée',
+          'COURSE_ASSIGNMENT_NOT_FOUND'
+        );
+      }
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la suppression de l'affectation",
+        'COURSE_ASSIGNMENT_DELETE_ERROR'
+      );
+    }
+  },
+};
@@ -1,22 +1,30 @@
 import { Request, Response } from 'express';
 import { pool } from '../config/database';
-import { CreateCourseInput } from '../schemas/course.schema';
+import { CreateCourseInput, courseListQuery } from '../schemas/course.schema';
 import { AppError } from '../types/error';
+import { ListQueryService } from '../services/listQueryService';
+import { ConcurrencyService } from '../services/concurrencyService';
+
+const COURSE_COLUMNS = `
+  id,
+  code,
+  name,
+  credits,
+  description,
+  type,
+  version
+`;
 
 export const courseController = {
   async getAll(req: Request, res: Response): Promise<void> {
     try {
-      const result = await pool.query(`
-        SELECT 
-          id,
-          code,
-          name,
-          credits,
-          description
-        FROM courses
-      `);
-      res.status(200).json(result.rows);
+      const page = await ListQueryService.paginate(req, courseListQuery, {
+        select: COURSE_COLUMNS,
+        from: 'courses',
+      });
+      res.status(200).json(page);
     } catch (error) {
+      if (error instanceof AppError) throw error;
       throw new AppError(
         500,
         'Erreur lors de la récupération des cours',
@@ -30,13 +38,8 @@ export const courseController = {
     try {
       const result = await pool.query(
         `
-        SELECT 
-          id,
-          code,
-          name,
-          credits,
-          description
-        FROM courses 
+        SELECT ${COURSE_COLUMNS}
+        FROM courses
         WHERE id = $1
       `,
         [id]
@@ -46,6 +49,7 @@ export const courseController = {
         throw new AppError(404, 'Cours non trouvé', 'COURSE_NOT_FOUND');
       }
 
+      ConcurrencyService.setETag(res, result.rows[0].version);
       res.status(200).json(result.rows[0]);
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -58,22 +62,24 @@ export const courseController = {
   },
 
   async create(req: Request, res: Response): Promise<void> {
-    const { code, name, credits, description }: CreateCourseInput = req.body;
+    const {
+      code,
+      name,
+      credits,
+      description,
+      type = 'resource',
+    }: CreateCourseInput = req.body;
     try {
       const result = await pool.query(
         `
-        INSERT INTO courses (code, name, credits, description)
-        VALUES ($1, $2, $3, $4)
-        RETURNING 
-          id,
-          code,
-          name,
-          credits,
-          description
+        INSERT INTO courses (code, name, credits, description, type)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING ${COURSE_COLUMNS}
       `,
-        [code, name, credits, description]
+        [code, name, credits, description, type]
       );
 
+      ConcurrencyService.setETag(res, result.rows[0].version);
       res.status(201).json(result.rows[0]);
     } catch (error) {
       if (error instanceof Error && 'code' in error && error.code === '23505') {
@@ -93,27 +99,38 @@ export const courseController = {
 
   async update(req: Request, res: Response): Promise<void> {
     const { id } = req.params;
-    const { code, name, credits, description }: CreateCourseInput = req.body;
+    const {
+      code,
+      name,
+      credits,
+      description,
+      type,
+    }: CreateCourseInput = req.body;
     try {
+      const expectedVersion = ConcurrencyService.expectedVersion(req);
       const result = await pool.query(
         `
         UPDATE courses 
-        SET code = $1, name = $2, credits = $3, description = $4
-        WHERE id = $5
-        RETURNING 
-          id,
-          code,
-          name,
-          credits,
-          description
+        SET code = $1, name = $2, credits = $3, description = $4,
+            type = COALESCE($5, type)
+        WHERE id = $6 AND ($7::int IS NULL OR version = $7)
+        RETURNING ${COURSE_COLUMNS}
       `,
-        [code, name, credits, description, id]
+        [code, name, credits, description, type ?? null, id, expectedVersion]
       );
 
       if (result.rows.length === 0) {
-        throw new AppError(404, 'Cours non trouvé', 'COURSE_NOT_FOUND');
+        const current = await pool.query(
+          `SELECT ${COURSE_COLUMNS} FROM courses WHERE id = $1`,
+          [id]
+        );
+        if (current.rows.length === 0) {
+          throw new AppError(404, 'Cours non trouvé', 'COURSE_NOT_FOUND');
+        }
+        throw ConcurrencyService.conflictError(res, current.rows[0]);
       }
 
+      ConcurrencyService.setETag(res, result.rows[0].version);
       res.status(200).json(result.rows[0]);
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -0,0 +1,254 @@
+import { Response } from 'express';
+import { pool } from '../config/database';
+import {
+  CreateCourseOfferingInput,
+  UnlockOfferingInput,
+  UpdateCourseOfferingInput,
+} from '../schemas/courseOffering.schema';
+import { AppError } from '../types/error';
+import { RequestWithUser } from '../middleware/auth';
+import { GradeService } from '../services/gradeService';
+import { CourseAccessService } from '../services/courseAccessService';
+import {
+  CourseOfferingService,
+  OFFERING_COLUMNS,
+  OfferingTransition,
+} from '../services/courseOfferingService';
+import { ASSESSMENT_COLUMNS } from '../services/assessmentService';
+import { MANAGER_ROLES } from '../types/auth';
+
+const UPDATABLE_COLUMNS: Record<keyof UpdateCourseOfferingInput, string> = {
+  resitPolicy: 'resit_policy',
+  gradeDeadline: 'grade_deadline',
+};
+
+/**
+ * Fait avancer l'offre dans le circuit de publication. Les enseignants du
+ * cours n'agissent que sur leurs offres ; les routes restreignent en plus
+ * verrouillage et déverrouillage aux rôles habilités.
+ */
+const applyTransition = async (
+  req: RequestWithUser,
+  res: Response,
+  transition: OfferingTransition,
+  justification: string | null = null
+): Promise<void> => {
+  try {
+    const offering = await CourseOfferingService.findById(req.params.id);
+    await CourseAccessService.assertCanManageGrades(
+      req.user,
+      offering.courseId,
+      offering.academicYear
+    );
+
+    const updated = await CourseOfferingService.transition(
+      offering,
+      transition,
+      req.user?.id ?? null,
+      justification
+    );
+    res.status(200).json(updated);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError(
+      500,
+      "Erreur lors du changement d'état de l'offre de cours",
+      'OFFERING_TRANSITION_ERROR'
+    );
+  }
+};
+
+export const courseOfferingController = {
+  async getByCourse(req: RequestWithUser, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { academicYear } = req.query as { academicYear?: string };
+    try {
+      const result = await pool.query(
+        `
+        SELECT ${OFFERING_COLUMNS},
+               COUNT(a.id)::int as "assessmentsCount",
+               COALESCE(SUM(a.weight), 0)::float as "totalWeight"
+        FROM course_offerings o
+        LEFT JOIN assessments a ON a.offering_id = o.id
+        WHERE o.course_id = $1 AND ($2::varchar IS NULL OR o.academic_year = $2)
+        GROUP BY o.id
+        ORDER BY o.academic_year DESC, o.semester
+      `,
+        [id, academicYear ?? null]
+      );
+      res.status(200).json(result.rows);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des offres du cours',
+        'OFFERINGS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async getById(req: RequestWithUser, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const offering = await CourseOfferingService.findById(id);
+      const assessments = await pool.query(
+        `
+        SELECT ${ASSESSMENT_COLUMNS}
+        FROM assessments a
+        WHERE a.offering_id = $1
+        ORDER BY a.assessment_date NULLS LAST, a.id
+      `,
+        [id]
+      );
+      res.status(200).json({ ...offering, assessments: assessments.rows });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la récupération de l'offre de cours",
+        'OFFERINGS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async create(req: RequestWithUser, res: Response): Promise<void> {
+    const courseId = Number(req.params.id);
+    const {
+      semester,
+      academicYear,
+      resitPolicy = 'best',
+    }: CreateCourseOfferingInput = req.body;
+    try {
+      await GradeService.assertCourseExists(courseId);
+      await CourseAccessService.assertCanManageGrades(
+        req.user,
+        courseId,
+        academicYear
+      );
+
+      const result = await pool.query(
+        `
+        INSERT INTO course_offerings (course_id, semester, academic_year, resit_policy)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id, course_id as "courseId", semester, academic_year as "academicYear",
+                  resit_policy as "resitPolicy", status, grade_deadline as "gradeDeadline",
+                  grade_deadline < CURRENT_DATE as "pastDeadline"
+      `,
+        [courseId, semester, academicYear, resitPolicy]
+      );
+
+      res.status(201).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      if (error instanceof Error && 'code' in error && error.code === '23505') {
+        throw new AppError(
+          409,
+          'Ce cours est déjà ouvert pour ce semestre et cette année',
+          'OFFERING_ALREADY_EXISTS'
+        );
+      }
+      throw new AppError(
+        500,
+        "Erreur lors de la création de l'offre de cours",
+        'OFFERING_CREATE_ERROR'
+      );
+    }
+  },
+
+  /**
+   * Change la politique de rattrapage (les notes retenues sont recalculées à
+   * la lecture) ou la date limite de saisie, réservée aux gestionnaires.
+   */
+  async update(req: RequestWithUser, res: Response): Promise<void> {
+    const { id } = req.params;
+    const changes: UpdateCourseOfferingInput = req.body;
+    const fields = (
+      Object.keys(UPDATABLE_COLUMNS) as (keyof UpdateCourseOfferingInput)[]
+    ).filter((field) => changes[field] !== undefined);
+
+    try {
+      if (fields.length === 0) {
+        throw new AppError(400, 'Aucune modification fournie', 'EMPTY_UPDATE');
+      }
+      if (
+        fields.includes('gradeDeadline') &&
+        !(req.user && MANAGER_ROLES.includes(req.user.role))
+      ) {
+        throw new AppError(
+          403,
+          'Seuls les administrateurs et chefs de département fixent la date limite de saisie',
+          'FORBIDDEN'
+        );
+      }
+
+      const offering = await CourseOfferingService.findById(id);
+      await CourseAccessService.assertCanManageGrades(
+        req.user,
+        offering.courseId,
+        offering.academicYear
+      );
+      CourseOfferingService.assertNotLocked(offering);
+
+      const result = await pool.query(
+        `
+        UPDATE course_offerings o
+        SET ${fields
+          .map((field, index) => `${UPDATABLE_COLUMNS[field]} = $${index + 1}`)
+          .join(', ')}
+        WHERE o.id = $${fields.length + 1}
+        RETURNING ${OFFERING_COLUMNS}
+      `,
+        [...fields.map((field) => changes[field]), id]
+      );
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la mise à jour de l'offre de cours",
+        'OFFERING_UPDATE_ERROR'
+      );
+    }
+  },
+
+  /** Saisie terminée : les notes sont prêtes à être publiées */
+  async submit(req: RequestWithUser, res: Response): Promise<void> {
+    await applyTransition(req, res, 'submit');
+  },
+
+  /** Remet en saisie une offre soumise */
+  async reopen(req: RequestWithUser, res: Response): Promise<void> {
+    await applyTransition(req, res, 'reopen');
+  },
+
+  /** Rend les notes visibles des étudiants */
+  async publish(req: RequestWithUser, res: Response): Promise<void> {
+    await applyTransition(req, res, 'publish');
+  },
+
+  /** Fige les notes après le jury */
+  async lock(req: RequestWithUser, res: Response): Promise<void> {
+    await applyTransition(req, res, 'lock');
+  },
+
+  /** Rouvre aux corrections une offre verrouillée, avec une justification consignée */
+  async unlock(req: RequestWithUser, res: Response): Promise<void> {
+    const { justification }: UnlockOfferingInput = req.body;
+    await applyTransition(req, res, 'unlock', justification.trim());
+  },
+
+  async getStatusChanges(req: RequestWithUser, res: Response): Promise<void> {
+    try {
+      const offering = await CourseOfferingService.findById(req.params.id);
+      const changes = await CourseOfferingService.findStatusChanges(offering.id);
+      res.status(200).json(changes);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la récupération de l'historique de l'offre de cours",
+        'OFFERINGS_FETCH_ERROR'
+      );
+    }
+  },
+};
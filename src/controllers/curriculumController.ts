@@ -0,0 +1,227 @@
+import { Request, Response } from 'express';
+import { pool } from '../config/database';
+import {
+  CourseUnitInput,
+  CreateCompetenceInput,
+  CreateTeachingUnitInput,
+} from '../schemas/curriculum.schema';
+import { AppError } from '../types/error';
+import { GradeService } from '../services/gradeService';
+import {
+  CurriculumService,
+  TEACHING_UNIT_COLUMNS,
+} from '../services/curriculumService';
+
+const COMPETENCE_COLUMNS = `
+  id,
+  code,
+  name,
+  description
+`;
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Error && 'code' in error && error.code === '23505';
+
+const isForeignKeyViolation = (error: unknown): boolean =>
+  error instanceof Error && 'code' in error && error.code === '23503';
+
+export const curriculumController = {
+  async getCompetences(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await pool.query(
+        `SELECT ${COMPETENCE_COLUMNS} FROM competences ORDER BY code`
+      );
+      res.status(200).json(result.rows);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des compétences',
+        'COMPETENCES_FETCH_ERROR'
+      );
+    }
+  },
+
+  async createCompetence(req: Request, res: Response): Promise<void> {
+    const { code, name, description }: CreateCompetenceInput = req.body;
+    try {
+      const result = await pool.query(
+        `
+        INSERT INTO competences (code, name, description)
+        VALUES ($1, $2, $3)
+        RETURNING ${COMPETENCE_COLUMNS}
+      `,
+        [code, name, description]
+      );
+
+      res.status(201).json(result.rows[0]);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new AppError(
+          409,
+          'Une compétence avec ce code existe déjà',
+          'COMPETENCE_ALREADY_EXISTS'
+        );
+      }
+      throw new AppError(
+        500,
+        'Erreur lors de la création de la compétence',
+        'COMPETENCE_CREATE_ERROR'
+      );
+    }
+  },
+
+  async getUnits(req: Request, res: Response): Promise<void> {
+    const { semester } = req.query as { semester?: string };
+    try {
+      const result = await pool.query(
+        `
+        SELECT ${TEACHING_UNIT_COLUMNS},
+               comp.code as "competenceCode",
+               COUNT(cu.course_id)::int as "coursesCount",
+               COALESCE(SUM(cu.coefficient), 0)::float as "totalCoefficient"
+        FROM teaching_units u
+        JOIN competences comp ON comp.id = u.competence_id
+        LEFT JOIN course_units cu ON cu.unit_id = u.id
+        WHERE ($1::varchar IS NULL OR u.semester = $1)
+        GROUP BY u.id, comp.code
+        ORDER BY u.semester, u.code
+      `,
+        [semester ?? null]
+      );
+      res.status(200).json(result.rows);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des UE',
+        'TEACHING_UNITS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async getUnitById(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const unit = await CurriculumService.findTeachingUnit(id);
+      const courses = await pool.query(
+        `
+        SELECT c.id as "courseId",
+               c.code,
+               c.name,
+               c.type,
+               cu.coefficient::float as "coefficient"
+        FROM course_units cu
+        JOIN courses c ON c.id = cu.course_id
+        WHERE cu.unit_id = $1
+        ORDER BY c.type, c.code
+      `,
+        [id]
+      );
+      res.status(200).json({ ...unit, courses: courses.rows });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la récupération de l'UE",
+        'TEACHING_UNITS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async createUnit(req: Request, res: Response): Promise<void> {
+    const {
+      code,
+      name,
+      competenceId,
+      semester,
+      credits,
+    }: CreateTeachingUnitInput = req.body;
+    try {
+      const result = await pool.query(
+        `
+        INSERT INTO teaching_units (code, name, competence_id, semester, credits)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id, code, name, competence_id as "competenceId", semester, credits
+      `,
+        [code, name, competenceId, semester, credits]
+      );
+
+      res.status(201).json(result.rows[0]);
+    } catch (error) {
+      if (isForeignKeyViolation(error)) {
+        throw new AppError(
+          404,
+          'Compétence non trouvée',
+          'COMPETENCE_NOT_FOUND'
+        );
+      }
+      if (isUniqueViolation(error)) {
+        throw new AppError(
+          409,
+          'Une UE avec ce code existe déjà ou la compétence est déjà évaluée sur ce semestre',
+          'TEACHING_UNIT_ALREADY_EXISTS'
+        );
+      }
+      throw new AppError(
+        500,
+        "Erreur lors de la création de l'UE",
+        'TEACHING_UNIT_CREATE_ERROR'
+      );
+    }
+  },
+
+  /** Rattache une ressource ou une SAÉ à l'UE, ou modifie son coefficient */
+  async setCourseCoefficient(req: Request, res: Response): Promise<void> {
+    const { id, courseId } = req.params;
+    const { coefficient }: CourseUnitInput = req.body;
+    try {
+      await CurriculumService.findTeachingUnit(id);
+      await GradeService.assertCourseExists(Number(courseId));
+
+      const result = await pool.query(
+        `
+        INSERT INTO course_units (course_id, unit_id, coefficient)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (course_id, unit_id) DO UPDATE SET coefficient = EXCLUDED.coefficient
+        RETURNING course_id as "courseId", unit_id as "unitId", coefficient::float as "coefficient"
+      `,
+        [courseId, id, coefficient]
+      );
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors du rattachement du cours à l'UE",
+        'COURSE_UNIT_UPDATE_ERROR'
+      );
+    }
+  },
+
+  async removeCourse(req: Request, res: Response): Promise<void> {
+    const { id, courseId } = req.params;
+    try {
+      const result = await pool.query(
+        'DELETE FROM course_units WHERE unit_id = $1 AND course_id = $2 RETURNING course_id',
+        [id, courseId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(
+          404,
+          "Ce cours n'est pas rattaché à cette UE",
+          'COURSE_UNIT_NOT_FOUND'
+        );
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors du détachement du cours de l'UE",
+        'COURSE_UNIT_DELETE_ERROR'
+      );
+    }
+  },
+};
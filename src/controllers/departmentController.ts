@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { pool } from '../config/database';
+import { UpdateDepartmentSettingsInput } from '../schemas/department.schema';
+import { AppError } from '../types/error';
+
+export const departmentController = {
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await pool.query(`
+        SELECT
+          d.department as "name",
+          COALESCE(ds.require_two_factor, FALSE) as "requireTwoFactor"
+        FROM (
+          SELECT department FROM professors
+          UNION
+          SELECT department FROM department_settings
+        ) d
+        LEFT JOIN department_settings ds ON ds.department = d.department
+        ORDER BY d.department
+      `);
+      res.status(200).json(result.rows);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des départements',
+        'DEPARTMENTS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async updateSettings(req: Request, res: Response): Promise<void> {
+    const { department } = req.params;
+    const { requireTwoFactor }: UpdateDepartmentSettingsInput = req.body;
+    try {
+      const result = await pool.query(
+        `
+        INSERT INTO department_settings (department, require_two_factor)
+        VALUES ($1, $2)
+        ON CONFLICT (department) DO UPDATE SET require_two_factor = EXCLUDED.require_two_factor
+        RETURNING department as "name", require_two_factor as "requireTwoFactor"
+      `,
+        [department, requireTwoFactor]
+      );
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la mise à jour du département',
+        'DEPARTMENT_UPDATE_ERROR'
+      );
+    }
+  },
+};
@@ -1,23 +1,144 @@
 import { Request, Response } from 'express';
-import { pool } from '../config/database';
-import { CreateGradeInput } from '../schemas/grade.schema';
+import { pool, streamQuery } from '../config/database';
+import {
+  CreateGradeInput,
+  deleteGradeQuerySchema,
+  gradeImportQuerySchema,
+  gradeListQuery,
+  missingGradesQuerySchema,
+  UpdateGradeInput,
+} from '../schemas/grade.schema';
 import { AppError } from '../types/error';
 import { PDFService } from '../services/pdfService';
+import { CourseAccessService } from '../services/courseAccessService';
+import {
+  CourseOfferingService,
+  OfferingWriteState,
+} from '../services/courseOfferingService';
+import { ListQueryService } from '../services/listQueryService';
+import {
+  computedGradeError,
+  GradeService,
+  resitNotAllowedError,
+} from '../services/gradeService';
+import { AssessmentService } from '../services/assessmentService';
+import { CurriculumService } from '../services/curriculumService';
+import { CsvService } from '../services/csvService';
+import {
+  GRADE_CSV_COLUMNS,
+  GradeImportService,
+} from '../services/gradeImportService';
+import { ExportColumn, ExportService } from '../services/exportService';
+import { GradeAuditService } from '../services/gradeAuditService';
+import { ConcurrencyService } from '../services/concurrencyService';
+import { RequestWithUser } from '../middleware/auth';
+
+const GRADE_COLUMNS = `
+  id, grade, special_code as "specialCode", semester,
+  academic_year as "academicYear", session, version
+`;
+
+const GRADE_LIST_SOURCE = {
+  select: `
+    g.id, g.grade, g.special_code as "specialCode", g.semester,
+    g.academic_year as "academicYear", g.session, g.version,
+    s.student_id as "studentNumber",
+    s.first_name as "studentFirstName", s.last_name as "studentLastName",
+    c.code as "courseCode", c.name as "courseName"
+  `,
+  from: `
+    grades g
+    JOIN students s ON s.id = g.student_id
+    JOIN courses c ON c.id = g.course_id
+  `,
+};
+
+const GRADE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'studentNumber', header: 'Numéro étudiant' },
+  { key: 'studentLastName', header: 'Nom' },
+  { key: 'studentFirstName', header: 'Prénom' },
+  { key: 'courseCode', header: 'Code du cours' },
+  { key: 'courseName', header: 'Cours' },
+  { key: 'semester', header: 'Semestre' },
+  { key: 'academicYear', header: 'Année universitaire' },
+  { key: 'session', header: 'Session' },
+  { key: 'grade', header: 'Note', type: 'number' },
+  { key: 'specialCode', header: 'Code spécial' },
+];
+
+const STUDENT_GRADE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'courseCode', header: 'Code du cours' },
+  { key: 'courseName', header: 'Cours' },
+  { key: 'credits', header: 'Crédits', type: 'number' },
+  { key: 'semester', header: 'Semestre' },
+  { key: 'academicYear', header: 'Année universitaire' },
+  { key: 'session', header: 'Session' },
+  { key: 'grade', header: 'Note', type: 'number' },
+  { key: 'specialCode', header: 'Code spécial' },
+];
+
+const MISSING_GRADE_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'professorName', header: 'Responsable' },
+  { key: 'professorEmail', header: 'Email du responsable' },
+  { key: 'courseCode', header: 'Code du cours' },
+  { key: 'courseName', header: 'Cours' },
+  { key: 'semester', header: 'Semestre' },
+  { key: 'academicYear', header: 'Année universitaire' },
+  { key: 'gradeDeadline', header: 'Date limite', type: 'date' },
+  { key: 'studentNumber', header: 'Numéro étudiant' },
+  { key: 'lastName', header: 'Nom' },
+  { key: 'firstName', header: 'Prénom' },
+];
+
+const findGradeScope = async (
+  id: string
+): Promise<
+  { courseId: number; academicYear: string } & OfferingWriteState
+> => {
+  const result = await pool.query(
+    `
+    SELECT g.course_id as "courseId", g.academic_year as "academicYear",
+           g.is_computed as "isComputed", o.status,
+           o.grade_deadline < CURRENT_DATE as "pastDeadline"
+    FROM grades g
+    LEFT JOIN course_offerings o
+      ON o.course_id = g.course_id AND o.semester = g.semester AND o.academic_year = g.academic_year
+    WHERE g.id = $1
+  `,
+    [id]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AppError(404, 'Note non trouvée', 'GRADE_NOT_FOUND');
+  }
+  if (result.rows[0].isComputed) {
+    throw computedGradeError();
+  }
+
+  return result.rows[0];
+};
 
 export const gradeController = {
   async getAll(req: Request, res: Response): Promise<void> {
+    const exportOptions = ExportService.getOptions(req);
     try {
-      const result = await pool.query(`
-        SELECT g.id, g.grade, g.semester, g.academic_year as "academicYear",
-               s.first_name as "studentFirstName", s.last_name as "studentLastName",
-               c.code as "courseCode", c.name as "courseName"
-        FROM grades g
-        JOIN students s ON s.id = g.student_id
-        JOIN courses c ON c.id = g.course_id
-        ORDER BY g.academic_year DESC, g.semester DESC
-      `);
-      res.status(200).json(result.rows);
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: 'notes',
+          columns: GRADE_EXPORT_COLUMNS,
+          rows: ListQueryService.stream(req, gradeListQuery, GRADE_LIST_SOURCE),
+        });
+        return;
+      }
+
+      const page = await ListQueryService.paginate(
+        req,
+        gradeListQuery,
+        GRADE_LIST_SOURCE
+      );
+      res.status(200).json(page);
     } catch (error) {
+      if (error instanceof AppError) throw error;
       throw new AppError(
         500,
         'Erreur lors de la récupération des notes',
@@ -26,20 +147,35 @@ export const gradeController = {
     }
   },
 
-  async getByStudent(req: Request, res: Response): Promise<void> {
+  async getByStudent(req: RequestWithUser, res: Response): Promise<void> {
     const { studentId } = req.params;
+    const params = [studentId, GradeService.publishedOnly(req.user)];
+    const query = `
+      SELECT g.id, g.grade, g.special_code as "specialCode", g.semester,
+             g.academic_year as "academicYear",
+             g.session, rg.id IS NOT NULL as "retained",
+             c.code as "courseCode", c.name as "courseName", c.credits
+      FROM grades g
+      JOIN courses c ON c.id = g.course_id
+      LEFT JOIN retained_grades rg ON rg.id = g.id
+      LEFT JOIN course_offerings o
+        ON o.course_id = g.course_id AND o.semester = g.semester AND o.academic_year = g.academic_year
+      WHERE g.student_id = $1
+        AND (NOT $2 OR o.status IN ('published', 'locked'))
+      ORDER BY g.academic_year DESC, g.semester DESC
+    `;
+    const exportOptions = ExportService.getOptions(req);
     try {
-      const result = await pool.query(
-        `
-        SELECT g.id, g.grade, g.semester, g.academic_year as "academicYear",
-               c.code as "courseCode", c.name as "courseName", c.credits
-        FROM grades g
-        JOIN courses c ON c.id = g.course_id
-        WHERE g.student_id = $1
-        ORDER BY g.academic_year DESC, g.semester DESC
-      `,
-        [studentId]
-      );
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: `notes-etudiant-${studentId}`,
+          columns: STUDENT_GRADE_EXPORT_COLUMNS,
+          rows: streamQuery(query, params),
+        });
+        return;
+      }
+
+      const result = await pool.query(query, params);
       res.status(200).json(result.rows);
     } catch (error) {
       throw new AppError(
@@ -50,41 +186,122 @@ export const gradeController = {
     }
   },
 
-  async create(req: Request, res: Response): Promise<void> {
+  async create(req: RequestWithUser, res: Response): Promise<void> {
     const {
       studentId,
       courseId,
       grade,
+      specialCode,
       semester,
       academicYear,
+      session = 'first',
+      reason,
+      upsert = false,
     }: CreateGradeInput = req.body;
+    const value = GradeService.toGradeValue(grade, specialCode);
     try {
-      const studentExists = await pool.query(
-        'SELECT id FROM students WHERE id = $1',
-        [studentId]
+      // Remplacer une note existante exige son ETag, comme une modification
+      // par PUT ; l'en-tête est sans objet si la note n'existe pas encore
+      const expectedVersion =
+        upsert && req.get('If-Match') !== undefined
+          ? ConcurrencyService.expectedVersion(req)
+          : undefined;
+
+      await GradeService.assertStudentExists(studentId);
+      await GradeService.assertCourseExists(courseId);
+
+      await CourseAccessService.assertCanManageGrades(
+        req.user,
+        courseId,
+        academicYear
       );
-      const courseExists = await pool.query(
-        'SELECT id FROM courses WHERE id = $1',
-        [courseId]
+      await CourseOfferingService.assertGradesEditable(
+        req.user,
+        courseId,
+        semester,
+        academicYear
       );
-
-      if (studentExists.rows.length === 0) {
-        throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND');
-      }
-      if (courseExists.rows.length === 0) {
-        throw new AppError(404, 'Cours non trouvé', 'COURSE_NOT_FOUND');
+      // Le rattrapage est un examen unique, saisi même si le cours est évalué
+      // par des évaluations pondérées en première session
+      if (session === 'first') {
+        await GradeService.assertManualGradesAllowed(
+          courseId,
+          semester,
+          academicYear
+        );
+      } else {
+        const passed = await GradeService.findPassedFirstSession(
+          courseId,
+          semester,
+          academicYear,
+          [studentId]
+        );
+        if (passed.length > 0) throw resitNotAllowedError();
       }
 
-      const result = await pool.query(
-        `
-        INSERT INTO grades (student_id, course_id, grade, semester, academic_year)
-        VALUES ($1, $2, $3, $4, $5)
-        RETURNING id, grade, semester, academic_year as "academicYear"
-      `,
-        [studentId, courseId, grade, semester, academicYear]
+      const result = await GradeAuditService.withContext(
+        GradeAuditService.contextFrom(req, reason),
+        (client) =>
+          client.query(
+            `
+            INSERT INTO grades (student_id, course_id, grade, special_code, semester, academic_year, session)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            ON CONFLICT ON CONSTRAINT grades_unique_session DO ${
+              upsert
+                ? `UPDATE SET grade = EXCLUDED.grade, special_code = EXCLUDED.special_code
+                   WHERE $8 AND ($9::int IS NULL OR grades.version = $9)`
+                : 'NOTHING'
+            }
+            RETURNING ${GRADE_COLUMNS}, xmax = 0 as "created"
+          `,
+            [
+              studentId,
+              courseId,
+              value.grade,
+              value.specialCode,
+              semester,
+              academicYear,
+              session,
+              ...(upsert
+                ? [expectedVersion !== undefined, expectedVersion ?? null]
+                : []),
+            ]
+          )
       );
 
-      res.status(201).json(result.rows[0]);
+      if (result.rows.length === 0) {
+        const existing = await pool.query(
+          `
+          SELECT ${GRADE_COLUMNS}
+          FROM grades
+          WHERE student_id = $1 AND course_id = $2 AND semester = $3
+            AND academic_year = $4 AND session = $5
+        `,
+          [studentId, courseId, semester, academicYear, session]
+        );
+        if (!upsert) {
+          throw new AppError(
+            409,
+            'Une note existe déjà pour cet étudiant, ce cours et cette session',
+            'GRADE_ALREADY_EXISTS',
+            existing.rows[0]
+          );
+        }
+        if (expectedVersion === undefined) {
+          throw new AppError(
+            428,
+            "Une note existe déjà : l'en-tête If-Match est requis pour la remplacer",
+            'PRECONDITION_REQUIRED',
+            existing.rows[0]
+          );
+        }
+        throw ConcurrencyService.conflictError(res, existing.rows[0]);
+      }
+
+      // xmax est nul pour une ligne insérée, renseigné pour une ligne mise à jour
+      const { created, ...saved } = result.rows[0];
+      ConcurrencyService.setETag(res, saved.version);
+      res.status(created ? 201 : 200).json(saved);
     } catch (error) {
       if (error instanceof AppError) throw error;
       throw new AppError(
@@ -95,24 +312,94 @@ export const gradeController = {
     }
   },
 
-  async update(req: Request, res: Response): Promise<void> {
+  async importCsv(req: RequestWithUser, res: Response): Promise<void> {
+    const { delimiter, encoding, dryRun, ...scope } =
+      gradeImportQuerySchema.parse(req.query);
+
+    await GradeService.assertCourseExists(scope.courseId);
+    await CourseAccessService.assertCanManageGrades(
+      req.user,
+      scope.courseId,
+      scope.academicYear
+    );
+    await CourseOfferingService.assertGradesEditable(
+      req.user,
+      scope.courseId,
+      scope.semester,
+      scope.academicYear
+    );
+    if (scope.session === 'first') {
+      await GradeService.assertManualGradesAllowed(
+        scope.courseId,
+        scope.semester,
+        scope.academicYear
+      );
+    }
+
+    const rows = CsvService.parse(req.body, {
+      delimiter,
+      encoding,
+      columns: GRADE_CSV_COLUMNS,
+    });
+
+    try {
+      const report = await GradeImportService.import(
+        rows,
+        scope,
+        dryRun,
+        GradeAuditService.contextFrom(req, `Import CSV (${rows.length} lignes)`)
+      );
+      res.status(200).json(report);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'import des notes",
+        'GRADE_IMPORT_ERROR'
+      );
+    }
+  },
+
+  async update(req: RequestWithUser, res: Response): Promise<void> {
     const { id } = req.params;
-    const { grade } = req.body;
+    const { grade, specialCode, reason }: UpdateGradeInput = req.body;
+    const value = GradeService.toGradeValue(grade, specialCode);
     try {
-      const result = await pool.query(
-        `
-        UPDATE grades
-        SET grade = $1
-        WHERE id = $2
-        RETURNING id, grade, semester, academic_year as "academicYear"
-      `,
-        [grade, id]
+      const expectedVersion = ConcurrencyService.expectedVersion(req);
+      const scope = await findGradeScope(id);
+      await CourseAccessService.assertCanManageGrades(
+        req.user,
+        scope.courseId,
+        scope.academicYear
+      );
+      CourseOfferingService.assertGradesWritable(req.user, scope);
+
+      const result = await GradeAuditService.withContext(
+        GradeAuditService.contextFrom(req, reason),
+        (client) =>
+          client.query(
+            `
+            UPDATE grades
+            SET grade = $1, special_code = $2
+            WHERE id = $3 AND ($4::int IS NULL OR version = $4)
+            RETURNING ${GRADE_COLUMNS}
+          `,
+            [value.grade, value.specialCode, id, expectedVersion]
+          )
       );
 
       if (result.rows.length === 0) {
-        throw new AppError(404, 'Note non trouvée', 'GRADE_NOT_FOUND');
+        const current = await pool.query(
+          `SELECT ${GRADE_COLUMNS} FROM grades WHERE id = $1`,
+          [id]
+        );
+        if (current.rows.length === 0) {
+          throw new AppError(404, 'Note non trouvée', 'GRADE_NOT_FOUND');
+        }
+        throw ConcurrencyService.conflictError(res, current.rows[0]);
       }
 
+      ConcurrencyService.setETag(res, result.rows[0].version);
       res.status(200).json(result.rows[0]);
     } catch (error) {
       if (error instanceof AppError) throw error;
@@ -124,12 +411,22 @@ export const gradeController = {
     }
   },
 
-  async delete(req: Request, res: Response): Promise<void> {
+  async delete(req: RequestWithUser, res: Response): Promise<void> {
     const { id } = req.params;
+    const { reason } = deleteGradeQuerySchema.parse(req.query);
     try {
-      const result = await pool.query(
-        'DELETE FROM grades WHERE id = $1 RETURNING *',
-        [id]
+      const scope = await findGradeScope(id);
+      await CourseAccessService.assertCanManageGrades(
+        req.user,
+        scope.courseId,
+        scope.academicYear
+      );
+      CourseOfferingService.assertGradesWritable(req.user, scope);
+
+      const result = await GradeAuditService.withContext(
+        GradeAuditService.contextFrom(req, reason),
+        (client) =>
+          client.query('DELETE FROM grades WHERE id = $1 RETURNING *', [id])
       );
 
       if (result.rows.length === 0) {
@@ -147,9 +444,70 @@ export const gradeController = {
     }
   },
 
-  async generateTranscript(req: Request, res: Response): Promise<void> {
+  /** Notes de première session manquantes après la date limite, par responsable de cours */
+  async getMissing(req: Request, res: Response): Promise<void> {
+    const filters = missingGradesQuerySchema.parse(req.query);
+    const exportOptions = ExportService.getOptions(req);
+    try {
+      const rows = await GradeService.findMissingGrades(filters);
+
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: 'notes-manquantes',
+          columns: MISSING_GRADE_EXPORT_COLUMNS,
+          rows: rows.map((row) => ({
+            ...row,
+            professorName: row.professorName ?? 'Sans responsable',
+          })),
+        });
+        return;
+      }
+
+      res.status(200).json(GradeService.groupMissingByProfessor(rows));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des notes manquantes',
+        'MISSING_GRADES_FETCH_ERROR'
+      );
+    }
+  },
+
+  /** Historique d'une note, consultable même après sa suppression */
+  async getHistory(req: RequestWithUser, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const history = await GradeAuditService.findHistory(Number(id));
+      if (history.length === 0) {
+        throw new AppError(404, 'Note non trouvée', 'GRADE_NOT_FOUND');
+      }
+
+      const { courseId, academicYear } = history[history.length - 1];
+      if (courseId !== null && academicYear !== null) {
+        await CourseAccessService.assertCanManageGrades(
+          req.user,
+          courseId,
+          academicYear
+        );
+      }
+
+      res.status(200).json(history);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la récupération de l'historique de la note",
+        'GRADE_HISTORY_ERROR'
+      );
+    }
+  },
+
+  async generateTranscript(req: RequestWithUser, res: Response): Promise<void> {
     const { studentId } = req.params;
     const { academicYear } = req.query as { academicYear: string };
+    const breakdown = req.query.breakdown === 'true';
+    const publishedOnly = GradeService.publishedOnly(req.user);
 
     try {
       const studentResult = await pool.query(
@@ -168,13 +526,17 @@ export const gradeController = {
           c.name as "courseName",
           c.credits,
           g.grade,
-          g.semester
-        FROM grades g
+          g.special_code as "specialCode",
+          g.blocks_validation as "blocksValidation",
+          g.semester,
+          g.session
+        FROM retained_grades g
         JOIN courses c ON c.id = g.course_id
         WHERE g.student_id = $1 AND g.academic_year = $2
+          AND (NOT $3 OR g.published)
         ORDER BY g.semester, c.code
       `,
-        [studentId, academicYear]
+        [studentId, academicYear, publishedOnly]
       );
 
       if (gradesResult.rows.length === 0) {
@@ -185,12 +547,42 @@ export const gradeController = {
         );
       }
 
+      let grades = gradesResult.rows;
+      if (breakdown) {
+        const marks = await AssessmentService.findStudentMarks(
+          Number(studentId),
+          academicYear
+        );
+        grades = grades.map((grade) => ({
+          ...grade,
+          assessments: marks
+            .filter(
+              (mark) =>
+                mark.courseCode === grade.courseCode &&
+                mark.semester === grade.semester
+            )
+            .map(({ name, weight, maxScore, score }) => ({
+              name,
+              weight,
+              maxScore,
+              score,
+            })),
+        }));
+      }
+
+      const units = await CurriculumService.getUnitAverages(
+        Number(studentId),
+        academicYear,
+        publishedOnly
+      );
+
       const pdfBuffer = await PDFService.generateTranscript(
         {
           ...studentResult.rows[0],
           academicYear,
         },
-        gradesResult.rows
+        grades,
+        units
       );
 
       res.setHeader('Content-Type', 'application/pdf');
@@ -0,0 +1,247 @@
+import { Request, Response } from 'express';
+import { pool } from '../config/database';
+import {
+  JuryDecisionInput,
+  JuryRulesInput,
+  juryDecisionScopeSchema,
+} from '../schemas/jury.schema';
+import { AppError } from '../types/error';
+import { RequestWithUser } from '../middleware/auth';
+import { GradeService } from '../services/gradeService';
+import { JuryService } from '../services/juryService';
+import { ExportColumn, ExportService } from '../services/exportService';
+
+const JURY_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'studentNumber', header: 'Numéro étudiant' },
+  { key: 'lastName', header: 'Nom' },
+  { key: 'firstName', header: 'Prénom' },
+  { key: 'semester', header: 'Semestre' },
+  { key: 'average', header: 'Moyenne', type: 'number' },
+  { key: 'validatedCredits', header: 'Crédits validés', type: 'number' },
+  { key: 'totalCredits', header: 'Crédits', type: 'number' },
+  { key: 'proposedDecision', header: 'Proposition' },
+  { key: 'decision', header: 'Décision' },
+  { key: 'justification', header: 'Justification' },
+  { key: 'progression', header: 'Passage en année suivante' },
+];
+
+export const juryController = {
+  async getRules(req: Request, res: Response): Promise<void> {
+    const { academicYear } = req.query as { academicYear: string };
+    try {
+      const rules = await JuryService.getRules(academicYear);
+      res.status(200).json({ academicYear, ...rules });
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des règles de jury',
+        'JURY_RULES_FETCH_ERROR'
+      );
+    }
+  },
+
+  async updateRules(req: Request, res: Response): Promise<void> {
+    const {
+      academicYear,
+      passingAverage,
+      eliminatoryAverage,
+      compensation,
+      maxFailedUnits,
+    }: JuryRulesInput = req.body;
+
+    if (eliminatoryAverage > passingAverage) {
+      throw new AppError(
+        400,
+        'La note éliminatoire ne peut pas dépasser la moyenne de validation',
+        'INVALID_JURY_RULES'
+      );
+    }
+
+    try {
+      const result = await pool.query(
+        `
+        INSERT INTO jury_rules (academic_year, passing_average, eliminatory_average, compensation, max_failed_units)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (academic_year) DO UPDATE SET
+          passing_average = EXCLUDED.passing_average,
+          eliminatory_average = EXCLUDED.eliminatory_average,
+          compensation = EXCLUDED.compensation,
+          max_failed_units = EXCLUDED.max_failed_units,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING academic_year as "academicYear",
+                  passing_average::float as "passingAverage",
+                  eliminatory_average::float as "eliminatoryAverage",
+                  compensation,
+                  max_failed_units as "maxFailedUnits"
+      `,
+        [
+          academicYear,
+          passingAverage,
+          eliminatoryAverage,
+          compensation,
+          maxFailedUnits,
+        ]
+      );
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors de la mise à jour des règles de jury',
+        'JURY_RULES_UPDATE_ERROR'
+      );
+    }
+  },
+
+  async getDecisions(req: Request, res: Response): Promise<void> {
+    const { academicYear, semester } = req.query as {
+      academicYear: string;
+      semester?: string;
+    };
+
+    const exportOptions = ExportService.getOptions(req);
+    try {
+      const students = (await JuryService.getDecisions(academicYear))
+        .map((student) => ({
+          ...student,
+          semesters: student.semesters.filter(
+            (result) => !semester || result.semester === semester
+          ),
+        }))
+        .filter((student) => student.semesters.length > 0);
+
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: `jury-${academicYear}${semester ? `-${semester}` : ''}`,
+          columns: JURY_EXPORT_COLUMNS,
+          rows: students.flatMap(({ semesters, ...student }) =>
+            semesters.map((result) => ({
+              ...student,
+              ...result,
+              progression: student.canProgress ? 'Oui' : 'Non',
+            }))
+          ),
+        });
+        return;
+      }
+
+      res.status(200).json(students);
+    } catch (error) {
+      throw new AppError(
+        500,
+        'Erreur lors du calcul des décisions de jury',
+        'JURY_DECISIONS_ERROR'
+      );
+    }
+  },
+
+  async getStudentDecisions(req: Request, res: Response): Promise<void> {
+    const studentId = Number(req.params.studentId);
+    const { academicYear } = req.query as { academicYear: string };
+    try {
+      const [student] = await JuryService.getDecisions(academicYear, studentId);
+      if (!student) {
+        throw new AppError(
+          404,
+          "Aucune moyenne d'UE pour cet étudiant sur cette année",
+          'JURY_RESULTS_NOT_FOUND'
+        );
+      }
+
+      res.status(200).json(student);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors du calcul des décisions de jury',
+        'JURY_DECISIONS_ERROR'
+      );
+    }
+  },
+
+  /** Remplace la proposition calculée par la décision du jury, justifiée */
+  async saveDecision(req: RequestWithUser, res: Response): Promise<void> {
+    const studentId = Number(req.params.studentId);
+    const { academicYear, semester, decision, justification }: JuryDecisionInput =
+      req.body;
+    try {
+      await GradeService.assertStudentExists(studentId);
+      const [student] = await JuryService.getDecisions(academicYear, studentId);
+      const result = student?.semesters.find(
+        (candidate) => candidate.semester === semester
+      );
+      if (!result) {
+        throw new AppError(
+          404,
+          "Aucune moyenne d'UE pour cet étudiant sur ce semestre",
+          'JURY_RESULTS_NOT_FOUND'
+        );
+      }
+
+      await pool.query(
+        `
+        INSERT INTO jury_decisions (student_id, academic_year, semester, decision, proposed_decision, justification, decided_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        ON CONFLICT (student_id, academic_year, semester) DO UPDATE SET
+          decision = EXCLUDED.decision,
+          proposed_decision = EXCLUDED.proposed_decision,
+          justification = EXCLUDED.justification,
+          decided_by = EXCLUDED.decided_by,
+          decided_at = CURRENT_TIMESTAMP
+      `,
+        [
+          studentId,
+          academicYear,
+          semester,
+          decision,
+          result.proposedDecision,
+          justification.trim(),
+          req.user?.id ?? null,
+        ]
+      );
+
+      const [updated] = await JuryService.getDecisions(academicYear, studentId);
+      res.status(200).json(updated);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'enregistrement de la décision de jury",
+        'JURY_DECISION_SAVE_ERROR'
+      );
+    }
+  },
+
+  /** Annule la décision du jury : la proposition calculée s'applique de nouveau */
+  async removeDecision(req: Request, res: Response): Promise<void> {
+    const studentId = Number(req.params.studentId);
+    const { academicYear, semester } = juryDecisionScopeSchema.parse(req.query);
+    try {
+      const result = await pool.query(
+        `
+        DELETE FROM jury_decisions
+        WHERE student_id = $1 AND academic_year = $2 AND semester = $3
+        RETURNING id
+      `,
+        [studentId, academicYear, semester]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(
+          404,
+          'Aucune décision de jury enregistrée pour ce semestre',
+          'JURY_DECISION_NOT_FOUND'
+        );
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la suppression de la décision de jury',
+        'JURY_DECISION_DELETE_ERROR'
+      );
+    }
+  },
+};
@@ -0,0 +1,52 @@
+import { Response } from 'express';
+import { pool } from '../config/database';
+import { AppError } from '../types/error';
+import { RequestWithUser } from '../middleware/auth';
+import { gradeController } from './gradeController';
+import { statsController } from './statsController';
+
+/**
+ * Espace étudiant en lecture seule : les routes réutilisent les contrôleurs
+ * du personnel en forçant l'identifiant de l'étudiant connecté, de sorte
+ * qu'un étudiant ne puisse jamais consulter les données d'un autre.
+ */
+const asCurrentStudent = (req: RequestWithUser): RequestWithUser => {
+  req.params.studentId = String(req.user!.id);
+  return req;
+};
+
+export const meController = {
+  async getProfile(req: RequestWithUser, res: Response): Promise<void> {
+    try {
+      const result = await pool.query(
+        'SELECT id, first_name as "firstName", last_name as "lastName", email, date_of_birth as "dateOfBirth", student_id as "studentId" FROM students WHERE id = $1',
+        [req.user!.id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND');
+      }
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération du profil',
+        'PROFILE_FETCH_ERROR'
+      );
+    }
+  },
+
+  async getGrades(req: RequestWithUser, res: Response): Promise<void> {
+    await gradeController.getByStudent(asCurrentStudent(req), res);
+  },
+
+  async getStats(req: RequestWithUser, res: Response): Promise<void> {
+    await statsController.getStudentSemesterStats(asCurrentStudent(req), res);
+  },
+
+  async getTranscript(req: RequestWithUser, res: Response): Promise<void> {
+    await gradeController.generateTranscript(asCurrentStudent(req), res);
+  },
+};
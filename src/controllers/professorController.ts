@@ -0,0 +1,217 @@
+import { Request, Response } from 'express';
+import { pool } from '../config/database';
+import {
+  CreateProfessorInput,
+  UpdateProfessorInput,
+  professorListQuery,
+} from '../schemas/professor.schema';
+import { AppError } from '../types/error';
+import { PasswordService } from '../services/passwordService';
+import { TokenService } from '../services/tokenService';
+import { LoginThrottleService } from '../services/loginThrottleService';
+import { ListQueryService } from '../services/listQueryService';
+import { logger } from '../services/loggerService';
+import { RequestWithUser } from '../middleware/auth';
+
+const PROFESSOR_COLUMNS = `
+  id,
+  first_name as "firstName",
+  last_name as "lastName",
+  email,
+  department,
+  role,
+  is_active as "isActive"
+`;
+
+const UPDATABLE_COLUMNS: Record<keyof UpdateProfessorInput, string> = {
+  firstName: 'first_name',
+  lastName: 'last_name',
+  email: 'email',
+  department: 'department',
+  role: 'role',
+  isActive: 'is_active',
+};
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Error && 'code' in error && error.code === '23505';
+
+export const professorController = {
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const page = await ListQueryService.paginate(req, professorListQuery, {
+        select: PROFESSOR_COLUMNS,
+        from: 'professors',
+      });
+      res.status(200).json(page);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des professeurs',
+        'PROFESSORS_FETCH_ERROR'
+      );
+    }
+  },
+
+  async getById(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const result = await pool.query(
+        `SELECT ${PROFESSOR_COLUMNS} FROM professors WHERE id = $1`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'Professeur non trouvé', 'PROFESSOR_NOT_FOUND');
+      }
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération du professeur',
+        'PROFESSOR_FETCH_ERROR'
+      );
+    }
+  },
+
+  async create(req: Request, res: Response): Promise<void> {
+    const {
+      firstName,
+      lastName,
+      email,
+      department,
+      role,
+      password,
+    }: CreateProfessorInput = req.body;
+    try {
+      const passwordHash = await PasswordService.hash(password);
+      const result = await pool.query(
+        `
+        INSERT INTO professors (first_name, last_name, email, department, role, password_hash)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING ${PROFESSOR_COLUMNS}
+      `,
+        [firstName, lastName, email, department, role ?? 'professor', passwordHash]
+      );
+
+      res.status(201).json(result.rows[0]);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new AppError(
+          409,
+          'Un professeur avec cet email existe déjà',
+          'PROFESSOR_ALREADY_EXISTS'
+        );
+      }
+      throw new AppError(
+        500,
+        'Erreur lors de la création du professeur',
+        'PROFESSOR_CREATE_ERROR'
+      );
+    }
+  },
+
+  async update(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const changes: UpdateProfessorInput = req.body;
+    const fields = (
+      Object.keys(UPDATABLE_COLUMNS) as (keyof UpdateProfessorInput)[]
+    ).filter((field) => changes[field] !== undefined);
+
+    try {
+      if (fields.length === 0) {
+        throw new AppError(400, 'Aucune modification fournie', 'EMPTY_UPDATE');
+      }
+
+      const assignments = fields.map(
+        (field, i) => `${UPDATABLE_COLUMNS[field]} = $${i + 1}`
+      );
+      const result = await pool.query(
+        `
+        UPDATE professors
+        SET ${assignments.join(', ')}
+        WHERE id = $${fields.length + 1}
+        RETURNING ${PROFESSOR_COLUMNS}
+      `,
+        [...fields.map((field) => changes[field]), id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'Professeur non trouvé', 'PROFESSOR_NOT_FOUND');
+      }
+
+      // Un changement de rôle ou une désactivation doit s'appliquer immédiatement
+      if (changes.role !== undefined || changes.isActive === false) {
+        await TokenService.revokeAllSessions(result.rows[0].id);
+      }
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      if (isUniqueViolation(error)) {
+        throw new AppError(
+          409,
+          'Un professeur avec cet email existe déjà',
+          'PROFESSOR_ALREADY_EXISTS'
+        );
+      }
+      throw new AppError(
+        500,
+        'Erreur lors de la mise à jour du professeur',
+        'PROFESSOR_UPDATE_ERROR'
+      );
+    }
+  },
+
+  async deactivate(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const result = await pool.query(
+        'UPDATE professors SET is_active = FALSE WHERE id = $1 RETURNING id',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'Professeur non trouvé', 'PROFESSOR_NOT_FOUND');
+      }
+
+      await TokenService.revokeAllSessions(result.rows[0].id);
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la désactivation du professeur',
+        'PROFESSOR_DEACTIVATE_ERROR'
+      );
+    }
+  },
+
+  async unlock(req: RequestWithUser, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const unlocked = await LoginThrottleService.unlock(Number(id));
+
+      if (!unlocked) {
+        throw new AppError(404, 'Professeur non trouvé', 'PROFESSOR_NOT_FOUND');
+      }
+
+      logger.info('Account unlocked by admin', {
+        professorId: Number(id),
+        adminId: req.user?.id,
+      });
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors du déverrouillage du compte',
+        'PROFESSOR_UNLOCK_ERROR'
+      );
+    }
+  },
+};
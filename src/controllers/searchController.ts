@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { pool } from '../config/database';
+import { searchQuerySchema } from '../schemas/search.schema';
+import { studentListQuery } from '../schemas/student.schema';
+import { courseListQuery } from '../schemas/course.schema';
+import { SearchService } from '../services/searchService';
+import { AppError } from '../types/error';
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+export const searchController = {
+  async search(req: Request, res: Response): Promise<void> {
+    const { q, limit = DEFAULT_SEARCH_LIMIT } = searchQuerySchema.parse(
+      req.query
+    );
+
+    try {
+      const studentParams: unknown[] = [];
+      const studentMatch = SearchService.match(
+        studentListQuery.search!,
+        q,
+        studentParams
+      );
+      const students = await pool.query(
+        `
+        SELECT id, first_name as "firstName", last_name as "lastName", email,
+               student_id as "studentId", ${studentMatch.rank} as "score"
+        FROM students
+        WHERE archived_at IS NULL AND ${studentMatch.condition}
+        ORDER BY "score" DESC, last_name, first_name
+        LIMIT $${studentParams.length + 1}
+      `,
+        [...studentParams, limit]
+      );
+
+      const courseParams: unknown[] = [];
+      const courseMatch = SearchService.match(
+        courseListQuery.search!,
+        q,
+        courseParams
+      );
+      const courses = await pool.query(
+        `
+        SELECT id, code, name, credits, ${courseMatch.rank} as "score"
+        FROM courses
+        WHERE ${courseMatch.condition}
+        ORDER BY "score" DESC, code
+        LIMIT $${courseParams.length + 1}
+      `,
+        [...courseParams, limit]
+      );
+
+      res.status(200).json({
+        q,
+        students: students.rows,
+        courses: courses.rows,
+      });
+    } catch (error) {
+      throw new AppError(500, 'Erreur lors de la recherche', 'SEARCH_ERROR');
+    }
+  },
+};
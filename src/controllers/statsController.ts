@@ -1,12 +1,56 @@
 import { Request, Response } from 'express';
 import { pool } from '../config/database';
 import { AppError } from '../types/error';
+import { ExportColumn, ExportService } from '../services/exportService';
+import { CurriculumService } from '../services/curriculumService';
+import { GradeService } from '../services/gradeService';
+import { RequestWithUser } from '../middleware/auth';
+
+const COURSE_STATS_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'courseCode', header: 'Code du cours' },
+  { key: 'courseName', header: 'Cours' },
+  { key: 'averageGrade', header: 'Moyenne', type: 'number' },
+  { key: 'minGrade', header: 'Note minimale', type: 'number' },
+  { key: 'maxGrade', header: 'Note maximale', type: 'number' },
+  { key: 'totalStudents', header: "Nombre d'étudiants", type: 'number' },
+  { key: 'successRate', header: 'Taux de réussite (%)', type: 'number' },
+];
+
+const SEMESTER_STATS_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'semester', header: 'Semestre' },
+  { key: 'averageGrade', header: 'Moyenne', type: 'number' },
+  { key: 'totalCredits', header: 'Crédits', type: 'number' },
+  { key: 'validatedCredits', header: 'Crédits validés', type: 'number' },
+  { key: 'coursesCount', header: 'Nombre de cours', type: 'number' },
+];
+
+const UNIT_AVERAGES_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'semester', header: 'Semestre' },
+  { key: 'code', header: 'Code UE' },
+  { key: 'name', header: 'UE' },
+  { key: 'competenceCode', header: 'Compétence' },
+  { key: 'average', header: 'Moyenne', type: 'number' },
+  { key: 'credits', header: 'Crédits ECTS', type: 'number' },
+  { key: 'validatedLabel', header: 'Décision' },
+];
+
+const GLOBAL_STATS_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'globalAverage', header: 'Moyenne générale', type: 'number' },
+  { key: 'totalStudents', header: "Nombre d'étudiants", type: 'number' },
+  { key: 'totalCourses', header: 'Nombre de cours', type: 'number' },
+  {
+    key: 'averageSuccessRate',
+    header: 'Taux de réussite moyen (%)',
+    type: 'number',
+  },
+];
 
 export const statsController = {
   async getCourseStats(req: Request, res: Response): Promise<void> {
     const { courseId } = req.params;
     const { academicYear } = req.query as { academicYear: string };
 
+    const exportOptions = ExportService.getOptions(req);
     try {
       const result = await pool.query(
         `
@@ -17,15 +61,25 @@ export const statsController = {
           COALESCE(MIN(g.grade), 0) as "minGrade",
           COALESCE(MAX(g.grade), 0) as "maxGrade",
           COUNT(g.id) as "totalStudents",
-          COALESCE(COUNT(CASE WHEN g.grade >= 10 THEN 1 END)::float / NULLIF(COUNT(*), 0)::float * 100, 0) as "successRate"
+          COALESCE(COUNT(CASE WHEN g.grade >= 10 THEN 1 END)::float / NULLIF(COUNT(g.grade), 0)::float * 100, 0) as "successRate",
+          COUNT(g.special_code) as "specialCodesCount"
         FROM courses c
-        LEFT JOIN grades g ON g.course_id = c.id AND g.academic_year = $2
+        LEFT JOIN retained_grades g ON g.course_id = c.id AND g.academic_year = $2
         WHERE c.id = $1
         GROUP BY c.id, c.code, c.name
       `,
         [courseId, academicYear]
       );
 
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: `statistiques-cours-${courseId}-${academicYear}`,
+          columns: COURSE_STATS_EXPORT_COLUMNS,
+          rows: result.rows,
+        });
+        return;
+      }
+
       res.status(200).json(result.rows[0]);
     } catch (error) {
       throw new AppError(
@@ -36,29 +90,65 @@ export const statsController = {
     }
   },
 
-  async getStudentSemesterStats(req: Request, res: Response): Promise<void> {
+  async getStudentSemesterStats(
+    req: RequestWithUser,
+    res: Response
+  ): Promise<void> {
     const { studentId } = req.params;
     const { academicYear } = req.query as { academicYear: string };
+    const publishedOnly = GradeService.publishedOnly(req.user);
 
+    const exportOptions = ExportService.getOptions(req);
     try {
       const result = await pool.query(
         `
         SELECT 
           g.semester,
-          SUM(g.grade * c.credits) / SUM(c.credits) as "averageGrade",
+          SUM(g.grade * c.credits) / NULLIF(SUM(c.credits) FILTER (WHERE g.grade IS NOT NULL), 0) as "averageGrade",
           SUM(c.credits) as "totalCredits",
           SUM(CASE WHEN g.grade >= 10 THEN c.credits ELSE 0 END) as "validatedCredits",
-          COUNT(DISTINCT c.id) as "coursesCount"
-        FROM grades g
+          COUNT(DISTINCT c.id) as "coursesCount",
+          BOOL_OR(g.blocks_validation) as "pending"
+        FROM retained_grades g
         JOIN courses c ON c.id = g.course_id
         WHERE g.student_id = $1 AND g.academic_year = $2
+          AND (NOT $3 OR g.published)
         GROUP BY g.semester
         ORDER BY g.semester
       `,
-        [studentId, academicYear]
+        [studentId, academicYear, publishedOnly]
       );
 
-      res.status(200).json(result.rows);
+      // Les semestres organisés en UE sont évalués UE par UE : la moyenne et
+      // les crédits validés en découlent plutôt que des crédits des cours
+      const units = await CurriculumService.getUnitAverages(
+        Number(studentId),
+        academicYear,
+        publishedOnly
+      );
+      const semesters = result.rows.map((row) => {
+        const semesterUnits = units.filter(
+          (unit) => unit.semester === row.semester
+        );
+        return semesterUnits.length > 0
+          ? {
+              ...row,
+              ...CurriculumService.summarize(semesterUnits),
+              units: semesterUnits,
+            }
+          : { ...row, units: [] };
+      });
+
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: `statistiques-etudiant-${studentId}-${academicYear}`,
+          columns: SEMESTER_STATS_EXPORT_COLUMNS,
+          rows: semesters,
+        });
+        return;
+      }
+
+      res.status(200).json(semesters);
     } catch (error) {
       throw new AppError(
         500,
@@ -68,9 +158,47 @@ export const statsController = {
     }
   },
 
+  async getStudentUnitAverages(req: Request, res: Response): Promise<void> {
+    const { studentId } = req.params;
+    const { academicYear } = req.query as { academicYear: string };
+
+    const exportOptions = ExportService.getOptions(req);
+    try {
+      const units = await CurriculumService.getUnitAverages(
+        Number(studentId),
+        academicYear
+      );
+
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: `moyennes-ue-etudiant-${studentId}-${academicYear}`,
+          columns: UNIT_AVERAGES_EXPORT_COLUMNS,
+          rows: units.map((unit) => ({
+            ...unit,
+            validatedLabel: unit.pending
+              ? 'En attente'
+              : unit.validated
+                ? 'Validée'
+                : 'Non validée',
+          })),
+        });
+        return;
+      }
+
+      res.status(200).json(units);
+    } catch (error) {
+      throw new AppError(
+        500,
+        "Erreur lors du calcul des moyennes d'UE de l'étudiant",
+        'STATS_ERROR'
+      );
+    }
+  },
+
   async getGlobalStats(req: Request, res: Response): Promise<void> {
     const { academicYear } = req.query as { academicYear: string };
 
+    const exportOptions = ExportService.getOptions(req);
     try {
       const result = await pool.query(
         `
@@ -79,14 +207,14 @@ export const statsController = {
             g.grade,
             c.credits,
             g.student_id,
-            COUNT(CASE WHEN g.grade >= 10 THEN 1 END)::float / COUNT(*)::float * 100 as success_rate
+            COUNT(CASE WHEN g.grade >= 10 THEN 1 END)::float / NULLIF(COUNT(g.grade), 0)::float * 100 as success_rate
           FROM courses c
-          JOIN grades g ON g.course_id = c.id
+          JOIN retained_grades g ON g.course_id = c.id
           WHERE g.academic_year = $1
           GROUP BY g.grade, c.credits, g.student_id
         )
         SELECT 
-          SUM(grade * credits) / SUM(credits) as "globalAverage",
+          SUM(grade * credits) / NULLIF(SUM(credits) FILTER (WHERE grade IS NOT NULL), 0) as "globalAverage",
           COUNT(DISTINCT student_id) as "totalStudents",
           COUNT(DISTINCT student_id) as "totalCourses",
           AVG(success_rate) as "averageSuccessRate"
@@ -95,6 +223,15 @@ export const statsController = {
         [academicYear]
       );
 
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: `statistiques-globales-${academicYear}`,
+          columns: GLOBAL_STATS_EXPORT_COLUMNS,
+          rows: result.rows,
+        });
+        return;
+      }
+
       res.status(200).json(result.rows[0]);
     } catch (error) {
       throw new AppError(
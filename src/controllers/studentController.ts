@@ -1,18 +1,115 @@
 import { Request, Response } from 'express';
+import crypto from 'crypto';
 import { pool } from '../config/database';
-import { CreateStudentInput } from '../schemas/student.schema';
+import {
+  CreateStudentInput,
+  UpdateStudentInput,
+  studentListQuery,
+} from '../schemas/student.schema';
+import { AppError } from '../types/error';
+import { TokenService } from '../services/tokenService';
+import { ListQueryService } from '../services/listQueryService';
+import { CsvService } from '../services/csvService';
+import {
+  STUDENT_CSV_COLUMNS,
+  StudentImportService,
+} from '../services/studentImportService';
+import { csvImportQuerySchema } from '../schemas/csvImport.schema';
+import { MailService } from '../services/mailService';
+import { ExportColumn, ExportService } from '../services/exportService';
+import { GradeAuditService } from '../services/gradeAuditService';
+import { RequestWithUser } from '../middleware/auth';
+
+const STUDENT_ACTIVATION_TTL_HOURS =
+  Number(process.env.STUDENT_ACTIVATION_TTL_HOURS) || 72;
+
+const STUDENT_COLUMNS = `
+  id,
+  first_name as "firstName",
+  last_name as "lastName",
+  email,
+  date_of_birth as "dateOfBirth",
+  student_id as "studentId",
+  archived_at as "archivedAt"
+`;
+
+const STUDENT_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'studentId', header: 'Numéro étudiant' },
+  { key: 'lastName', header: 'Nom' },
+  { key: 'firstName', header: 'Prénom' },
+  { key: 'email', header: 'Email' },
+  { key: 'dateOfBirth', header: 'Date de naissance', type: 'date' },
+  { key: 'archivedAt', header: 'Archivé le', type: 'date' },
+];
+
+const UPDATABLE_COLUMNS: Record<keyof UpdateStudentInput, string> = {
+  firstName: 'first_name',
+  lastName: 'last_name',
+  email: 'email',
+  dateOfBirth: 'date_of_birth',
+  studentId: 'student_id',
+};
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Error && 'code' in error && error.code === '23505';
+
+const duplicateStudentError = (): AppError =>
+  new AppError(
+    409,
+    'Un étudiant avec cet email ou ce numéro étudiant existe déjà',
+    'STUDENT_ALREADY_EXISTS'
+  );
+
+const setArchived = async (id: string, archived: boolean): Promise<unknown> => {
+  const result = await pool.query(
+    `
+    UPDATE students
+    SET archived_at = ${archived ? 'COALESCE(archived_at, NOW())' : 'NULL'}
+    WHERE id = $1
+    RETURNING ${STUDENT_COLUMNS}
+  `,
+    [id]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND');
+  }
+
+  return result.rows[0];
+};
 
 export const studentController = {
   async getAll(req: Request, res: Response): Promise<void> {
+    const includeArchived = req.query.includeArchived === 'true';
+    const source = {
+      select: STUDENT_COLUMNS,
+      from: 'students',
+      conditions: includeArchived ? [] : ['archived_at IS NULL'],
+    };
+    const exportOptions = ExportService.getOptions(req);
     try {
-      const result = await pool.query(
-        'SELECT id, first_name as "firstName", last_name as "lastName", email, date_of_birth as "dateOfBirth", student_id as "studentId" FROM students'
+      if (exportOptions) {
+        await ExportService.send(res, exportOptions, {
+          filename: 'etudiants',
+          columns: STUDENT_EXPORT_COLUMNS,
+          rows: ListQueryService.stream(req, studentListQuery, source),
+        });
+        return;
+      }
+
+      const page = await ListQueryService.paginate(
+        req,
+        studentListQuery,
+        source
       );
-      res.status(200).json(result.rows);
+      res.status(200).json(page);
     } catch (error) {
-      res
-        .status(500)
-        .json({ error: 'Erreur lors de la récupération des étudiants' });
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        'Erreur lors de la récupération des étudiants',
+        'STUDENTS_FETCH_ERROR'
+      );
     }
   },
 
@@ -20,18 +117,22 @@ export const studentController = {
     const { id } = req.params;
     try {
       const result = await pool.query(
-        'SELECT id, first_name as "firstName", last_name as "lastName", email, date_of_birth as "dateOfBirth", student_id as "studentId" FROM students WHERE id = $1',
+        `SELECT ${STUDENT_COLUMNS} FROM students WHERE id = $1`,
         [id]
       );
+
       if (result.rows.length === 0) {
-        res.status(404).json({ error: 'Étudiant non trouvé' });
-        return;
+        throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND');
       }
+
       res.status(200).json(result.rows[0]);
     } catch (error) {
-      res
-        .status(500)
-        .json({ error: "Erreur lors de la récupération de l'étudiant" });
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la récupération de l'étudiant",
+        'STUDENT_FETCH_ERROR'
+      );
     }
   },
 
@@ -48,22 +149,241 @@ export const studentController = {
         `
         INSERT INTO students (first_name, last_name, email, date_of_birth, student_id)
         VALUES ($1, $2, $3, $4, $5)
-        RETURNING 
-          id,
-          first_name as "firstName",
-          last_name as "lastName",
-          email,
-          date_of_birth as "dateOfBirth",
-          student_id as "studentId"
+        RETURNING ${STUDENT_COLUMNS}
       `,
         [firstName, lastName, email, dateOfBirth, studentId]
       );
 
       res.status(201).json(result.rows[0]);
     } catch (error) {
-      res
-        .status(500)
-        .json({ error: "Erreur lors de la création de l'étudiant" });
+      if (isUniqueViolation(error)) throw duplicateStudentError();
+      throw new AppError(
+        500,
+        "Erreur lors de la création de l'étudiant",
+        'STUDENT_CREATE_ERROR'
+      );
+    }
+  },
+
+  async importCsv(req: Request, res: Response): Promise<void> {
+    const { delimiter, encoding, dryRun } = csvImportQuerySchema.parse(
+      req.query
+    );
+    const rows = CsvService.parse(req.body, {
+      delimiter,
+      encoding,
+      columns: STUDENT_CSV_COLUMNS,
+    });
+
+    try {
+      const report = await StudentImportService.import(rows, dryRun);
+      res.status(200).json(report);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'import des étudiants",
+        'STUDENT_IMPORT_ERROR'
+      );
+    }
+  },
+
+  /**
+   * Utilisé pour PUT (remplacement complet, validé par createStudentSchema)
+   * comme pour PATCH (champs partiels).
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const changes: UpdateStudentInput = req.body;
+    const fields = (
+      Object.keys(UPDATABLE_COLUMNS) as (keyof UpdateStudentInput)[]
+    ).filter((field) => changes[field] !== undefined);
+
+    try {
+      if (fields.length === 0) {
+        throw new AppError(400, 'Aucune modification fournie', 'EMPTY_UPDATE');
+      }
+
+      const assignments = fields.map(
+        (field, i) => `${UPDATABLE_COLUMNS[field]} = $${i + 1}`
+      );
+      const result = await pool.query(
+        `
+        UPDATE students
+        SET ${assignments.join(', ')}
+        WHERE id = $${fields.length + 1}
+        RETURNING ${STUDENT_COLUMNS}
+      `,
+        [...fields.map((field) => changes[field]), id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND');
+      }
+
+      res.status(200).json(result.rows[0]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      if (isUniqueViolation(error)) throw duplicateStudentError();
+      throw new AppError(
+        500,
+        "Erreur lors de la mise à jour de l'étudiant",
+        'STUDENT_UPDATE_ERROR'
+      );
+    }
+  },
+
+  async archive(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const student = await setArchived(id, true);
+
+      // Un étudiant archivé ne peut plus accéder à son espace
+      await TokenService.revokeAllStudentSessions(Number(id));
+
+      res.status(200).json(student);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'archivage de l'étudiant",
+        'STUDENT_ARCHIVE_ERROR'
+      );
+    }
+  },
+
+  async unarchive(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      res.status(200).json(await setArchived(id, false));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la restauration de l'étudiant",
+        'STUDENT_UNARCHIVE_ERROR'
+      );
+    }
+  },
+
+  /**
+   * Refuse la suppression d'un étudiant ayant des notes, sauf si
+   * `?cascade=true` est explicitement demandé. Le nombre de notes
+   * concernées est renvoyé dans les détails de l'erreur.
+   */
+  async delete(req: RequestWithUser, res: Response): Promise<void> {
+    const { id } = req.params;
+    const cascade = req.query.cascade === 'true';
+    try {
+      const dependencies = await pool.query(
+        `
+        SELECT s.id, COUNT(g.id)::int as "gradesCount"
+        FROM students s
+        LEFT JOIN grades g ON g.student_id = s.id
+        WHERE s.id = $1
+        GROUP BY s.id
+      `,
+        [id]
+      );
+
+      if (dependencies.rows.length === 0) {
+        throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND');
+      }
+
+      const { gradesCount } = dependencies.rows[0];
+      if (gradesCount > 0 && !cascade) {
+        throw new AppError(
+          409,
+          "Impossible de supprimer un étudiant ayant des notes, archivez-le ou confirmez la suppression avec cascade=true",
+          'STUDENT_HAS_GRADES',
+          { gradesCount }
+        );
+      }
+
+      // Une seule requête : les notes et l'étudiant sont supprimés ensemble ou pas du tout
+      await GradeAuditService.withContext(
+        GradeAuditService.contextFrom(req, "Suppression de l'étudiant"),
+        (client) =>
+          client.query(
+            `
+            WITH deleted_grades AS (
+              DELETE FROM grades WHERE student_id = $1
+            )
+            DELETE FROM students WHERE id = $1
+          `,
+            [id]
+          )
+      );
+
+      res.status(204).json();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de la suppression de l'étudiant",
+        'STUDENT_DELETE_ERROR'
+      );
+    }
+  },
+
+  async inviteAccount(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    try {
+      const result = await pool.query(
+        `
+        SELECT s.id, s.email, s.first_name as "firstName", a.activated_at as "activatedAt"
+        FROM students s
+        LEFT JOIN student_accounts a ON a.student_id = s.id
+        WHERE s.id = $1
+      `,
+        [id]
+      );
+      const student = result.rows[0];
+
+      if (!student) {
+        throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND');
+      }
+      if (student.activatedAt) {
+        throw new AppError(
+          409,
+          'Le compte de cet étudiant est déjà activé',
+          'STUDENT_ACCOUNT_ALREADY_ACTIVE'
+        );
+      }
+
+      // Une nouvelle invitation invalide la précédente
+      const activationToken = crypto.randomBytes(32).toString('base64url');
+      await pool.query(
+        `
+        INSERT INTO student_accounts (student_id, activation_token_hash, activation_expires_at)
+        VALUES ($1, $2, NOW() + make_interval(hours => $3))
+        ON CONFLICT (student_id) DO UPDATE
+        SET activation_token_hash = EXCLUDED.activation_token_hash,
+            activation_expires_at = EXCLUDED.activation_expires_at
+      `,
+        [
+          student.id,
+          TokenService.hashToken(activationToken),
+          STUDENT_ACTIVATION_TTL_HOURS,
+        ]
+      );
+
+      const activationUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/activate?token=${activationToken}`;
+
+      await MailService.send({
+        to: student.email,
+        subject: 'Activation de votre espace étudiant',
+        text: `Bonjour ${student.firstName},\n\nVotre espace de consultation des notes est prêt. Pour choisir votre mot de passe, suivez ce lien (valable ${STUDENT_ACTIVATION_TTL_HOURS} heures) :\n${activationUrl}`,
+      });
+
+      res.status(202).json({ message: 'Invitation envoyée' });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(
+        500,
+        "Erreur lors de l'envoi de l'invitation",
+        'STUDENT_INVITE_ERROR'
+      );
     }
   },
 };
@@ -1,16 +1,60 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { JWTPayload } from '../types/auth';
+import { ApiKeyPrincipal, JWTPayload, Role } from '../types/auth';
+import { AppError } from '../types/error';
+import { TokenService } from '../services/tokenService';
+import { ApiKeyService } from '../services/apiKeyService';
 
 export interface RequestWithUser extends Request {
   user?: JWTPayload;
+  apiKey?: ApiKeyPrincipal;
 }
 
-export const authMiddleware = (
+const apiKeyAuth = async (
+  key: string,
   req: RequestWithUser,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
+  try {
+    const apiKey = await ApiKeyService.authenticate(key);
+
+    if (!apiKey) {
+      res.status(401).json({ error: 'Clé API invalide' });
+      return;
+    }
+
+    if (!ApiKeyService.isAllowed(apiKey.scopes, req.baseUrl, req.method)) {
+      next(
+        new AppError(
+          403,
+          "Cette clé API n'autorise pas l'accès à cette ressource",
+          'INSUFFICIENT_SCOPE'
+        )
+      );
+      return;
+    }
+
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const authMiddleware = async (
+  req: RequestWithUser,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const apiKey = req.get('x-api-key');
+  if (apiKey) {
+    await apiKeyAuth(apiKey, req, res, next);
+    return;
+  }
+
+  let decoded: JWTPayload;
+
   try {
     const token = req.headers.authorization?.split(' ')[1];
 
@@ -19,10 +63,50 @@ export const authMiddleware = (
       return;
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
   } catch (error) {
     res.status(401).json({ error: 'Token invalide' });
+    return;
+  }
+
+  try {
+    if (!decoded.sid || !(await TokenService.isSessionActive(decoded.sid))) {
+      res.status(401).json({ error: 'Session expirée ou révoquée' });
+      return;
+    }
+  } catch (error) {
+    next(error);
+    return;
   }
+
+  req.user = decoded;
+  next();
 };
+
+export const authorize =
+  (...roles: Role[]) =>
+  (req: RequestWithUser, res: Response, next: NextFunction): void => {
+    // Les clés API sont limitées par leurs scopes, vérifiés par authMiddleware
+    if (req.apiKey) {
+      next();
+      return;
+    }
+
+    if (!req.user) {
+      next(new AppError(401, 'Non authentifié', 'UNAUTHENTICATED'));
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      next(
+        new AppError(
+          403,
+          "Vous n'avez pas les droits nécessaires pour cette action",
+          'FORBIDDEN'
+        )
+      );
+      return;
+    }
+
+    next();
+  };
@@ -0,0 +1,30 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { AppError } from '../types/error';
+
+const CSV_MAX_SIZE = process.env.CSV_IMPORT_MAX_SIZE || '5mb';
+
+/**
+ * Conserve le fichier CSV brut (Buffer) : le décodage dépend de l'encodage
+ * choisi par l'utilisateur (UTF-8 ou Latin-1 pour les exports Excel).
+ */
+const parseCsv = express.raw({
+  type: ['text/csv', 'text/plain', 'application/vnd.ms-excel'],
+  limit: CSV_MAX_SIZE,
+});
+
+/** Un fichier trop volumineux est refusé avec un 413 plutôt qu'une erreur interne */
+export const csvBody = (req: Request, res: Response, next: NextFunction): void =>
+  parseCsv(req, res, (error?: unknown) => {
+    if ((error as { type?: string } | undefined)?.type === 'entity.too.large') {
+      next(
+        new AppError(
+          413,
+          `Le fichier CSV dépasse la taille maximale autorisée (${CSV_MAX_SIZE})`,
+          'CSV_TOO_LARGE',
+          { maxSize: CSV_MAX_SIZE }
+        )
+      );
+      return;
+    }
+    next(error);
+  });
@@ -23,6 +23,7 @@ export const errorHandler = (
       error: {
         message: err.message,
         code: err.code,
+        ...(err.details !== undefined && { details: err.details }),
       },
     });
     return;
@@ -0,0 +1,135 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *           description: Nom de l'intégration
+ *         prefix:
+ *           type: string
+ *           description: Préfixe permettant d'identifier la clé
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             example: stats:read
+ *           description: >
+ *             Groupes de routes autorisés (students, courses, grades, stats)
+ *             suffixés par :read ou :write (write inclut read)
+ *         createdBy:
+ *           type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *
+ *     CreateApiKeyInput:
+ *       type: object
+ *       required:
+ *         - name
+ *         - scopes
+ *       properties:
+ *         name:
+ *           type: string
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api-keys:
+ *   get:
+ *     summary: Récupère la liste des clés API
+ *     tags: [ApiKeys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Liste des clés (sans la valeur secrète)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ *
+ *   post:
+ *     summary: Crée une clé API
+ *     description: La valeur de la clé (champ key) n'est renvoyée qu'une seule fois.
+ *     tags: [ApiKeys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateApiKeyInput'
+ *     responses:
+ *       201:
+ *         description: Clé créée
+ *       400:
+ *         description: Données invalides
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ *
+ * /api-keys/{id}:
+ *   delete:
+ *     summary: Révoque une clé API
+ *     tags: [ApiKeys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Clé révoquée
+ *       404:
+ *         description: Clé non trouvée
+ */
+
+import { Router } from 'express';
+import { apiKeyController } from '../controllers/apiKeyController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import { createApiKeySchema } from '../schemas/apiKey.schema';
+
+const router = Router();
+
+router.get('/', authorize('admin'), apiKeyController.getAll);
+router.post(
+  '/',
+  authorize('admin'),
+  validate(createApiKeySchema),
+  apiKeyController.create
+);
+router.delete('/:id', authorize('admin'), apiKeyController.revoke);
+
+export const apiKeyRoutes = router;
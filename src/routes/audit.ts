@@ -0,0 +1,112 @@
+/**
+ * @swagger
+ * /audit/grades:
+ *   get:
+ *     summary: Journal des modifications de notes
+ *     description: >
+ *       Flux de toutes les créations, mises à jour et suppressions de notes,
+ *       des plus récentes aux plus anciennes par défaut. Réservé aux
+ *       administrateurs ; inaccessible avec une clé API.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Page'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, -createdAt]
+ *           default: -createdAt
+ *         description: Champ de tri, préfixé par - pour un ordre décroissant
+ *       - in: query
+ *         name: gradeId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: studentId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: courseId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: professorId
+ *         schema:
+ *           type: integer
+ *         description: Auteur de la modification
+ *       - in: query
+ *         name: apiKeyId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete]
+ *       - in: query
+ *         name: academicYear
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *       - in: query
+ *         name: ip
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           example: 2025-01-15
+ *         description: Date ou horodatage ISO 8601 de début (inclus)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           example: 2025-01-31T23:59:59Z
+ *         description: Date ou horodatage ISO 8601 de fin (inclus)
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
+ *     responses:
+ *       200:
+ *         description: Modifications de notes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/GradeAuditEntry'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ */
+
+import { Router } from 'express';
+import { auditController } from '../controllers/auditController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import { gradeAuditListQuery } from '../schemas/gradeAudit.schema';
+
+const router = Router();
+
+router.get(
+  '/grades',
+  authorize('admin'),
+  validate(gradeAuditListQuery.schema),
+  auditController.getGradeChanges
+);
+
+export const auditRoutes = router;
@@ -19,10 +19,24 @@
  *
  *     LoginResponse:
  *       type: object
+ *       description: >
+ *         Si la double authentification est activée (ou imposée par le
+ *         département), seuls twoFactorRequired (ou twoFactorSetupRequired)
+ *         et challengeToken sont renvoyés.
  *       properties:
+ *         twoFactorRequired:
+ *           type: boolean
+ *         twoFactorSetupRequired:
+ *           type: boolean
+ *         challengeToken:
+ *           type: string
+ *           description: Token intermédiaire valable 5 minutes
  *         token:
  *           type: string
- *           description: JWT token
+ *           description: JWT d'accès (courte durée)
+ *         refreshToken:
+ *           type: string
+ *           description: Refresh token à usage unique
  *         professor:
  *           type: object
  *           properties:
@@ -34,6 +48,102 @@
  *               type: string
  *             department:
  *               type: string
+ *             role:
+ *               type: string
+ *               enum: [admin, department_head, professor]
+ *
+ *     RefreshTokenInput:
+ *       type: object
+ *       required:
+ *         - refreshToken
+ *       properties:
+ *         refreshToken:
+ *           type: string
+ *
+ *     TokenPair:
+ *       type: object
+ *       properties:
+ *         token:
+ *           type: string
+ *           description: Nouveau JWT d'accès
+ *         refreshToken:
+ *           type: string
+ *           description: Nouveau refresh token (l'ancien est invalidé)
+ *
+ *     ChangePasswordInput:
+ *       type: object
+ *       required:
+ *         - currentPassword
+ *         - newPassword
+ *       properties:
+ *         currentPassword:
+ *           type: string
+ *           format: password
+ *         newPassword:
+ *           type: string
+ *           format: password
+ *           minLength: 8
+ *
+ *     TwoFactorLoginInput:
+ *       type: object
+ *       required:
+ *         - challengeToken
+ *       properties:
+ *         challengeToken:
+ *           type: string
+ *         code:
+ *           type: string
+ *           pattern: ^\d{6}$
+ *           description: Code TOTP
+ *         recoveryCode:
+ *           type: string
+ *           description: Code de récupération à usage unique
+ *
+ *     TwoFactorSetup:
+ *       type: object
+ *       properties:
+ *         secret:
+ *           type: string
+ *           description: Secret TOTP encodé en base32
+ *         otpauthUri:
+ *           type: string
+ *           description: URI otpauth:// à encoder en QR code
+ *
+ *     ForgotPasswordInput:
+ *       type: object
+ *       required:
+ *         - email
+ *       properties:
+ *         email:
+ *           type: string
+ *           format: email
+ *
+ *     ResetPasswordInput:
+ *       type: object
+ *       required:
+ *         - token
+ *         - newPassword
+ *       properties:
+ *         token:
+ *           type: string
+ *           description: Token reçu par email
+ *         newPassword:
+ *           type: string
+ *           format: password
+ *           minLength: 8
+ *     ActivateStudentAccountInput:
+ *       type: object
+ *       required:
+ *         - token
+ *         - password
+ *       properties:
+ *         token:
+ *           type: string
+ *           description: Token reçu dans l'email d'invitation
+ *         password:
+ *           type: string
+ *           format: password
+ *           minLength: 8
  */
 
 /**
@@ -57,17 +167,398 @@
  *               $ref: '#/components/schemas/LoginResponse'
  *       401:
  *         description: Authentification échouée
+ *       403:
+ *         description: Compte désactivé
+ *       423:
+ *         description: Compte temporairement verrouillé (ACCOUNT_LOCKED)
+ *       429:
+ *         description: Trop de tentatives (LOGIN_THROTTLED, TOO_MANY_LOGIN_ATTEMPTS)
  *       500:
  *         description: Erreur serveur
+ *
+ * /auth/login/2fa:
+ *   post:
+ *     summary: Seconde étape de connexion (code TOTP ou code de récupération)
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorLoginInput'
+ *     responses:
+ *       200:
+ *         description: Authentification réussie
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginResponse'
+ *       401:
+ *         description: Challenge ou code invalide
+ *
+ * /auth/login/2fa/setup:
+ *   post:
+ *     summary: Démarre l'enrôlement imposé par le département
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret et URI de provisionnement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorSetup'
+ *
+ * /auth/login/2fa/enable:
+ *   post:
+ *     summary: Termine l'enrôlement imposé et ouvre la session
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken, code]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Session ouverte, codes de récupération inclus (recoveryCodes)
+ *       400:
+ *         description: Code invalide
+ *
+ * /auth/2fa/setup:
+ *   post:
+ *     summary: Génère un secret TOTP pour l'utilisateur connecté
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret et URI de provisionnement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorSetup'
+ *       409:
+ *         description: Double authentification déjà activée
+ *
+ * /auth/2fa/enable:
+ *   post:
+ *     summary: Active la double authentification après vérification d'un code
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Codes de récupération (affichés une seule fois)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Code invalide
+ *
+ * /auth/2fa/disable:
+ *   post:
+ *     summary: Désactive la double authentification
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password]
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       204:
+ *         description: Double authentification désactivée
+ *       401:
+ *         description: Mot de passe incorrect
+ *       403:
+ *         description: Double authentification obligatoire pour le département
+ *
+ * /auth/refresh:
+ *   post:
+ *     summary: Renouvelle le JWT d'accès à partir d'un refresh token
+ *     description: >
+ *       Chaque refresh token n'est utilisable qu'une fois. La réutilisation
+ *       d'un token déjà consommé révoque toute la session.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenInput'
+ *     responses:
+ *       200:
+ *         description: Nouvelle paire de tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TokenPair'
+ *       401:
+ *         description: Refresh token invalide, expiré ou réutilisé
+ *
+ * /auth/logout:
+ *   post:
+ *     summary: Révoque la session courante
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Session révoquée
+ *       401:
+ *         description: Non authentifié
+ *
+ * /auth/logout-all:
+ *   post:
+ *     summary: Révoque toutes les sessions de l'utilisateur
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       204:
+ *         description: Sessions révoquées
+ *       401:
+ *         description: Non authentifié
+ *
+ * /auth/me:
+ *   get:
+ *     summary: Récupère le profil de l'utilisateur connecté
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profil du professeur
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Professor'
+ *       401:
+ *         description: Non authentifié
+ *
+ * /auth/change-password:
+ *   post:
+ *     summary: Change le mot de passe de l'utilisateur connecté
+ *     description: Les autres sessions de l'utilisateur sont révoquées.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChangePasswordInput'
+ *     responses:
+ *       204:
+ *         description: Mot de passe modifié
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Mot de passe actuel incorrect
+ *
+ * /auth/forgot-password:
+ *   post:
+ *     summary: Demande un lien de réinitialisation du mot de passe
+ *     description: >
+ *       La réponse est identique que l'email corresponde ou non à un compte.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ForgotPasswordInput'
+ *     responses:
+ *       202:
+ *         description: Demande prise en compte
+ *
+ * /auth/reset-password:
+ *   post:
+ *     summary: Réinitialise le mot de passe à partir du token reçu par email
+ *     description: Le token est à usage unique. Toutes les sessions sont révoquées.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ResetPasswordInput'
+ *     responses:
+ *       204:
+ *         description: Mot de passe réinitialisé
+ *       400:
+ *         description: Token invalide ou expiré
+ *
+ * /auth/student/login:
+ *   post:
+ *     summary: Authentification d'un étudiant
+ *     description: >
+ *       Le compte doit avoir été activé à partir de l'invitation envoyée par
+ *       l'administration. Le token obtenu ne donne accès qu'aux routes /me.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LoginInput'
+ *     responses:
+ *       200:
+ *         description: Authentification réussie
+ *       401:
+ *         description: Email ou mot de passe incorrect
+ *       429:
+ *         description: Trop de tentatives depuis cette adresse
+ *
+ * /auth/student/activate:
+ *   post:
+ *     summary: Active un compte étudiant et définit son mot de passe
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ActivateStudentAccountInput'
+ *     responses:
+ *       204:
+ *         description: Compte activé
+ *       400:
+ *         description: Lien d'activation invalide ou expiré
  */
 
 import { Router } from 'express';
 import { authController } from '../controllers/authController';
 import { validate } from '../middleware/validate';
-import { loginSchema } from '../schemas/auth.schema';
+import { authMiddleware, authorize } from '../middleware/auth';
+import {
+  activateStudentAccountSchema,
+  challengeSchema,
+  changePasswordSchema,
+  disableTwoFactorSchema,
+  enableTwoFactorWithChallengeSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  refreshTokenSchema,
+  resetPasswordSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+} from '../schemas/auth.schema';
+import { STAFF_ROLES } from '../types/auth';
 
 const router = Router();
 
 router.post('/login', validate(loginSchema), authController.login);
+router.post(
+  '/login/2fa',
+  validate(twoFactorLoginSchema),
+  authController.loginTwoFactor
+);
+router.post(
+  '/login/2fa/setup',
+  validate(challengeSchema),
+  authController.setupTwoFactorWithChallenge
+);
+router.post(
+  '/login/2fa/enable',
+  validate(enableTwoFactorWithChallengeSchema),
+  authController.enableTwoFactorWithChallenge
+);
+router.post(
+  '/2fa/setup',
+  authMiddleware,
+  authorize(...STAFF_ROLES),
+  authController.setupTwoFactor
+);
+router.post(
+  '/2fa/enable',
+  authMiddleware,
+  authorize(...STAFF_ROLES),
+  validate(twoFactorCodeSchema),
+  authController.enableTwoFactor
+);
+router.post(
+  '/2fa/disable',
+  authMiddleware,
+  authorize(...STAFF_ROLES),
+  validate(disableTwoFactorSchema),
+  authController.disableTwoFactor
+);
+router.post('/refresh', validate(refreshTokenSchema), authController.refresh);
+router.post('/logout', authMiddleware, authController.logout);
+router.post('/logout-all', authMiddleware, authController.logoutAll);
+router.get(
+  '/me',
+  authMiddleware,
+  authorize(...STAFF_ROLES),
+  authController.me
+);
+router.post(
+  '/change-password',
+  authMiddleware,
+  authorize(...STAFF_ROLES),
+  validate(changePasswordSchema),
+  authController.changePassword
+);
+router.post(
+  '/forgot-password',
+  validate(forgotPasswordSchema),
+  authController.forgotPassword
+);
+router.post(
+  '/reset-password',
+  validate(resetPasswordSchema),
+  authController.resetPassword
+);
+router.post(
+  '/student/login',
+  validate(loginSchema),
+  authController.studentLogin
+);
+router.post(
+  '/student/activate',
+  validate(activateStudentAccountSchema),
+  authController.activateStudentAccount
+);
 
 export const authRoutes = router;
@@ -24,6 +24,48 @@
  *         description:
  *           type: string
  *           description: Description détaillée du cours
+ *         type:
+ *           type: string
+ *           enum: [resource, sae]
+ *           default: resource
+ *           description: >
+ *             Ressource ou SAÉ (situation d'apprentissage et d'évaluation).
+ *             Omis lors d'une modification, le type existant est conservé.
+ *         version:
+ *           type: integer
+ *           readOnly: true
+ *           description: Version du cours, renvoyée dans l'en-tête ETag
+ *
+ *   parameters:
+ *     IfMatch:
+ *       in: header
+ *       name: If-Match
+ *       required: true
+ *       schema:
+ *         type: string
+ *         example: '"3"'
+ *       description: >
+ *         ETag de la ressource lue avant modification. La modification est
+ *         refusée si la ressource a changé depuis. `*` accepte toute version
+ *         de la ressource.
+ *
+ *   headers:
+ *     ETag:
+ *       schema:
+ *         type: string
+ *       description: Version de la ressource, à renvoyer dans If-Match pour la modifier
+ *
+ *   responses:
+ *     PreconditionFailed:
+ *       description: >
+ *         La ressource a été modifiée depuis sa lecture. Les détails de
+ *         l'erreur contiennent sa représentation courante, dont la version
+ *         figure aussi dans l'en-tête ETag.
+ *       headers:
+ *         ETag:
+ *           $ref: '#/components/headers/ETag'
+ *     PreconditionRequired:
+ *       description: En-tête If-Match manquant
  */
 
 /**
@@ -34,15 +76,51 @@
  *     tags: [Courses]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Page'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *       - $ref: '#/components/parameters/Search'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [code, -code, name, -name, credits, -credits]
+ *           default: code
+ *         description: Champ de tri, préfixé par - pour un ordre décroissant
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *         description: Début du code
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Début du nom
+ *       - in: query
+ *         name: credits
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [resource, sae]
  *     responses:
  *       200:
  *         description: Liste des cours
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Course'
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Course'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
  *       401:
  *         description: Non authentifié
  *
@@ -64,6 +142,8 @@
  *         description: Données invalides
  *       401:
  *         description: Non authentifié
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
  *
  * /courses/{id}:
  *   put:
@@ -77,6 +157,7 @@
  *         required: true
  *         schema:
  *           type: integer
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
@@ -86,8 +167,17 @@
  *     responses:
  *       200:
  *         description: Cours mis à jour
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
  *       404:
  *         description: Cours non trouvé
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ *       428:
+ *         $ref: '#/components/responses/PreconditionRequired'
  *
  *   delete:
  *     summary: Supprime un cours
@@ -103,21 +193,269 @@
  *     responses:
  *       204:
  *         description: Cours supprimé
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Cours non trouvé
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CourseAssignment:
+ *       type: object
+ *       required:
+ *         - professorId
+ *         - academicYear
+ *       properties:
+ *         id:
+ *           type: integer
+ *         courseId:
+ *           type: integer
+ *         professorId:
+ *           type: integer
+ *         academicYear:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *         role:
+ *           type: string
+ *           enum: [responsible, contributor]
+ *           default: contributor
+ *           description: Enseignant responsable du cours ou intervenant
+ *
+ * /courses/{id}/assignments:
+ *   get:
+ *     summary: Liste les enseignants affectés à un cours
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: academicYear
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *     responses:
+ *       200:
+ *         description: Liste des affectations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/CourseAssignment'
+ *
+ *   post:
+ *     summary: Affecte un professeur à un cours pour une année universitaire
+ *     description: >
+ *       Seuls les enseignants affectés peuvent saisir, modifier ou supprimer
+ *       les notes du cours. Un cours n'a qu'un seul responsable par année.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CourseAssignment'
+ *     responses:
+ *       201:
+ *         description: Professeur affecté
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Cours ou professeur non trouvé
+ *       409:
+ *         description: Affectation déjà existante ou responsable déjà désigné
+ *
+ * /courses/{id}/assignments/{assignmentId}:
+ *   delete:
+ *     summary: Retire un professeur d'un cours
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: assignmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Affectation supprimée
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Affectation non trouvée
+ *
+ * /courses/{id}/offerings:
+ *   get:
+ *     summary: Liste les offres d'un cours (semestres où il est dispensé)
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: academicYear
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *     responses:
+ *       200:
+ *         description: Offres du cours, avec le nombre et le poids total de leurs évaluations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/CourseOffering'
+ *                   - type: object
+ *                     properties:
+ *                       assessmentsCount:
+ *                         type: integer
+ *                       totalWeight:
+ *                         type: number
+ *
+ *   post:
+ *     summary: Ouvre un cours pour un semestre d'une année universitaire
+ *     description: >
+ *       Une offre de cours regroupe les évaluations pondérées à partir
+ *       desquelles la note du cours est calculée.
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - semester
+ *               - academicYear
+ *             properties:
+ *               semester:
+ *                 type: string
+ *               academicYear:
+ *                 type: string
+ *                 pattern: ^\d{4}-\d{4}$
+ *               resitPolicy:
+ *                 $ref: '#/components/schemas/ResitPolicy'
+ *     responses:
+ *       201:
+ *         description: Offre de cours créée
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CourseOffering'
+ *       403:
+ *         description: Cours non attribué au professeur
  *       404:
  *         description: Cours non trouvé
+ *       409:
+ *         description: Le cours est déjà ouvert pour ce semestre
  */
 
 import { Router } from 'express';
 import { courseController } from '../controllers/courseController';
+import { courseAssignmentController } from '../controllers/courseAssignmentController';
+import { courseOfferingController } from '../controllers/courseOfferingController';
 import { validate } from '../middleware/validate';
-import { createCourseSchema } from '../schemas/course.schema';
+import { authorize } from '../middleware/auth';
+import {
+  courseListQuery,
+  createCourseSchema,
+} from '../schemas/course.schema';
+import {
+  courseAssignmentQuerySchema,
+  createCourseAssignmentSchema,
+} from '../schemas/courseAssignment.schema';
+import {
+  courseOfferingQuerySchema,
+  createCourseOfferingSchema,
+} from '../schemas/courseOffering.schema';
+import { MANAGER_ROLES, STAFF_ROLES } from '../types/auth';
 
 const router = Router();
 
-router.get('/', courseController.getAll);
-router.get('/:id', courseController.getById);
-router.post('/', validate(createCourseSchema), courseController.create);
-router.put('/:id', validate(createCourseSchema), courseController.update);
-router.delete('/:id', courseController.delete);
+router.get(
+  '/',
+  authorize(...STAFF_ROLES),
+  validate(courseListQuery.schema),
+  courseController.getAll
+);
+router.get('/:id', authorize(...STAFF_ROLES), courseController.getById);
+router.post(
+  '/',
+  authorize(...MANAGER_ROLES),
+  validate(createCourseSchema),
+  courseController.create
+);
+router.put(
+  '/:id',
+  authorize(...MANAGER_ROLES),
+  validate(createCourseSchema),
+  courseController.update
+);
+router.delete('/:id', authorize(...MANAGER_ROLES), courseController.delete);
+router.get(
+  '/:id/assignments',
+  authorize(...STAFF_ROLES),
+  validate(courseAssignmentQuerySchema),
+  courseAssignmentController.getByCourse
+);
+router.post(
+  '/:id/assignments',
+  authorize(...MANAGER_ROLES),
+  validate(createCourseAssignmentSchema),
+  courseAssignmentController.create
+);
+router.delete(
+  '/:id/assignments/:assignmentId',
+  authorize(...MANAGER_ROLES),
+  courseAssignmentController.delete
+);
+router.get(
+  '/:id/offerings',
+  authorize(...STAFF_ROLES),
+  validate(courseOfferingQuerySchema),
+  courseOfferingController.getByCourse
+);
+router.post(
+  '/:id/offerings',
+  authorize(...STAFF_ROLES),
+  validate(createCourseOfferingSchema),
+  courseOfferingController.create
+);
 
 export const courseRoutes = router;
@@ -0,0 +1,329 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Competence:
+ *       type: object
+ *       required:
+ *         - code
+ *         - name
+ *       properties:
+ *         id:
+ *           type: integer
+ *           readOnly: true
+ *         code:
+ *           type: string
+ *           description: Code unique de la compétence (ex. C1)
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *
+ *     TeachingUnit:
+ *       type: object
+ *       required:
+ *         - code
+ *         - name
+ *         - competenceId
+ *         - semester
+ *         - credits
+ *       properties:
+ *         id:
+ *           type: integer
+ *           readOnly: true
+ *         code:
+ *           type: string
+ *           description: Code unique de l'UE (ex. UE1.1)
+ *         name:
+ *           type: string
+ *         competenceId:
+ *           type: integer
+ *           description: Compétence évaluée par l'UE
+ *         semester:
+ *           type: string
+ *         credits:
+ *           type: integer
+ *           description: Crédits ECTS acquis lorsque l'UE est validée
+ *
+ *     UnitAverage:
+ *       type: object
+ *       properties:
+ *         unitId:
+ *           type: integer
+ *         code:
+ *           type: string
+ *         name:
+ *           type: string
+ *         competenceCode:
+ *           type: string
+ *         semester:
+ *           type: string
+ *         credits:
+ *           type: integer
+ *         average:
+ *           type: number
+ *           nullable: true
+ *           description: >
+ *             Moyenne des ressources et SAÉ de l'UE pondérée par leurs
+ *             coefficients. Les notes ABJ, DISP et EN ATTENTE en sont
+ *             exclues ; null si aucune note ne compte.
+ *         coursesCount:
+ *           type: integer
+ *           description: Nombre de ressources et SAÉ notées
+ *         pending:
+ *           type: boolean
+ *           description: Une note de l'UE est EN ATTENTE, l'UE ne peut pas être validée
+ *         validated:
+ *           type: boolean
+ *           description: UE validée (moyenne >= 10 sans note en attente), ses crédits sont acquis
+ */
+
+/**
+ * @swagger
+ * /curriculum/competences:
+ *   get:
+ *     summary: Récupère les compétences du référentiel
+ *     tags: [Curriculum]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Liste des compétences
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Competence'
+ *
+ *   post:
+ *     summary: Crée une compétence
+ *     tags: [Curriculum]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Competence'
+ *     responses:
+ *       201:
+ *         description: Compétence créée
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       409:
+ *         description: Une compétence avec ce code existe déjà
+ *
+ * /curriculum/units:
+ *   get:
+ *     summary: Récupère les UE (unités d'enseignement)
+ *     tags: [Curriculum]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: semester
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Liste des UE avec le nombre de cours rattachés et la somme de leurs coefficients
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/TeachingUnit'
+ *                   - type: object
+ *                     properties:
+ *                       competenceCode:
+ *                         type: string
+ *                       coursesCount:
+ *                         type: integer
+ *                       totalCoefficient:
+ *                         type: number
+ *
+ *   post:
+ *     summary: Crée une UE
+ *     description: Une compétence n'est évaluée que par une seule UE par semestre.
+ *     tags: [Curriculum]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TeachingUnit'
+ *     responses:
+ *       201:
+ *         description: UE créée
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Compétence non trouvée
+ *       409:
+ *         description: Code déjà utilisé ou compétence déjà évaluée sur ce semestre
+ *
+ * /curriculum/units/{id}:
+ *   get:
+ *     summary: Récupère une UE et les ressources et SAÉ qui la composent
+ *     tags: [Curriculum]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: UE et cours rattachés avec leur coefficient
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/TeachingUnit'
+ *                 - type: object
+ *                   properties:
+ *                     courses:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           courseId:
+ *                             type: integer
+ *                           code:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           type:
+ *                             type: string
+ *                             enum: [resource, sae]
+ *                           coefficient:
+ *                             type: number
+ *       404:
+ *         description: UE non trouvée
+ *
+ * /curriculum/units/{id}/courses/{courseId}:
+ *   put:
+ *     summary: Rattache une ressource ou une SAÉ à une UE avec son coefficient
+ *     description: Si le cours est déjà rattaché à l'UE, son coefficient est remplacé.
+ *     tags: [Curriculum]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - coefficient
+ *             properties:
+ *               coefficient:
+ *                 type: number
+ *                 minimum: 0
+ *                 exclusiveMinimum: true
+ *     responses:
+ *       200:
+ *         description: Coefficient enregistré
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: UE ou cours non trouvé
+ *
+ *   delete:
+ *     summary: Détache un cours d'une UE
+ *     tags: [Curriculum]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Cours détaché
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Cours non rattaché à cette UE
+ */
+
+import { Router } from 'express';
+import { curriculumController } from '../controllers/curriculumController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import {
+  courseUnitSchema,
+  createCompetenceSchema,
+  createTeachingUnitSchema,
+  teachingUnitQuerySchema,
+} from '../schemas/curriculum.schema';
+import { MANAGER_ROLES, STAFF_ROLES } from '../types/auth';
+
+const router = Router();
+
+router.get(
+  '/competences',
+  authorize(...STAFF_ROLES),
+  curriculumController.getCompetences
+);
+router.post(
+  '/competences',
+  authorize(...MANAGER_ROLES),
+  validate(createCompetenceSchema),
+  curriculumController.createCompetence
+);
+router.get(
+  '/units',
+  authorize(...STAFF_ROLES),
+  validate(teachingUnitQuerySchema),
+  curriculumController.getUnits
+);
+router.post(
+  '/units',
+  authorize(...MANAGER_ROLES),
+  validate(createTeachingUnitSchema),
+  curriculumController.createUnit
+);
+router.get(
+  '/units/:id',
+  authorize(...STAFF_ROLES),
+  curriculumController.getUnitById
+);
+router.put(
+  '/units/:id/courses/:courseId',
+  authorize(...MANAGER_ROLES),
+  validate(courseUnitSchema),
+  curriculumController.setCourseCoefficient
+);
+router.delete(
+  '/units/:id/courses/:courseId',
+  authorize(...MANAGER_ROLES),
+  curriculumController.removeCourse
+);
+
+export const curriculumRoutes = router;
@@ -0,0 +1,86 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DepartmentSettings:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Nom du département
+ *         requireTwoFactor:
+ *           type: boolean
+ *           description: Double authentification obligatoire pour les professeurs du département
+ */
+
+/**
+ * @swagger
+ * /departments:
+ *   get:
+ *     summary: Récupère les départements et leurs paramètres de sécurité
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Liste des départements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/DepartmentSettings'
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ *
+ * /departments/{department}/settings:
+ *   put:
+ *     summary: Met à jour les paramètres de sécurité d'un département
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: department
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - requireTwoFactor
+ *             properties:
+ *               requireTwoFactor:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Paramètres mis à jour
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DepartmentSettings'
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ */
+
+import { Router } from 'express';
+import { departmentController } from '../controllers/departmentController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import { updateDepartmentSettingsSchema } from '../schemas/department.schema';
+
+const router = Router();
+
+router.get('/', authorize('admin'), departmentController.getAll);
+router.put(
+  '/:department/settings',
+  authorize('admin'),
+  validate(updateDepartmentSettingsSchema),
+  departmentController.updateSettings
+);
+
+export const departmentRoutes = router;
@@ -7,7 +7,6 @@
  *       required:
  *         - studentId
  *         - courseId
- *         - grade
  *         - semester
  *         - academicYear
  *       properties:
@@ -25,7 +24,10 @@
  *           format: float
  *           minimum: 0
  *           maximum: 20
- *           description: Note sur 20
+ *           nullable: true
+ *           description: Note sur 20, absente lorsqu'un code spécial est saisi
+ *         specialCode:
+ *           $ref: '#/components/schemas/SpecialGradeCode'
  *         semester:
  *           type: string
  *           enum: [S1, S2, S3, S4]
@@ -34,12 +36,37 @@
  *           type: string
  *           pattern: ^\d{4}-\d{4}$
  *           description: Année académique
+ *         session:
+ *           type: string
+ *           enum: [first, resit]
+ *           default: first
+ *           description: >
+ *             Première session ou rattrapage. Le rattrapage est refusé si
+ *             l'étudiant a validé le cours en première session.
+ *         version:
+ *           type: integer
+ *           readOnly: true
+ *           description: Version de la note, renvoyée dans l'en-tête ETag
+ *
+ *     SpecialGradeCode:
+ *       type: string
+ *       nullable: true
+ *       enum: [ABS, ABJ, DISP, EN ATTENTE]
+ *       description: >
+ *         Code saisi à la place de la note (l'un excluant l'autre).
+ *         ABS : absence injustifiée, comptée 0 ; ABJ : absence justifiée et
+ *         DISP : dispense, exclues des moyennes ; EN ATTENTE : note non encore
+ *         connue, exclue des moyennes et bloquant la validation du cours et de
+ *         son UE.
  *
  *     GradeWithDetails:
  *       allOf:
  *         - $ref: '#/components/schemas/Grade'
  *         - type: object
  *           properties:
+ *             studentNumber:
+ *               type: string
+ *               description: Numéro étudiant
  *             studentFirstName:
  *               type: string
  *             studentLastName:
@@ -48,6 +75,180 @@
  *               type: string
  *             courseName:
  *               type: string
+ *
+ *     GradeImportReport:
+ *       type: object
+ *       properties:
+ *         dryRun:
+ *           type: boolean
+ *         courseId:
+ *           type: integer
+ *         semester:
+ *           type: string
+ *         academicYear:
+ *           type: string
+ *         session:
+ *           type: string
+ *           enum: [first, resit]
+ *         total:
+ *           type: integer
+ *           description: Nombre de lignes lues
+ *         summary:
+ *           type: object
+ *           description: Nombre de lignes par statut
+ *           properties:
+ *             new:
+ *               type: integer
+ *             changed:
+ *               type: integer
+ *             unchanged:
+ *               type: integer
+ *             unknown_student:
+ *               type: integer
+ *             invalid:
+ *               type: integer
+ *         rows:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               line:
+ *                 type: integer
+ *                 description: Numéro de ligne dans le fichier (en-tête = 1)
+ *               studentNumber:
+ *                 type: string
+ *                 description: Numéro étudiant lu dans le fichier
+ *               studentId:
+ *                 type: integer
+ *               grade:
+ *                 type: number
+ *               specialCode:
+ *                 $ref: '#/components/schemas/SpecialGradeCode'
+ *               previousGrade:
+ *                 type: number
+ *                 description: Note actuellement enregistrée
+ *               previousSpecialCode:
+ *                 $ref: '#/components/schemas/SpecialGradeCode'
+ *               status:
+ *                 type: string
+ *                 enum: [new, changed, unchanged, unknown_student, invalid]
+ *         errors:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               line:
+ *                 type: integer
+ *               field:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *
+ *     GradeAuditEntry:
+ *       type: object
+ *       description: >
+ *         Modification d'une note, enregistrée par la base de données à chaque
+ *         création, mise à jour ou suppression. Le journal ne peut être ni
+ *         modifié ni purgé.
+ *       properties:
+ *         id:
+ *           type: integer
+ *         gradeId:
+ *           type: integer
+ *         studentId:
+ *           type: integer
+ *         courseId:
+ *           type: integer
+ *         semester:
+ *           type: string
+ *         academicYear:
+ *           type: string
+ *         session:
+ *           type: string
+ *           enum: [first, resit]
+ *         action:
+ *           type: string
+ *           enum: [create, update, delete]
+ *         oldGrade:
+ *           type: number
+ *           nullable: true
+ *         oldSpecialCode:
+ *           $ref: '#/components/schemas/SpecialGradeCode'
+ *         newGrade:
+ *           type: number
+ *           nullable: true
+ *         newSpecialCode:
+ *           $ref: '#/components/schemas/SpecialGradeCode'
+ *         professorId:
+ *           type: integer
+ *           nullable: true
+ *           description: Auteur de la modification
+ *         professorName:
+ *           type: string
+ *           nullable: true
+ *         apiKeyId:
+ *           type: integer
+ *           nullable: true
+ *           description: Clé API utilisée pour la modification
+ *         ip:
+ *           type: string
+ *           nullable: true
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *           description: Motif saisi, ou origine de la modification (import, évaluations...)
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     MissingGradesByProfessor:
+ *       type: object
+ *       properties:
+ *         professorId:
+ *           type: integer
+ *           nullable: true
+ *           description: Responsable du cours, null pour les cours sans responsable
+ *         professorName:
+ *           type: string
+ *           nullable: true
+ *         professorEmail:
+ *           type: string
+ *           nullable: true
+ *         missingCount:
+ *           type: integer
+ *         offerings:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               offeringId:
+ *                 type: integer
+ *               courseId:
+ *                 type: integer
+ *               courseCode:
+ *                 type: string
+ *               courseName:
+ *                 type: string
+ *               semester:
+ *                 type: string
+ *               academicYear:
+ *                 type: string
+ *               gradeDeadline:
+ *                 type: string
+ *                 format: date
+ *               students:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     studentId:
+ *                       type: integer
+ *                     studentNumber:
+ *                       type: string
+ *                     firstName:
+ *                       type: string
+ *                     lastName:
+ *                       type: string
  */
 
 /**
@@ -58,34 +259,271 @@
  *     tags: [Grades]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Page'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [academicYear, -academicYear, semester, -semester, grade, -grade, courseCode, -courseCode, studentLastName, -studentLastName]
+ *           default: -academicYear
+ *         description: Champ de tri, préfixé par - pour un ordre décroissant
+ *       - in: query
+ *         name: academicYear
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: semester
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: session
+ *         schema:
+ *           type: string
+ *           enum: [first, resit]
+ *       - in: query
+ *         name: specialCode
+ *         schema:
+ *           type: string
+ *           enum: [ABS, ABJ, DISP, EN ATTENTE]
+ *       - in: query
+ *         name: courseCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: courseId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: studentId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: studentLastName
+ *         schema:
+ *           type: string
+ *         description: Début du nom de l'étudiant
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
  *     responses:
  *       200:
  *         description: Liste des notes avec détails
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/GradeWithDetails'
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/GradeWithDetails'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
  *
  *   post:
  *     summary: Ajoute une nouvelle note
+ *     description: >
+ *       Un professeur ne peut saisir des notes que pour les cours auxquels il
+ *       est affecté pour l'année universitaire concernée. Un étudiant n'a
+ *       qu'une note par cours et par session : si elle existe déjà, la requête
+ *       est refusée, sauf en mode upsert où elle est remplacée si l'en-tête
+ *       If-Match porte sa version courante, comme pour une modification.
  *     tags: [Grades]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Mode upsert : ETag de la note existante à remplacer, ou `*` pour
+ *           ignorer sa version. Sans objet si la note n'existe pas encore.
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/Grade'
+ *             allOf:
+ *               - $ref: '#/components/schemas/Grade'
+ *               - type: object
+ *                 properties:
+ *                   reason:
+ *                     type: string
+ *                     maxLength: 500
+ *                     description: Motif enregistré dans l'historique de la note
+ *                   upsert:
+ *                     type: boolean
+ *                     default: false
+ *                     description: Remplace la note existante de la même session
  *     responses:
+ *       200:
+ *         description: Note existante remplacée (mode upsert)
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
  *       201:
  *         description: Note créée
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
  *       400:
- *         description: Données invalides
+ *         description: Données invalides, ou ni note ni code spécial (ou les deux)
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite de saisie dépassée
+ *           (seuls les gestionnaires peuvent encore modifier les notes)
  *       404:
  *         description: Étudiant ou cours non trouvé
+ *       409:
+ *         description: >
+ *           Notes du cours calculées à partir de ses évaluations ou
+ *           verrouillées, rattrapage d'un cours validé en première session, ou
+ *           note déjà saisie pour cette session (GRADE_ALREADY_EXISTS, la note
+ *           existante figurant dans les détails de l'erreur)
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ *       428:
+ *         description: >
+ *           Mode upsert : note existante à remplacer sans en-tête If-Match (la
+ *           note existante figure dans les détails de l'erreur)
+ *
+ * /grades/import:
+ *   post:
+ *     summary: Importe les notes d'un cours depuis un fichier CSV
+ *     description: >
+ *       Le fichier contient une ligne par étudiant avec les colonnes studentId
+ *       (numéro étudiant) et grade, ou leurs équivalents français (numéro
+ *       étudiant, note). Les notes peuvent utiliser la virgule décimale ou
+ *       être remplacées par un code spécial (ABS, ABJ, DISP, EN ATTENTE). Le
+ *       cours, le semestre, l'année universitaire et la session sont communs
+ *       à tout le fichier. Utiliser dryRun=true pour obtenir un aperçu des différences
+ *       avec les notes existantes (nouvelle, modifiée, inchangée, étudiant
+ *       inconnu), puis relancer sans dryRun pour enregistrer. L'import
+ *       s'effectue dans une seule transaction : si une ligne est invalide ou
+ *       désigne un étudiant inconnu, aucune note n'est enregistrée.
+ *     tags: [Grades]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: semester
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: academicYear
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *       - in: query
+ *         name: session
+ *         schema:
+ *           type: string
+ *           enum: [first, resit]
+ *           default: first
+ *       - in: query
+ *         name: delimiter
+ *         schema:
+ *           type: string
+ *           enum: [',', ';', "\t", '|']
+ *         description: Séparateur de colonnes, détecté automatiquement par défaut
+ *       - in: query
+ *         name: encoding
+ *         schema:
+ *           type: string
+ *           enum: [utf8, latin1]
+ *           default: utf8
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Aperçu ou rapport d'import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GradeImportReport'
+ *       400:
+ *         description: Paramètres invalides, fichier illisible ou colonnes manquantes
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite de saisie dépassée
+ *           (seuls les gestionnaires peuvent encore modifier les notes)
+ *       404:
+ *         description: Cours non trouvé
+ *       409:
+ *         description: Notes du cours calculées à partir de ses évaluations ou verrouillées
+ *       413:
+ *         description: Fichier CSV plus volumineux que CSV_IMPORT_MAX_SIZE (5 Mo par défaut)
+ *       415:
+ *         description: Le corps de la requête n'est pas un fichier CSV
+ *       422:
+ *         description: Lignes invalides ou étudiants inconnus, aucune note enregistrée
+ *
+ * /grades/missing:
+ *   get:
+ *     summary: Liste les notes manquantes après la date limite de saisie
+ *     description: >
+ *       Pour chaque cours dont la date limite de saisie est dépassée, les
+ *       étudiants du semestre sans note de première session, regroupés par
+ *       enseignant responsable du cours. Les étudiants attendus sont ceux
+ *       ayant au moins une note sur le même semestre ; les étudiants archivés
+ *       sont ignorés.
+ *     tags: [Grades]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: academicYear
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *       - in: query
+ *         name: semester
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *     responses:
+ *       200:
+ *         description: Notes manquantes par responsable (une ligne par étudiant en export)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MissingGradesByProfessor'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
  *
  * /grades/student/{studentId}:
  *   get:
@@ -99,15 +537,30 @@
  *         required: true
  *         schema:
  *           type: integer
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
  *     responses:
  *       200:
- *         description: Notes de l'étudiant
+ *         description: >
+ *           Notes de l'étudiant, toutes sessions confondues. retained indique
+ *           la note retenue pour le cours selon la politique de rattrapage.
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
- *                 $ref: '#/components/schemas/GradeWithDetails'
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/GradeWithDetails'
+ *                   - type: object
+ *                     properties:
+ *                       retained:
+ *                         type: boolean
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
  *
  * /grades/{id}:
  *   put:
@@ -121,24 +574,45 @@
  *         required: true
  *         schema:
  *           type: integer
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - grade
+ *             description: Une note ou un code spécial, l'un excluant l'autre
  *             properties:
  *               grade:
  *                 type: number
  *                 minimum: 0
  *                 maximum: 20
+ *               specialCode:
+ *                 $ref: '#/components/schemas/SpecialGradeCode'
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Motif enregistré dans l'historique de la note
  *     responses:
  *       200:
  *         description: Note mise à jour
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
+ *       400:
+ *         description: Ni note ni code spécial, ou les deux
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite de saisie dépassée
+ *           (seuls les gestionnaires peuvent encore modifier les notes)
  *       404:
  *         description: Note non trouvée
+ *       409:
+ *         description: Note calculée à partir des évaluations du cours, ou verrouillée
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ *       428:
+ *         $ref: '#/components/responses/PreconditionRequired'
  *
  *   delete:
  *     summary: Supprime une note
@@ -151,11 +625,53 @@
  *         required: true
  *         schema:
  *           type: integer
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           maxLength: 500
+ *         description: Motif enregistré dans l'historique de la note
  *     responses:
  *       204:
  *         description: Note supprimée
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite de saisie dépassée
+ *           (seuls les gestionnaires peuvent encore modifier les notes)
  *       404:
  *         description: Note non trouvée
+ *       409:
+ *         description: Note calculée à partir des évaluations du cours, ou verrouillée
+ *
+ * /grades/{id}/history:
+ *   get:
+ *     summary: Historique des modifications d'une note
+ *     description: >
+ *       Toutes les modifications de la note, de la plus ancienne à la plus
+ *       récente, avec leur auteur et leur motif. L'historique reste consultable
+ *       après la suppression de la note.
+ *     tags: [Grades]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Historique de la note
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/GradeAuditEntry'
+ *       403:
+ *         description: Cours non attribué au professeur
+ *       404:
+ *         description: Aucun historique pour cette note
  *
  * /grades/student/{studentId}/transcript:
  *   get:
@@ -175,6 +691,12 @@
  *         schema:
  *           type: string
  *           pattern: ^\d{4}-\d{4}$
+ *       - in: query
+ *         name: breakdown
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Détaille les notes d'évaluation sous chaque cours
  *     responses:
  *       200:
  *         description: Relevé de notes en PDF
@@ -190,25 +712,65 @@
 import { Router } from 'express';
 import { gradeController } from '../controllers/gradeController';
 import { validate } from '../middleware/validate';
-import { createGradeSchema } from '../schemas/grade.schema';
-import { z } from 'zod';
+import { authorize } from '../middleware/auth';
+import { csvBody } from '../middleware/csvBody';
+import {
+  createGradeSchema,
+  gradeListQuery,
+  missingGradesQuerySchema,
+  updateGradeSchema,
+} from '../schemas/grade.schema';
 import { transcriptSchema } from '../schemas/grade.schema';
+import { MANAGER_ROLES, STAFF_ROLES } from '../types/auth';
 
 const router = Router();
 
-router.get('/', gradeController.getAll);
-router.get('/student/:studentId', gradeController.getByStudent);
+router.get(
+  '/',
+  authorize(...STAFF_ROLES),
+  validate(gradeListQuery.schema),
+  gradeController.getAll
+);
+router.get(
+  '/missing',
+  authorize(...MANAGER_ROLES),
+  validate(missingGradesQuerySchema),
+  gradeController.getMissing
+);
+router.get(
+  '/student/:studentId',
+  authorize(...STAFF_ROLES),
+  gradeController.getByStudent
+);
 router.get(
   '/student/:studentId/transcript',
+  authorize(...STAFF_ROLES),
   validate(transcriptSchema),
   gradeController.generateTranscript
 );
-router.post('/', validate(createGradeSchema), gradeController.create);
+router.post(
+  '/',
+  authorize(...STAFF_ROLES),
+  validate(createGradeSchema),
+  gradeController.create
+);
+router.post(
+  '/import',
+  authorize(...STAFF_ROLES),
+  csvBody,
+  gradeController.importCsv
+);
 router.put(
   '/:id',
-  validate(z.object({ grade: z.number().min(0).max(20) })),
+  authorize(...STAFF_ROLES),
+  validate(updateGradeSchema),
   gradeController.update
 );
-router.delete('/:id', gradeController.delete);
+router.delete('/:id', authorize(...STAFF_ROLES), gradeController.delete);
+router.get(
+  '/:id/history',
+  authorize(...STAFF_ROLES),
+  gradeController.getHistory
+);
 
 export const gradeRoutes = router;
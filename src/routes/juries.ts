@@ -0,0 +1,367 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     JuryRules:
+ *       type: object
+ *       required:
+ *         - academicYear
+ *         - passingAverage
+ *         - eliminatoryAverage
+ *         - compensation
+ *         - maxFailedUnits
+ *       properties:
+ *         academicYear:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *         passingAverage:
+ *           type: number
+ *           default: 10
+ *           description: Moyenne à partir de laquelle une UE est validée
+ *         eliminatoryAverage:
+ *           type: number
+ *           default: 8
+ *           description: Moyenne en dessous de laquelle une UE ne peut pas être compensée
+ *         compensation:
+ *           type: boolean
+ *           default: true
+ *           description: >
+ *             Compensation entre les UE d'une même compétence sur les deux
+ *             semestres de l'année
+ *         maxFailedUnits:
+ *           type: integer
+ *           default: 2
+ *           description: Nombre d'UE non validées tolérées pour le passage en année suivante
+ *
+ *     JuryDecisionCode:
+ *       type: string
+ *       enum: [ADM, AJ, ADJ, CMP]
+ *       description: >
+ *         ADM : admis, AJ : ajourné, ADJ : admis par décision du jury,
+ *         CMP : validé par compensation
+ *
+ *     SemesterJuryDecision:
+ *       type: object
+ *       properties:
+ *         semester:
+ *           type: string
+ *         average:
+ *           type: number
+ *           nullable: true
+ *           description: Moyenne des UE notées pondérée par leurs crédits ECTS
+ *         totalCredits:
+ *           type: integer
+ *         validatedCredits:
+ *           type: integer
+ *         units:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               unitId:
+ *                 type: integer
+ *               code:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               competenceCode:
+ *                 type: string
+ *               credits:
+ *                 type: integer
+ *               average:
+ *                 type: number
+ *                 nullable: true
+ *                 description: >
+ *                   null si l'étudiant n'a aucune note comptée dans l'UE ou
+ *                   si l'une d'elles est EN ATTENTE
+ *               pending:
+ *                 type: boolean
+ *                 description: Une note EN ATTENTE bloque la validation de l'UE
+ *               decision:
+ *                 $ref: '#/components/schemas/JuryDecisionCode'
+ *         proposedDecision:
+ *           $ref: '#/components/schemas/JuryDecisionCode'
+ *         decision:
+ *           $ref: '#/components/schemas/JuryDecisionCode'
+ *         overridden:
+ *           type: boolean
+ *           description: La décision a été fixée par le jury
+ *         justification:
+ *           type: string
+ *           nullable: true
+ *         decidedBy:
+ *           type: integer
+ *           nullable: true
+ *         decidedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *
+ *     StudentJuryResult:
+ *       type: object
+ *       properties:
+ *         studentId:
+ *           type: integer
+ *         studentNumber:
+ *           type: string
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         academicYear:
+ *           type: string
+ *         semesters:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SemesterJuryDecision'
+ *         failedUnits:
+ *           type: integer
+ *           description: UE non validées des semestres ajournés
+ *         canProgress:
+ *           type: boolean
+ *           description: Passage en année suivante autorisé
+ */
+
+/**
+ * @swagger
+ * /juries/rules:
+ *   get:
+ *     summary: Récupère les règles de jury d'une année universitaire
+ *     description: Les règles par défaut s'appliquent tant qu'aucune règle n'a été enregistrée.
+ *     tags: [Juries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: academicYear
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *     responses:
+ *       200:
+ *         description: Règles de jury
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JuryRules'
+ *
+ *   put:
+ *     summary: Enregistre les règles de jury d'une année universitaire
+ *     tags: [Juries]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/JuryRules'
+ *     responses:
+ *       200:
+ *         description: Règles enregistrées
+ *       400:
+ *         description: Note éliminatoire supérieure à la moyenne de validation
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *
+ * /juries/decisions:
+ *   get:
+ *     summary: Liste les décisions de jury d'une promotion
+ *     description: >
+ *       Pour chaque étudiant ayant des moyennes d'UE sur l'année, la décision
+ *       proposée par application des règles de jury et, le cas échéant, la
+ *       décision retenue par le jury.
+ *     tags: [Juries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: academicYear
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *       - in: query
+ *         name: semester
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
+ *     responses:
+ *       200:
+ *         description: Décisions par étudiant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StudentJuryResult'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *
+ * /juries/decisions/students/{studentId}:
+ *   get:
+ *     summary: Récupère les décisions de jury d'un étudiant
+ *     tags: [Juries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: studentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: academicYear
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *     responses:
+ *       200:
+ *         description: Décisions de l'étudiant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StudentJuryResult'
+ *       404:
+ *         description: Aucune moyenne d'UE pour cet étudiant sur cette année
+ *
+ *   put:
+ *     summary: Enregistre la décision du jury pour un semestre
+ *     description: >
+ *       Remplace la décision proposée. La justification est obligatoire et
+ *       conservée avec la proposition remplacée et l'auteur de la décision.
+ *     tags: [Juries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: studentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - academicYear
+ *               - semester
+ *               - decision
+ *               - justification
+ *             properties:
+ *               academicYear:
+ *                 type: string
+ *                 pattern: ^\d{4}-\d{4}$
+ *               semester:
+ *                 type: string
+ *               decision:
+ *                 $ref: '#/components/schemas/JuryDecisionCode'
+ *               justification:
+ *                 type: string
+ *                 minLength: 10
+ *     responses:
+ *       200:
+ *         description: Décisions de l'étudiant après enregistrement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StudentJuryResult'
+ *       400:
+ *         description: Données invalides ou justification manquante
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Étudiant non trouvé ou sans moyenne d'UE sur ce semestre
+ *
+ *   delete:
+ *     summary: Annule la décision du jury pour un semestre
+ *     description: La décision proposée par les règles de jury s'applique de nouveau.
+ *     tags: [Juries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: studentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: academicYear
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *       - in: query
+ *         name: semester
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Décision annulée
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Aucune décision de jury enregistrée pour ce semestre
+ */
+
+import { Router } from 'express';
+import { juryController } from '../controllers/juryController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import {
+  juryCohortQuerySchema,
+  juryDecisionSchema,
+  juryRulesSchema,
+  juryYearQuerySchema,
+} from '../schemas/jury.schema';
+import { MANAGER_ROLES, STAFF_ROLES } from '../types/auth';
+
+const router = Router();
+
+router.get(
+  '/rules',
+  authorize(...STAFF_ROLES),
+  validate(juryYearQuerySchema),
+  juryController.getRules
+);
+router.put(
+  '/rules',
+  authorize(...MANAGER_ROLES),
+  validate(juryRulesSchema),
+  juryController.updateRules
+);
+router.get(
+  '/decisions',
+  authorize(...STAFF_ROLES),
+  validate(juryCohortQuerySchema),
+  juryController.getDecisions
+);
+router.get(
+  '/decisions/students/:studentId',
+  authorize(...STAFF_ROLES),
+  validate(juryYearQuerySchema),
+  juryController.getStudentDecisions
+);
+router.put(
+  '/decisions/students/:studentId',
+  authorize(...MANAGER_ROLES),
+  validate(juryDecisionSchema),
+  juryController.saveDecision
+);
+router.delete(
+  '/decisions/students/:studentId',
+  authorize(...MANAGER_ROLES),
+  juryController.removeDecision
+);
+
+export const juryRoutes = router;
@@ -0,0 +1,113 @@
+/**
+ * @swagger
+ * /me:
+ *   get:
+ *     summary: Récupère le profil de l'étudiant connecté
+ *     tags: [Me]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profil de l'étudiant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Student'
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Réservé aux étudiants
+ *
+ * /me/grades:
+ *   get:
+ *     summary: Récupère les notes de l'étudiant connecté
+ *     description: Seules les notes des offres de cours publiées sont prises en compte.
+ *     tags: [Me]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Liste des notes de l'étudiant
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Réservé aux étudiants
+ *
+ * /me/stats:
+ *   get:
+ *     summary: Récupère les moyennes par semestre de l'étudiant connecté
+ *     description: Seules les notes des offres de cours publiées sont prises en compte.
+ *     tags: [Me]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: academicYear
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *     responses:
+ *       200:
+ *         description: Statistiques par semestre
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Réservé aux étudiants
+ *
+ * /me/transcript:
+ *   get:
+ *     summary: Génère le relevé de notes de l'étudiant connecté
+ *     description: Seules les notes des offres de cours publiées sont prises en compte.
+ *     tags: [Me]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: academicYear
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *       - in: query
+ *         name: breakdown
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Détaille les notes d'évaluation sous chaque cours
+ *     responses:
+ *       200:
+ *         description: Relevé de notes en PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Réservé aux étudiants
+ *       404:
+ *         description: Pas de notes pour cette année
+ */
+
+import { Router } from 'express';
+import { meController } from '../controllers/meController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import { transcriptSchema } from '../schemas/grade.schema';
+
+const router = Router();
+
+router.use(authorize('student'));
+
+router.get('/', meController.getProfile);
+router.get('/grades', meController.getGrades);
+router.get('/stats', validate(transcriptSchema), meController.getStats);
+router.get(
+  '/transcript',
+  validate(transcriptSchema),
+  meController.getTranscript
+);
+
+export const meRoutes = router;
@@ -0,0 +1,644 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CourseOffering:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         courseId:
+ *           type: integer
+ *         semester:
+ *           type: string
+ *         academicYear:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *         resitPolicy:
+ *           $ref: '#/components/schemas/ResitPolicy'
+ *         status:
+ *           $ref: '#/components/schemas/OfferingStatus'
+ *         gradeDeadline:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: >
+ *             Date limite de saisie des notes : au-delà, seuls les
+ *             gestionnaires peuvent encore créer, modifier ou supprimer des notes
+ *         pastDeadline:
+ *           type: boolean
+ *           nullable: true
+ *           description: >
+ *             Date limite de saisie dépassée : notes et évaluations ne sont
+ *             plus modifiables que par les gestionnaires
+ *
+ *     OfferingStatus:
+ *       type: string
+ *       enum: [draft, submitted, published, locked]
+ *       default: draft
+ *       description: >
+ *         Circuit de publication des notes : draft (saisie en cours),
+ *         submitted (saisie terminée), published (notes visibles des
+ *         étudiants), locked (notes figées après le jury, modifiables
+ *         seulement après déverrouillage par un administrateur)
+ *
+ *     OfferingStatusChange:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         fromStatus:
+ *           $ref: '#/components/schemas/OfferingStatus'
+ *         toStatus:
+ *           $ref: '#/components/schemas/OfferingStatus'
+ *         justification:
+ *           type: string
+ *           nullable: true
+ *         changedBy:
+ *           type: integer
+ *           nullable: true
+ *         changedByName:
+ *           type: string
+ *           nullable: true
+ *         changedAt:
+ *           type: string
+ *           format: date-time
+ *
+ *     ResitPolicy:
+ *       type: string
+ *       enum: [replace, best, capped]
+ *       default: best
+ *       description: >
+ *         Note retenue lorsque l'étudiant passe le rattrapage : replace (la
+ *         note de rattrapage remplace celle de première session), best (la
+ *         meilleure des deux), capped (la meilleure des deux, la note de
+ *         rattrapage étant plafonnée à 10)
+ *
+ *     Assessment:
+ *       type: object
+ *       required:
+ *         - name
+ *         - weight
+ *       properties:
+ *         id:
+ *           type: integer
+ *           readOnly: true
+ *         offeringId:
+ *           type: integer
+ *           readOnly: true
+ *         name:
+ *           type: string
+ *           description: Intitulé (examen, TP, projet...)
+ *         weight:
+ *           type: number
+ *           minimum: 0
+ *           exclusiveMinimum: true
+ *           description: Coefficient de l'évaluation dans la note du cours
+ *         maxScore:
+ *           type: number
+ *           default: 20
+ *           description: Barème de l'évaluation
+ *         date:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *
+ *     AssessmentMark:
+ *       type: object
+ *       properties:
+ *         studentId:
+ *           type: integer
+ *         studentNumber:
+ *           type: string
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         score:
+ *           type: number
+ */
+
+/**
+ * @swagger
+ * /offerings/{id}:
+ *   get:
+ *     summary: Récupère une offre de cours et ses évaluations
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Offre de cours
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/CourseOffering'
+ *                 - type: object
+ *                   properties:
+ *                     assessments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Assessment'
+ *       404:
+ *         description: Offre de cours non trouvée
+ *
+ *   patch:
+ *     summary: Modifie la politique de rattrapage ou la date limite de saisie d'une offre de cours
+ *     description: >
+ *       Les notes retenues, utilisées par les moyennes, statistiques et
+ *       relevés, suivent immédiatement la nouvelle politique. La date limite
+ *       de saisie ne peut être fixée que par un administrateur ou un chef de
+ *       département.
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               resitPolicy:
+ *                 $ref: '#/components/schemas/ResitPolicy'
+ *               gradeDeadline:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 description: null supprime la date limite
+ *     responses:
+ *       200:
+ *         description: Offre de cours mise à jour
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CourseOffering'
+ *       400:
+ *         description: Aucune modification demandée
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite modifiée sans être
+ *           administrateur ou chef de département
+ *       404:
+ *         description: Offre de cours non trouvée
+ *       409:
+ *         description: Notes de l'offre verrouillées
+ *
+ * /offerings/{id}/status-changes:
+ *   get:
+ *     summary: Historique des changements d'état d'une offre de cours
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Changements d'état, du plus ancien au plus récent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OfferingStatusChange'
+ *       404:
+ *         description: Offre de cours non trouvée
+ *
+ * /offerings/{id}/submit:
+ *   post:
+ *     summary: Soumet les notes d'une offre de cours
+ *     description: >
+ *       Passe l'offre de draft à submitted : la saisie est terminée.
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Offre de cours après la transition
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CourseOffering'
+ *       403:
+ *         description: Cours non attribué au professeur
+ *       404:
+ *         description: Offre de cours non trouvée
+ *       409:
+ *         description: Offre de cours hors de l'état draft
+ *
+ * /offerings/{id}/reopen:
+ *   post:
+ *     summary: Remet en saisie une offre de cours soumise
+ *     description: >
+ *       Passe l'offre de submitted à draft.
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Offre de cours après la transition
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CourseOffering'
+ *       403:
+ *         description: Cours non attribué au professeur
+ *       404:
+ *         description: Offre de cours non trouvée
+ *       409:
+ *         description: Offre de cours hors de l'état submitted
+ *
+ * /offerings/{id}/publish:
+ *   post:
+ *     summary: Publie les notes d'une offre de cours
+ *     description: >
+ *       Passe l'offre de submitted à published : les notes deviennent
+ *       visibles des étudiants (/me).
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Offre de cours après la transition
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CourseOffering'
+ *       403:
+ *         description: Cours non attribué au professeur
+ *       404:
+ *         description: Offre de cours non trouvée
+ *       409:
+ *         description: Offre de cours hors de l'état submitted
+ *
+ * /offerings/{id}/lock:
+ *   post:
+ *     summary: Verrouille les notes d'une offre de cours
+ *     description: >
+ *       Passe l'offre de published à locked, en général après le jury. Les
+ *       notes, évaluations et politique de rattrapage ne peuvent plus être
+ *       modifiées (409, code OFFERING_LOCKED).
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Offre de cours après la transition
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CourseOffering'
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Offre de cours non trouvée
+ *       409:
+ *         description: Offre de cours hors de l'état published
+ *
+ * /offerings/{id}/unlock:
+ *   post:
+ *     summary: Déverrouille les notes d'une offre de cours
+ *     description: >
+ *       Repasse l'offre de locked à published pour permettre une correction.
+ *       La justification est consignée dans l'historique de l'offre.
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - justification
+ *             properties:
+ *               justification:
+ *                 type: string
+ *                 minLength: 10
+ *     responses:
+ *       200:
+ *         description: Offre de cours après la transition
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CourseOffering'
+ *       400:
+ *         description: Justification manquante
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ *       404:
+ *         description: Offre de cours non trouvée
+ *       409:
+ *         description: Offre de cours hors de l'état locked
+ *
+ * /offerings/{id}/assessments:
+ *   post:
+ *     summary: Ajoute une évaluation à une offre de cours
+ *     description: >
+ *       Dès qu'une offre de cours a des évaluations, la note du cours est
+ *       calculée : moyenne des notes d'évaluation ramenées sur 20, pondérée
+ *       par les coefficients des évaluations. Elle reste EN ATTENTE tant
+ *       qu'une évaluation n'est pas notée pour l'étudiant, y compris celle
+ *       ajoutée ici, et ne peut plus être saisie ni modifiée via /grades.
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Assessment'
+ *     responses:
+ *       201:
+ *         description: Évaluation créée, notes du cours recalculées
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Assessment'
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite de saisie dépassée
+ *           (seuls les gestionnaires peuvent encore modifier les évaluations)
+ *       404:
+ *         description: Offre de cours non trouvée
+ *       409:
+ *         description: Notes de l'offre verrouillées
+ *
+ * /offerings/{id}/assessments/{assessmentId}:
+ *   patch:
+ *     summary: Modifie une évaluation
+ *     description: >
+ *       Un changement de coefficient ou de barème recalcule les notes du
+ *       cours. Le barème ne peut pas descendre sous une note déjà saisie.
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: assessmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Assessment'
+ *     responses:
+ *       200:
+ *         description: Évaluation mise à jour
+ *       400:
+ *         description: Données invalides ou aucune modification
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite de saisie dépassée
+ *           (seuls les gestionnaires peuvent encore modifier les évaluations)
+ *       404:
+ *         description: Évaluation non trouvée
+ *       409:
+ *         description: Des notes dépassent le nouveau barème, ou notes de l'offre verrouillées
+ *
+ *   delete:
+ *     summary: Supprime une évaluation et ses notes
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: assessmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Évaluation supprimée, notes du cours recalculées
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite de saisie dépassée
+ *           (seuls les gestionnaires peuvent encore modifier les évaluations)
+ *       404:
+ *         description: Évaluation non trouvée
+ *       409:
+ *         description: Notes de l'offre verrouillées
+ *
+ * /offerings/{id}/assessments/{assessmentId}/marks:
+ *   get:
+ *     summary: Liste les notes d'une évaluation
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: assessmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Notes de l'évaluation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AssessmentMark'
+ *       404:
+ *         description: Évaluation non trouvée
+ *
+ *   put:
+ *     summary: Enregistre les notes d'une évaluation
+ *     description: >
+ *       Enregistre ou remplace la note de chaque étudiant listé ; une note à
+ *       null supprime la note existante. Les notes de cours des étudiants
+ *       concernés sont recalculées dans la même transaction.
+ *     tags: [Assessments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: assessmentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - marks
+ *             properties:
+ *               marks:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - studentId
+ *                     - score
+ *                   properties:
+ *                     studentId:
+ *                       type: integer
+ *                     score:
+ *                       type: number
+ *                       nullable: true
+ *     responses:
+ *       200:
+ *         description: Notes de l'évaluation après enregistrement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AssessmentMark'
+ *       400:
+ *         description: Note supérieure au barème ou étudiant en double
+ *       403:
+ *         description: >
+ *           Cours non attribué au professeur, ou date limite de saisie dépassée
+ *           (seuls les gestionnaires peuvent encore modifier les évaluations)
+ *       404:
+ *         description: Évaluation ou étudiant non trouvé
+ *       409:
+ *         description: Notes de l'offre verrouillées
+ */
+
+import { Router } from 'express';
+import { courseOfferingController } from '../controllers/courseOfferingController';
+import { assessmentController } from '../controllers/assessmentController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import {
+  unlockOfferingSchema,
+  updateCourseOfferingSchema,
+} from '../schemas/courseOffering.schema';
+import {
+  createAssessmentSchema,
+  saveAssessmentMarksSchema,
+  updateAssessmentSchema,
+} from '../schemas/assessment.schema';
+import { MANAGER_ROLES, STAFF_ROLES } from '../types/auth';
+
+const router = Router();
+
+router.use(authorize(...STAFF_ROLES));
+
+router.get('/:id', courseOfferingController.getById);
+router.patch(
+  '/:id',
+  validate(updateCourseOfferingSchema),
+  courseOfferingController.update
+);
+router.get('/:id/status-changes', courseOfferingController.getStatusChanges);
+router.post('/:id/submit', courseOfferingController.submit);
+router.post('/:id/reopen', courseOfferingController.reopen);
+router.post('/:id/publish', courseOfferingController.publish);
+router.post(
+  '/:id/lock',
+  authorize(...MANAGER_ROLES),
+  courseOfferingController.lock
+);
+router.post(
+  '/:id/unlock',
+  authorize('admin'),
+  validate(unlockOfferingSchema),
+  courseOfferingController.unlock
+);
+router.post(
+  '/:id/assessments',
+  validate(createAssessmentSchema),
+  assessmentController.create
+);
+router.patch(
+  '/:id/assessments/:assessmentId',
+  validate(updateAssessmentSchema),
+  assessmentController.update
+);
+router.delete('/:id/assessments/:assessmentId', assessmentController.delete);
+router.get(
+  '/:id/assessments/:assessmentId/marks',
+  assessmentController.getMarks
+);
+router.put(
+  '/:id/assessments/:assessmentId/marks',
+  validate(saveAssessmentMarksSchema),
+  assessmentController.saveMarks
+);
+
+export const offeringRoutes = router;
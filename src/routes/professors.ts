@@ -0,0 +1,314 @@
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Professor:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: ID auto-généré du professeur
+ *         firstName:
+ *           type: string
+ *           description: Prénom du professeur
+ *         lastName:
+ *           type: string
+ *           description: Nom du professeur
+ *         email:
+ *           type: string
+ *           format: email
+ *           description: Email du professeur
+ *         department:
+ *           type: string
+ *           description: Département de rattachement
+ *         role:
+ *           type: string
+ *           enum: [admin, department_head, professor]
+ *           description: Rôle du compte
+ *         isActive:
+ *           type: boolean
+ *           description: Indique si le compte peut se connecter
+ *
+ *     CreateProfessorInput:
+ *       type: object
+ *       required:
+ *         - firstName
+ *         - lastName
+ *         - email
+ *         - department
+ *         - password
+ *       properties:
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         department:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [admin, department_head, professor]
+ *           default: professor
+ *         password:
+ *           type: string
+ *           format: password
+ *           minLength: 8
+ *
+ *     UpdateProfessorInput:
+ *       type: object
+ *       properties:
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         department:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [admin, department_head, professor]
+ *         isActive:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /professors:
+ *   get:
+ *     summary: Récupère la liste des professeurs
+ *     tags: [Professors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Page'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [lastName, -lastName, firstName, -firstName, department, -department]
+ *           default: lastName
+ *         description: Champ de tri, préfixé par - pour un ordre décroissant
+ *       - in: query
+ *         name: lastName
+ *         schema:
+ *           type: string
+ *         description: Début du nom
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Liste des professeurs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Professor'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       403:
+ *         description: Accès interdit
+ *
+ *   post:
+ *     summary: Crée un compte professeur
+ *     tags: [Professors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateProfessorInput'
+ *     responses:
+ *       201:
+ *         description: Professeur créé
+ *       400:
+ *         description: Données invalides
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ *       409:
+ *         description: Email déjà utilisé
+ *
+ * /professors/{id}:
+ *   get:
+ *     summary: Récupère un professeur
+ *     tags: [Professors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Professeur
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Professor'
+ *       404:
+ *         description: Professeur non trouvé
+ *
+ *   put:
+ *     summary: Met à jour un professeur
+ *     description: Un changement de rôle ou une désactivation révoque ses sessions.
+ *     tags: [Professors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateProfessorInput'
+ *     responses:
+ *       200:
+ *         description: Professeur mis à jour
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ *       404:
+ *         description: Professeur non trouvé
+ *       409:
+ *         description: Email déjà utilisé
+ *
+ *   delete:
+ *     summary: Désactive un professeur
+ *     description: Le compte est conservé mais ne peut plus se connecter.
+ *     tags: [Professors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Professeur désactivé
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ *       404:
+ *         description: Professeur non trouvé
+ *
+ * /professors/{id}/unlock:
+ *   post:
+ *     summary: Déverrouille un compte bloqué après trop de tentatives
+ *     tags: [Professors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       204:
+ *         description: Compte déverrouillé
+ *       403:
+ *         description: Accès interdit (administrateur requis)
+ *       404:
+ *         description: Professeur non trouvé *
+ * /professors/{id}/assignments:
+ *   get:
+ *     summary: Liste les cours auxquels un professeur est affecté
+ *     tags: [Professors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: academicYear
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *     responses:
+ *       200:
+ *         description: Liste des affectations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/CourseAssignment'
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ */
+
+import { Router } from 'express';
+import { professorController } from '../controllers/professorController';
+import { courseAssignmentController } from '../controllers/courseAssignmentController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import {
+  createProfessorSchema,
+  professorListQuery,
+  updateProfessorSchema,
+} from '../schemas/professor.schema';
+import { courseAssignmentQuerySchema } from '../schemas/courseAssignment.schema';
+import { MANAGER_ROLES } from '../types/auth';
+
+const router = Router();
+
+router.get(
+  '/',
+  authorize(...MANAGER_ROLES),
+  validate(professorListQuery.schema),
+  professorController.getAll
+);
+router.get('/:id', authorize(...MANAGER_ROLES), professorController.getById);
+router.post(
+  '/',
+  authorize('admin'),
+  validate(createProfessorSchema),
+  professorController.create
+);
+router.put(
+  '/:id',
+  authorize('admin'),
+  validate(updateProfessorSchema),
+  professorController.update
+);
+router.delete('/:id', authorize('admin'), professorController.deactivate);
+router.post('/:id/unlock', authorize('admin'), professorController.unlock);
+router.get(
+  '/:id/assignments',
+  authorize(...MANAGER_ROLES),
+  validate(courseAssignmentQuerySchema),
+  courseAssignmentController.getByProfessor
+);
+
+export const professorRoutes = router;
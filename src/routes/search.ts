@@ -0,0 +1,81 @@
+/**
+ * @swagger
+ * /search:
+ *   get:
+ *     summary: Recherche des étudiants et des cours
+ *     description: >
+ *       Recherche insensible à la casse et aux accents (« helene » trouve
+ *       « Hélène ») sur le nom, le prénom, l'email et le numéro des
+ *       étudiants, ainsi que sur le code et le nom des cours. Les fautes de
+ *       frappe légères sont tolérées et les résultats sont classés par
+ *       pertinence. Les étudiants archivés sont exclus.
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *           maxLength: 100
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: Nombre maximal de résultats par type
+ *     responses:
+ *       200:
+ *         description: Résultats classés par pertinence
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 q:
+ *                   type: string
+ *                 students:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Student'
+ *                       - type: object
+ *                         properties:
+ *                           score:
+ *                             type: number
+ *                 courses:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/Course'
+ *                       - type: object
+ *                         properties:
+ *                           score:
+ *                             type: number
+ *       400:
+ *         description: Terme de recherche manquant ou trop court
+ *       401:
+ *         description: Non authentifié
+ */
+
+import { Router } from 'express';
+import { searchController } from '../controllers/searchController';
+import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import { searchQuerySchema } from '../schemas/search.schema';
+import { STAFF_ROLES } from '../types/auth';
+
+const router = Router();
+
+router.get(
+  '/',
+  authorize(...STAFF_ROLES),
+  validate(searchQuerySchema),
+  searchController.search
+);
+
+export const searchRoutes = router;
@@ -13,7 +13,9 @@
  *           description: Nom du cours
  *         averageGrade:
  *           type: number
- *           description: Moyenne des notes
+ *           description: >
+ *             Moyenne des notes. ABS compte 0 ; ABJ, DISP et EN ATTENTE sont
+ *             exclus de la moyenne et du taux de réussite.
  *         minGrade:
  *           type: number
  *           description: Note minimale
@@ -26,6 +28,9 @@
  *         successRate:
  *           type: number
  *           description: Taux de réussite en pourcentage
+ *         specialCodesCount:
+ *           type: integer
+ *           description: Nombre de notes remplacées par un code spécial
  *
  *     SemesterStats:
  *       type: object
@@ -45,6 +50,17 @@
  *         coursesCount:
  *           type: integer
  *           description: Nombre de cours dans le semestre
+ *         pending:
+ *           type: boolean
+ *           description: Au moins une note est EN ATTENTE, ce qui bloque la validation du cours
+ *         units:
+ *           type: array
+ *           description: >
+ *             Moyennes des UE du semestre. Lorsque le semestre est organisé en
+ *             UE, la moyenne est pondérée par les crédits des UE et seuls les
+ *             crédits des UE validées sont comptés.
+ *           items:
+ *             $ref: '#/components/schemas/UnitAverage'
  *
  *     GlobalStats:
  *       type: object
@@ -79,6 +95,8 @@
  *           type: string
  *           pattern: ^\d{4}-\d{4}$
  *         description: Année académique (ex. 2023-2024)
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
  *     responses:
  *       200:
  *         description: Statistiques globales
@@ -86,6 +104,12 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/GlobalStats'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
  *
  * /stats/course/{courseId}:
  *   get:
@@ -107,6 +131,8 @@
  *           type: string
  *           pattern: ^\d{4}-\d{4}$
  *         description: Année académique
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
  *     responses:
  *       200:
  *         description: Statistiques du cours
@@ -114,6 +140,12 @@
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/CourseStats'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
  *
  * /stats/student/{studentId}:
  *   get:
@@ -135,6 +167,8 @@
  *           type: string
  *           pattern: ^\d{4}-\d{4}$
  *         description: Année académique
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
  *     responses:
  *       200:
  *         description: Statistiques par semestre
@@ -144,11 +178,61 @@
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/SemesterStats'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *
+ * /stats/student/{studentId}/units:
+ *   get:
+ *     summary: Calcule les moyennes d'UE d'un étudiant
+ *     description: >
+ *       La moyenne de chaque UE pondère les notes des ressources et SAÉ qui la
+ *       composent par leur coefficient dans l'UE. Une UE est validée, et ses
+ *       crédits ECTS acquis, lorsque sa moyenne atteint 10.
+ *     tags: [Stats]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: studentId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID de l'étudiant
+ *       - in: query
+ *         name: academicYear
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: ^\d{4}-\d{4}$
+ *         description: Année académique
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
+ *     responses:
+ *       200:
+ *         description: Moyennes par UE
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/UnitAverage'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
  */
 
 import { Router } from 'express';
 import { statsController } from '../controllers/statsController';
 import { validate } from '../middleware/validate';
+import { authorize } from '../middleware/auth';
+import { STAFF_ROLES } from '../types/auth';
 import { z } from 'zod';
 
 const router = Router();
@@ -159,18 +243,27 @@ const academicYearSchema = z.object({
 
 router.get(
   '/global',
+  authorize(...STAFF_ROLES),
   validate(academicYearSchema),
   statsController.getGlobalStats
 );
 router.get(
   '/course/:courseId',
+  authorize(...STAFF_ROLES),
   validate(academicYearSchema),
   statsController.getCourseStats
 );
 router.get(
   '/student/:studentId',
+  authorize(...STAFF_ROLES),
   validate(academicYearSchema),
   statsController.getStudentSemesterStats
 );
+router.get(
+  '/student/:studentId/units',
+  authorize(...STAFF_ROLES),
+  validate(academicYearSchema),
+  statsController.getStudentUnitAverages
+);
 
 export const statsRoutes = router;
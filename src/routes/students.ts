@@ -31,6 +31,36 @@
  *         studentId:
  *           type: string
  *           description: Numéro d'étudiant unique
+ *         archivedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           readOnly: true
+ *           description: Date d'archivage, null si l'étudiant est actif
+ *     StudentImportReport:
+ *       type: object
+ *       properties:
+ *         dryRun:
+ *           type: boolean
+ *         total:
+ *           type: integer
+ *           description: Nombre de lignes lues
+ *         created:
+ *           type: integer
+ *         updated:
+ *           type: integer
+ *         errors:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               line:
+ *                 type: integer
+ *                 description: Numéro de ligne dans le fichier (en-tête = 1)
+ *               field:
+ *                 type: string
+ *               message:
+ *                 type: string
  */
 
 /**
@@ -41,17 +71,70 @@
  *     tags: [Students]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Page'
+ *       - $ref: '#/components/parameters/Limit'
+ *       - $ref: '#/components/parameters/Cursor'
+ *       - $ref: '#/components/parameters/Search'
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [lastName, -lastName, firstName, -firstName, email, -email, studentId, -studentId]
+ *           default: lastName
+ *         description: Champ de tri, préfixé par - pour un ordre décroissant
+ *       - in: query
+ *         name: lastName
+ *         schema:
+ *           type: string
+ *         description: Début du nom
+ *       - in: query
+ *         name: firstName
+ *         schema:
+ *           type: string
+ *         description: Début du prénom
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *         description: Début de l'email
+ *       - in: query
+ *         name: studentId
+ *         schema:
+ *           type: string
+ *         description: Numéro étudiant exact
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Inclut les étudiants archivés
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *       - $ref: '#/components/parameters/Decimal'
  *     responses:
  *       200:
  *         description: Liste des étudiants
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Student'
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Student'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *           text/csv:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               $ref: '#/components/schemas/SpreadsheetExport'
  *       401:
  *         description: Non authentifié
+ *       403:
+ *         description: Accès interdit
  *       500:
  *         description: Erreur serveur
  *
@@ -73,19 +156,323 @@
  *         description: Données invalides
  *       401:
  *         description: Non authentifié
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       409:
+ *         description: Email ou numéro étudiant déjà utilisé
  *       500:
  *         description: Erreur serveur
+ *
+ * /students/import:
+ *   post:
+ *     summary: Importe des étudiants depuis un fichier CSV
+ *     description: >
+ *       Chaque ligne est validée comme pour la création d'un étudiant. Les
+ *       en-têtes attendus sont firstName, lastName, email, dateOfBirth et
+ *       studentId, ou leurs équivalents français (prénom, nom, email, date
+ *       de naissance, numéro étudiant). Les dates peuvent être au format
+ *       AAAA-MM-JJ ou JJ/MM/AAAA. Un étudiant dont le numéro existe déjà est
+ *       mis à jour. L'import s'effectue dans une seule transaction : si une
+ *       ligne est invalide, aucune n'est importée et l'erreur 422 détaille
+ *       les lignes en cause. Utiliser dryRun=true pour valider le fichier
+ *       sans rien écrire.
+ *     tags: [Students]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: delimiter
+ *         schema:
+ *           type: string
+ *           enum: [',', ';', "\t", '|']
+ *         description: Séparateur de colonnes, détecté automatiquement par défaut
+ *       - in: query
+ *         name: encoding
+ *         schema:
+ *           type: string
+ *           enum: [utf8, latin1]
+ *           default: utf8
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Rapport d'import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StudentImportReport'
+ *       400:
+ *         description: Fichier CSV illisible ou colonnes manquantes
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       413:
+ *         description: Fichier CSV plus volumineux que CSV_IMPORT_MAX_SIZE (5 Mo par défaut)
+ *       415:
+ *         description: Le corps de la requête n'est pas un fichier CSV
+ *       422:
+ *         description: Lignes invalides, aucun étudiant importé
+ *
+ * /students/{id}:
+ *   get:
+ *     summary: Récupère un étudiant par son ID
+ *     tags: [Students]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Détails de l'étudiant
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Student'
+ *       404:
+ *         description: Étudiant non trouvé
+ *
+ *   put:
+ *     summary: Remplace les informations d'un étudiant
+ *     tags: [Students]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Student'
+ *     responses:
+ *       200:
+ *         description: Étudiant mis à jour
+ *       400:
+ *         description: Données invalides
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Étudiant non trouvé
+ *       409:
+ *         description: Email ou numéro étudiant déjà utilisé
+ *
+ *   patch:
+ *     summary: Modifie partiellement un étudiant
+ *     tags: [Students]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               dateOfBirth:
+ *                 type: string
+ *                 format: date
+ *               studentId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Étudiant mis à jour
+ *       400:
+ *         description: Données invalides ou aucune modification
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Étudiant non trouvé
+ *       409:
+ *         description: Email ou numéro étudiant déjà utilisé
+ *
+ *   delete:
+ *     summary: Supprime un étudiant
+ *     description: >
+ *       Si l'étudiant a des notes, la suppression est refusée (409) et le
+ *       nombre de notes concernées est renvoyé dans `details.gradesCount`.
+ *       Passer `cascade=true` pour supprimer l'étudiant et ses notes.
+ *       Préférer l'archivage pour conserver l'historique.
+ *     tags: [Students]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: cascade
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       204:
+ *         description: Étudiant supprimé
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Étudiant non trouvé
+ *       409:
+ *         description: L'étudiant a des notes
+ *
+ * /students/{id}/archive:
+ *   post:
+ *     summary: Archive un étudiant
+ *     description: >
+ *       L'étudiant n'apparaît plus dans la liste par défaut et ne peut plus
+ *       se connecter à son espace. Ses notes sont conservées.
+ *     tags: [Students]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Étudiant archivé
+ *       404:
+ *         description: Étudiant non trouvé
+ *
+ * /students/{id}/unarchive:
+ *   post:
+ *     summary: Restaure un étudiant archivé
+ *     tags: [Students]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Étudiant restauré
+ *       404:
+ *         description: Étudiant non trouvé
+ *
+ * /students/{id}/account/invite:
+ *   post:
+ *     summary: Invite un étudiant à activer son espace personnel
+ *     description: >
+ *       Envoie par email un lien d'activation permettant à l'étudiant de
+ *       définir son mot de passe. Une nouvelle invitation invalide la précédente.
+ *     tags: [Students]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       202:
+ *         description: Invitation envoyée
+ *       401:
+ *         description: Non authentifié
+ *       403:
+ *         description: Accès interdit (administrateur ou chef de département requis)
+ *       404:
+ *         description: Étudiant non trouvé
+ *       409:
+ *         description: Compte déjà activé
  */
 
 import { Router } from 'express';
 import { studentController } from '../controllers/studentController';
 import { validate } from '../middleware/validate';
-import { createStudentSchema } from '../schemas/student.schema';
+import { authorize } from '../middleware/auth';
+import { csvBody } from '../middleware/csvBody';
+import {
+  createStudentSchema,
+  studentListQuery,
+  updateStudentSchema,
+} from '../schemas/student.schema';
+import { MANAGER_ROLES, STAFF_ROLES } from '../types/auth';
 
 const router = Router();
 
-router.get('/', studentController.getAll);
-router.get('/:id', studentController.getById);
-router.post('/', validate(createStudentSchema), studentController.create);
+router.get(
+  '/',
+  authorize(...STAFF_ROLES),
+  validate(studentListQuery.schema),
+  studentController.getAll
+);
+router.get('/:id', authorize(...STAFF_ROLES), studentController.getById);
+router.post(
+  '/',
+  authorize(...MANAGER_ROLES),
+  validate(createStudentSchema),
+  studentController.create
+);
+router.post(
+  '/import',
+  authorize(...MANAGER_ROLES),
+  csvBody,
+  studentController.importCsv
+);
+router.put(
+  '/:id',
+  authorize(...MANAGER_ROLES),
+  validate(createStudentSchema),
+  studentController.update
+);
+router.patch(
+  '/:id',
+  authorize(...MANAGER_ROLES),
+  validate(updateStudentSchema),
+  studentController.update
+);
+router.delete('/:id', authorize(...MANAGER_ROLES), studentController.delete);
+router.post(
+  '/:id/archive',
+  authorize(...MANAGER_ROLES),
+  studentController.archive
+);
+router.post(
+  '/:id/unarchive',
+  authorize(...MANAGER_ROLES),
+  studentController.unarchive
+);
+router.post(
+  '/:id/account/invite',
+  authorize(...MANAGER_ROLES),
+  studentController.inviteAccount
+);
 
 export const studentRoutes = router;
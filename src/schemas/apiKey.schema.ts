@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { API_KEY_ROUTE_GROUPS } from '../types/auth';
+
+const scopeSchema = z.enum(
+  API_KEY_ROUTE_GROUPS.flatMap((group) => [
+    `${group}:read`,
+    `${group}:write`,
+  ]) as [string, ...string[]]
+);
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(2).max(100),
+  scopes: z.array(scopeSchema).min(1),
+  expiresAt: z.string().datetime().optional(),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+export const createAssessmentSchema = z.object({
+  name: z.string().min(1).max(100),
+  weight: z.number().positive().max(100),
+  maxScore: z.number().positive().max(100).default(20),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullable()
+    .optional(),
+});
+
+export type CreateAssessmentInput = z.infer<typeof createAssessmentSchema>;
+
+export const updateAssessmentSchema = createAssessmentSchema.partial();
+
+export type UpdateAssessmentInput = z.infer<typeof updateAssessmentSchema>;
+
+/** Une note à null supprime la note de l'étudiant pour cette évaluation */
+export const saveAssessmentMarksSchema = z.object({
+  marks: z
+    .array(
+      z.object({
+        studentId: z.number().int().positive(),
+        score: z.number().min(0).nullable(),
+      })
+    )
+    .min(1)
+    .max(1000),
+});
+
+export type SaveAssessmentMarksInput = z.infer<
+  typeof saveAssessmentMarksSchema
+>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { passwordSchema } from './professor.schema';
 
 export const loginSchema = z.object({
   email: z.string().email(),
@@ -6,3 +7,69 @@ export const loginSchema = z.object({
 });
 
 export type LoginInput = z.infer<typeof loginSchema>;
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+
+const totpCodeSchema = z.string().regex(/^\d{6}$/);
+
+export const challengeSchema = z.object({
+  challengeToken: z.string().min(1),
+});
+
+export type ChallengeInput = z.infer<typeof challengeSchema>;
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+
+// Un code TOTP ou, à défaut, un code de récupération
+export const twoFactorLoginSchema = challengeSchema.extend({
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().min(1).optional(),
+});
+
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
+
+export const enableTwoFactorWithChallengeSchema =
+  challengeSchema.merge(twoFactorCodeSchema);
+
+export const activateStudentAccountSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+export type ActivateStudentAccountInput = z.infer<
+  typeof activateStudentAccountSchema
+>;
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1),
+});
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>;
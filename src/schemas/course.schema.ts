@@ -1,10 +1,35 @@
 import { z } from 'zod';
+import { defineListQuery } from './listQuery.schema';
+
+export const COURSE_TYPES = ['resource', 'sae'] as const;
 
 export const createCourseSchema = z.object({
   code: z.string().min(2).max(20),
   name: z.string().min(2).max(255),
   credits: z.number().int().min(1).max(60),
   description: z.string().optional(),
+  type: z.enum(COURSE_TYPES).optional(),
 });
 
 export type CreateCourseInput = z.infer<typeof createCourseSchema>;
+
+export const courseListQuery = defineListQuery({
+  sortFields: {
+    code: 'code',
+    name: 'name',
+    credits: 'credits',
+  },
+  defaultSort: 'code',
+  idColumn: 'id',
+  filters: {
+    code: { column: 'code', match: 'prefix' },
+    name: { column: 'name', match: 'prefix' },
+    type: { column: 'type', match: 'exact', schema: z.enum(COURSE_TYPES) },
+    credits: {
+      column: 'credits',
+      match: 'exact',
+      schema: z.string().regex(/^\d+$/),
+    },
+  },
+  search: `search_normalize(code || ' ' || name)`,
+});
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const COURSE_ASSIGNMENT_ROLES = ['responsible', 'contributor'] as const;
+
+export const createCourseAssignmentSchema = z.object({
+  professorId: z.number().int().positive(),
+  academicYear: z.string().regex(/^\d{4}-\d{4}$/),
+  role: z.enum(COURSE_ASSIGNMENT_ROLES).default('contributor'),
+});
+
+export type CreateCourseAssignmentInput = z.infer<
+  typeof createCourseAssignmentSchema
+>;
+
+export const courseAssignmentQuerySchema = z.object({
+  academicYear: z
+    .string()
+    .regex(/^\d{4}-\d{4}$/)
+    .optional(),
+});
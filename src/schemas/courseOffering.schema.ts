@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { createGradeSchema } from './grade.schema';
+
+/**
+ * Note retenue lorsqu'un étudiant passe le rattrapage : replace (la note de
+ * rattrapage remplace), best (meilleure des deux), capped (rattrapage plafonné à 10)
+ */
+export const RESIT_POLICIES = ['replace', 'best', 'capped'] as const;
+
+/**
+ * Publication des notes d'une offre de cours : draft (saisie en cours),
+ * submitted (saisie terminée), published (visibles des étudiants), locked
+ * (figées après le jury)
+ */
+export const OFFERING_STATUSES = [
+  'draft',
+  'submitted',
+  'published',
+  'locked',
+] as const;
+
+export const createCourseOfferingSchema = z.object({
+  semester: createGradeSchema.shape.semester,
+  academicYear: createGradeSchema.shape.academicYear,
+  resitPolicy: z.enum(RESIT_POLICIES).optional(),
+});
+
+export type CreateCourseOfferingInput = z.infer<
+  typeof createCourseOfferingSchema
+>;
+
+export const courseOfferingQuerySchema = z.object({
+  academicYear: createGradeSchema.shape.academicYear.optional(),
+});
+
+export const updateCourseOfferingSchema = z.object({
+  resitPolicy: z.enum(RESIT_POLICIES).optional(),
+  /** Dernier jour de saisie des notes ; null supprime la date limite */
+  gradeDeadline: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullable()
+    .optional(),
+});
+
+export type UpdateCourseOfferingInput = z.infer<
+  typeof updateCourseOfferingSchema
+>;
+
+export const unlockOfferingSchema = z.object({
+  justification: z.string().trim().min(10).max(2000),
+});
+
+export type UnlockOfferingInput = z.infer<typeof unlockOfferingSchema>;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+export const CSV_ENCODINGS = ['utf8', 'latin1'] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+export type CsvEncoding = (typeof CSV_ENCODINGS)[number];
+
+/**
+ * Paramètres communs aux imports CSV, passés dans la query string car le
+ * corps de la requête contient le fichier.
+ */
+export const csvImportQuerySchema = z.object({
+  delimiter: z.enum(CSV_DELIMITERS).optional(),
+  encoding: z.enum(CSV_ENCODINGS).default('utf8'),
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+});
+
+export type CsvImportQueryInput = z.infer<typeof csvImportQuerySchema>;
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { createGradeSchema } from './grade.schema';
+
+export const createCompetenceSchema = z.object({
+  code: z.string().min(1).max(20),
+  name: z.string().min(2).max(255),
+  description: z.string().optional(),
+});
+
+export type CreateCompetenceInput = z.infer<typeof createCompetenceSchema>;
+
+export const createTeachingUnitSchema = z.object({
+  code: z.string().min(1).max(20),
+  name: z.string().min(2).max(255),
+  competenceId: z.number().int().positive(),
+  semester: createGradeSchema.shape.semester,
+  credits: z.number().int().min(1).max(60),
+});
+
+export type CreateTeachingUnitInput = z.infer<typeof createTeachingUnitSchema>;
+
+export const teachingUnitQuerySchema = z.object({
+  semester: createGradeSchema.shape.semester.optional(),
+});
+
+export const courseUnitSchema = z.object({
+  coefficient: z.number().positive().max(999),
+});
+
+export type CourseUnitInput = z.infer<typeof courseUnitSchema>;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const updateDepartmentSettingsSchema = z.object({
+  requireTwoFactor: z.boolean(),
+});
+
+export type UpdateDepartmentSettingsInput = z.infer<
+  typeof updateDepartmentSettingsSchema
+>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     ExportFormat:
+ *       in: query
+ *       name: format
+ *       schema:
+ *         type: string
+ *         enum: [json, csv, xlsx]
+ *       description: >
+ *         Format de la réponse. À défaut, il est déduit de l'en-tête Accept
+ *         (text/csv ou application/vnd.openxmlformats-officedocument.spreadsheetml.sheet).
+ *         Les exports CSV et XLSX contiennent toutes les lignes, sans pagination.
+ *     Decimal:
+ *       in: query
+ *       name: decimal
+ *       schema:
+ *         type: string
+ *         enum: [point, comma]
+ *         default: point
+ *       description: >
+ *         Séparateur décimal des exports CSV. Avec comma, les colonnes sont
+ *         séparées par des points-virgules, comme dans un tableur français.
+ *   schemas:
+ *     SpreadsheetExport:
+ *       type: string
+ *       format: binary
+ *       description: Fichier CSV (UTF-8) ou XLSX, envoyé en pièce jointe
+ */
+
+export const EXPORT_FORMATS = ['json', 'csv', 'xlsx'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).optional(),
+  decimal: z.enum(['point', 'comma']).default('point'),
+});
+
+export type ExportQueryInput = z.infer<typeof exportQuerySchema>;
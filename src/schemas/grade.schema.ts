@@ -1,15 +1,104 @@
 import { z } from 'zod';
+import { defineListQuery } from './listQuery.schema';
+import { csvImportQuerySchema } from './csvImport.schema';
 
-export const createGradeSchema = z.object({
+/** Première session ou session de rattrapage */
+export const GRADE_SESSIONS = ['first', 'resit'] as const;
+
+/**
+ * Codes saisis à la place d'une note : ABS (absence injustifiée), ABJ
+ * (absence justifiée), DISP (dispense), EN ATTENTE (note non encore connue)
+ */
+export const SPECIAL_GRADE_CODES = ['ABS', 'ABJ', 'DISP', 'EN ATTENTE'] as const;
+
+/** Motif d'une saisie, d'une modification ou d'une suppression, conservé dans l'historique */
+export const gradeReasonSchema = z.string().trim().max(500);
+
+/** Une note ou un code spécial, l'un excluant l'autre (voir GradeService.toGradeValue) */
+export const updateGradeSchema = z.object({
+  grade: z.number().min(0).max(20).optional(),
+  specialCode: z.enum(SPECIAL_GRADE_CODES).optional(),
+  reason: gradeReasonSchema.optional(),
+});
+
+export type UpdateGradeInput = z.infer<typeof updateGradeSchema>;
+
+export const deleteGradeQuerySchema = z.object({
+  reason: gradeReasonSchema.optional(),
+});
+
+export const createGradeSchema = updateGradeSchema.extend({
   studentId: z.number().int().positive(),
   courseId: z.number().int().positive(),
-  grade: z.number().min(0).max(20),
-  semester: z.string().regex(/^S[1-10]$/),
+  semester: z.string().regex(/^S([1-9]|10)$/),
   academicYear: z.string().regex(/^\d{4}-\d{4}$/),
+  session: z.enum(GRADE_SESSIONS).optional(),
+  /** Remplace la note existante de la même session au lieu de renvoyer un 409 */
+  upsert: z.boolean().optional(),
 });
 
 export type CreateGradeInput = z.infer<typeof createGradeSchema>;
 
+export const missingGradesQuerySchema = z.object({
+  academicYear: createGradeSchema.shape.academicYear.optional(),
+  semester: createGradeSchema.shape.semester.optional(),
+});
+
+/** Le fichier ne contient que les notes : le cours et la session sont communs */
+export const gradeImportQuerySchema = csvImportQuerySchema.extend({
+  courseId: z.coerce.number().int().positive(),
+  semester: createGradeSchema.shape.semester,
+  academicYear: createGradeSchema.shape.academicYear,
+  session: z.enum(GRADE_SESSIONS).default('first'),
+});
+
+export type GradeImportQueryInput = z.infer<typeof gradeImportQuerySchema>;
+
 export const transcriptSchema = z.object({
   academicYear: z.string().regex(/^\d{4}-\d{4}$/),
+  /** Détaille les notes d'évaluation sous chaque cours */
+  breakdown: z.enum(['true', 'false']).optional(),
+});
+
+export const gradeListQuery = defineListQuery({
+  sortFields: {
+    academicYear: 'g.academic_year',
+    semester: 'g.semester',
+    // Les codes spéciaux, sans note, sont classés sous toutes les notes
+    grade: 'COALESCE(g.grade, -1)',
+    courseCode: 'c.code',
+    studentLastName: 's.last_name',
+  },
+  defaultSort: '-academicYear',
+  idColumn: 'g.id',
+  filters: {
+    academicYear: {
+      column: 'g.academic_year',
+      match: 'exact',
+      schema: z.string().regex(/^\d{4}-\d{4}$/),
+    },
+    semester: { column: 'g.semester', match: 'exact' },
+    session: {
+      column: 'g.session',
+      match: 'exact',
+      schema: z.enum(GRADE_SESSIONS),
+    },
+    specialCode: {
+      column: 'g.special_code',
+      match: 'exact',
+      schema: z.enum(SPECIAL_GRADE_CODES),
+    },
+    courseCode: { column: 'c.code', match: 'exact' },
+    courseId: {
+      column: 'g.course_id',
+      match: 'exact',
+      schema: z.string().regex(/^\d+$/),
+    },
+    studentId: {
+      column: 'g.student_id',
+      match: 'exact',
+      schema: z.string().regex(/^\d+$/),
+    },
+    studentLastName: { column: 's.last_name', match: 'prefix' },
+  },
 });
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { defineListQuery } from './listQuery.schema';
+
+export const GRADE_AUDIT_ACTIONS = ['create', 'update', 'delete'] as const;
+
+const idSchema = z.string().regex(/^\d+$/);
+
+/** Accepte une date (AAAA-MM-JJ) ou un horodatage ISO 8601 */
+const timestampSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/);
+
+export const gradeAuditListQuery = defineListQuery({
+  sortFields: {
+    // Les entrées d'une même transaction partagent leur horodatage, que le
+    // curseur ne conserve qu'à la milliseconde : l'identifiant, croissant,
+    // donne le même ordre sans égalité
+    createdAt: 'a.id',
+  },
+  defaultSort: '-createdAt',
+  idColumn: 'a.id',
+  filters: {
+    gradeId: { column: 'a.grade_id', match: 'exact', schema: idSchema },
+    studentId: { column: 'a.student_id', match: 'exact', schema: idSchema },
+    courseId: { column: 'a.course_id', match: 'exact', schema: idSchema },
+    professorId: { column: 'a.professor_id', match: 'exact', schema: idSchema },
+    apiKeyId: { column: 'a.api_key_id', match: 'exact', schema: idSchema },
+    action: {
+      column: 'a.action',
+      match: 'exact',
+      schema: z.enum(GRADE_AUDIT_ACTIONS),
+    },
+    academicYear: {
+      column: 'a.academic_year',
+      match: 'exact',
+      schema: z.string().regex(/^\d{4}-\d{4}$/),
+    },
+    ip: { column: 'a.ip', match: 'exact' },
+    from: { column: 'a.created_at', match: 'min', schema: timestampSchema },
+    to: { column: 'a.created_at', match: 'max', schema: timestampSchema },
+  },
+});
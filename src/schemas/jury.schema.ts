@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { createGradeSchema } from './grade.schema';
+
+/**
+ * ADM : admis, AJ : ajourné, ADJ : admis par décision du jury,
+ * CMP : validé par compensation
+ */
+export const JURY_DECISIONS = ['ADM', 'AJ', 'ADJ', 'CMP'] as const;
+
+export const juryYearQuerySchema = z.object({
+  academicYear: createGradeSchema.shape.academicYear,
+});
+
+export const juryRulesSchema = z.object({
+  academicYear: createGradeSchema.shape.academicYear,
+  passingAverage: z.number().min(0).max(20),
+  /** En dessous, une UE ne peut pas être compensée */
+  eliminatoryAverage: z.number().min(0).max(20),
+  compensation: z.boolean(),
+  /** Nombre d'UE non validées tolérées pour passer dans l'année suivante */
+  maxFailedUnits: z.number().int().min(0).max(30),
+});
+
+export type JuryRulesInput = z.infer<typeof juryRulesSchema>;
+
+export const juryCohortQuerySchema = juryYearQuerySchema.extend({
+  semester: createGradeSchema.shape.semester.optional(),
+});
+
+export const juryDecisionScopeSchema = juryYearQuerySchema.extend({
+  semester: createGradeSchema.shape.semester,
+});
+
+export const juryDecisionSchema = juryDecisionScopeSchema.extend({
+  decision: z.enum(JURY_DECISIONS),
+  justification: z.string().trim().min(10).max(2000),
+});
+
+export type JuryDecisionInput = z.infer<typeof juryDecisionSchema>;
@@ -0,0 +1,134 @@
+import { AnyZodObject, z, ZodRawShape, ZodTypeAny } from 'zod';
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     Page:
+ *       in: query
+ *       name: page
+ *       schema:
+ *         type: integer
+ *         minimum: 1
+ *         default: 1
+ *       description: Numéro de page (incompatible avec cursor)
+ *     Limit:
+ *       in: query
+ *       name: limit
+ *       schema:
+ *         type: integer
+ *         minimum: 1
+ *         maximum: 100
+ *         default: 20
+ *     Cursor:
+ *       in: query
+ *       name: cursor
+ *       schema:
+ *         type: string
+ *       description: Curseur opaque renvoyé dans pagination.nextCursor
+ *     Search:
+ *       in: query
+ *       name: q
+ *       schema:
+ *         type: string
+ *         minLength: 2
+ *       description: >
+ *         Recherche insensible à la casse et aux accents. Sans paramètre
+ *         sort, les résultats sont classés par pertinence et seule la
+ *         pagination par page est disponible.
+ *   schemas:
+ *     Pagination:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *           description: Nombre total d'éléments correspondant aux filtres
+ *         limit:
+ *           type: integer
+ *         page:
+ *           type: integer
+ *           nullable: true
+ *         nextCursor:
+ *           type: string
+ *           nullable: true
+ *         next:
+ *           type: string
+ *           nullable: true
+ *           description: Lien vers la page suivante, null sur la dernière page
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const searchTermSchema = z.string().trim().min(2).max(100);
+
+export interface ListFilter {
+  column: string;
+  /**
+   * exact : égalité stricte ; prefix : début de valeur, insensible à la
+   * casse ; min et max : borne inférieure ou supérieure incluse
+   */
+  match: 'exact' | 'prefix' | 'min' | 'max';
+  schema?: ZodTypeAny;
+}
+
+export interface ListQueryOptions {
+  /**
+   * Champs triables exposés dans `sort`, associés à leur expression SQL.
+   * Elle doit être non nulle pour que le curseur puisse la comparer : une
+   * colonne facultative est triée via COALESCE.
+   */
+  sortFields: Record<string, string>;
+  /** Tri par défaut, préfixé par `-` pour un ordre décroissant */
+  defaultSort: string;
+  /** Colonne départageant les égalités de tri, utilisée par les curseurs */
+  idColumn: string;
+  filters: Record<string, ListFilter>;
+  /** Expression SQL normalisée par search_normalize() ciblée par `q` */
+  search?: string;
+  /** Paramètres supplémentaires propres à la ressource */
+  extra?: ZodRawShape;
+}
+
+/**
+ * Construit le schéma zod d'une liste paginée : `page` ou `cursor`,
+ * `limit`, `sort` et les filtres de la ressource.
+ */
+export type ListQueryDefinition = ListQueryOptions & { schema: AnyZodObject };
+
+export const defineListQuery = (
+  options: ListQueryOptions
+): ListQueryDefinition => {
+  const sortValues = Object.keys(options.sortFields).flatMap((field) => [
+    field,
+    `-${field}`,
+  ]);
+
+  const schema = z.object({
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+    cursor: z.string().min(1).optional(),
+    sort: z.enum(sortValues as [string, ...string[]]).optional(),
+    ...(options.search && { q: searchTermSchema.optional() }),
+    ...Object.fromEntries(
+      Object.entries(options.filters).map(([name, filter]) => [
+        name,
+        (filter.schema ?? z.string().min(1).max(255)).optional(),
+      ])
+    ),
+    ...options.extra,
+  });
+
+  return { ...options, schema };
+};
+
+export interface Paginated<T> {
+  data: T[];
+  pagination: {
+    total: number;
+    limit: number;
+    page: number | null;
+    nextCursor: string | null;
+    next: string | null;
+  };
+}
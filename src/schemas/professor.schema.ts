@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { defineListQuery } from './listQuery.schema';
+
+const staffRoleSchema = z.enum(['admin', 'department_head', 'professor']);
+
+export const passwordSchema = z.string().min(8).max(128);
+
+export const createProfessorSchema = z.object({
+  firstName: z.string().min(2).max(100),
+  lastName: z.string().min(2).max(100),
+  email: z.string().email().max(255),
+  department: z.string().min(2).max(100),
+  role: staffRoleSchema.default('professor'),
+  password: passwordSchema,
+});
+
+export type CreateProfessorInput = z.infer<typeof createProfessorSchema>;
+
+export const updateProfessorSchema = z
+  .object({
+    firstName: z.string().min(2).max(100),
+    lastName: z.string().min(2).max(100),
+    email: z.string().email().max(255),
+    department: z.string().min(2).max(100),
+    role: staffRoleSchema,
+    isActive: z.boolean(),
+  })
+  .partial();
+
+export type UpdateProfessorInput = z.infer<typeof updateProfessorSchema>;
+
+export const professorListQuery = defineListQuery({
+  sortFields: {
+    lastName: 'last_name',
+    firstName: 'first_name',
+    department: 'department',
+  },
+  defaultSort: 'lastName',
+  idColumn: 'id',
+  filters: {
+    lastName: { column: 'last_name', match: 'prefix' },
+    department: { column: 'department', match: 'exact' },
+    role: { column: 'role', match: 'exact', schema: staffRoleSchema },
+    isActive: {
+      column: 'is_active',
+      match: 'exact',
+      schema: z.enum(['true', 'false']),
+    },
+  },
+});
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { searchTermSchema } from './listQuery.schema';
+
+export const searchQuerySchema = z.object({
+  q: searchTermSchema,
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+export type SearchQueryInput = z.infer<typeof searchQuerySchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { defineListQuery } from './listQuery.schema';
 
 export const createStudentSchema = z.object({
   firstName: z.string().min(2).max(100),
@@ -9,3 +10,28 @@ export const createStudentSchema = z.object({
 });
 
 export type CreateStudentInput = z.infer<typeof createStudentSchema>;
+
+export const updateStudentSchema = createStudentSchema.partial();
+
+export type UpdateStudentInput = z.infer<typeof updateStudentSchema>;
+
+export const studentListQuery = defineListQuery({
+  sortFields: {
+    lastName: 'last_name',
+    firstName: 'first_name',
+    email: 'email',
+    studentId: 'student_id',
+  },
+  defaultSort: 'lastName',
+  idColumn: 'id',
+  filters: {
+    lastName: { column: 'last_name', match: 'prefix' },
+    firstName: { column: 'first_name', match: 'prefix' },
+    email: { column: 'email', match: 'prefix' },
+    studentId: { column: 'student_id', match: 'exact' },
+  },
+  search: `search_normalize(first_name || ' ' || last_name || ' ' || email || ' ' || student_id)`,
+  extra: {
+    includeArchived: z.enum(['true', 'false']).optional(),
+  },
+});
@@ -1,6 +1,6 @@
-import bcrypt from 'bcryptjs';
+import { PasswordService } from '../services/passwordService';
 
 const password = 'password123';
-bcrypt.hash(password, 10).then((hash) => {
+PasswordService.hash(password).then((hash) => {
   console.log('Hash pour password123:', hash);
 });
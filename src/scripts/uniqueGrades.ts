@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { withTransaction } from '../config/database';
+import { GradeService } from '../services/gradeService';
+import { GradeAuditService } from '../services/gradeAuditService';
+import { logger } from '../services/loggerService';
+
+const CONSTRAINT_NAME = 'grades_unique_session';
+
+async function hasConstraint(client: PoolClient): Promise<boolean> {
+  const result = await client.query(
+    'SELECT 1 FROM pg_constraint WHERE conname = $1',
+    [CONSTRAINT_NAME]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Met à niveau le schéma d'une base créée avant les colonnes sur lesquelles
+ * portent la contrainte et l'historique des notes (session, code spécial,
+ * version...) : upgrade.sql les ajoute, puis init.sql, idempotent, crée les
+ * tables, vues et triggers manquants.
+ */
+async function upgradeSchema(client: PoolClient): Promise<void> {
+  for (const file of ['upgrade.sql', 'init.sql']) {
+    await client.query(
+      fs.readFileSync(path.join(__dirname, '../../db', file), 'utf8')
+    );
+  }
+}
+
+/**
+ * Ajoute la contrainte d'unicité des notes aux bases créées avant elle,
+ * après avoir mis leur schéma à niveau. Les doublons existants sont listés ;
+ * sans --keep-latest, la migration s'arrête pour qu'ils soient corrigés à la
+ * main. Avec --keep-latest, seule la dernière note saisie de chaque doublon
+ * est conservée et les suppressions sont tracées dans l'historique.
+ */
+async function addGradeUniqueness(keepLatest: boolean): Promise<void> {
+  await withTransaction(async (client) => {
+    await upgradeSchema(client);
+
+    if (await hasConstraint(client)) {
+      logger.info(`Constraint ${CONSTRAINT_NAME} already exists, skipping`);
+      return;
+    }
+
+    // Aucune note ne doit être saisie entre la détection et la contrainte
+    await client.query('LOCK TABLE grades IN SHARE ROW EXCLUSIVE MODE');
+
+    const duplicates = await GradeService.findDuplicates(client);
+    for (const duplicate of duplicates) {
+      logger.warn('Duplicate grades found', duplicate);
+    }
+
+    if (duplicates.length > 0) {
+      if (!keepLatest) {
+        throw new Error(
+          `${duplicates.length} duplicate grade group(s) found: fix them or rerun with --keep-latest`
+        );
+      }
+
+      const removed = duplicates.flatMap(({ gradeIds }) => gradeIds.slice(0, -1));
+      await GradeAuditService.setContext(client, {
+        professorId: null,
+        apiKeyId: null,
+        ip: null,
+        reason: "Doublon supprimé avant l'ajout de la contrainte d'unicité des notes",
+      });
+      await client.query('DELETE FROM grades WHERE id = ANY($1)', [removed]);
+      logger.info(`Removed ${removed.length} duplicate grade(s)`);
+    }
+
+    await client.query(`
+      ALTER TABLE grades
+      ADD CONSTRAINT ${CONSTRAINT_NAME} UNIQUE (student_id, course_id, semester, academic_year, session)
+    `);
+    logger.info(`Constraint ${CONSTRAINT_NAME} added`);
+  });
+}
+
+if (require.main === module) {
+  addGradeUniqueness(process.argv.includes('--keep-latest'))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      logger.error('Grade uniqueness migration failed:', error);
+      process.exit(1);
+    });
+}
+
+export { addGradeUniqueness };
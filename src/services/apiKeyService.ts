@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import { pool } from '../config/database';
+import {
+  API_KEY_ROUTE_GROUPS,
+  ApiKeyPrincipal,
+  ApiKeyRouteGroup,
+  ApiKeyScope,
+} from '../types/auth';
+import { TokenService } from './tokenService';
+
+const KEY_PREFIX = 'iutk';
+
+export class ApiKeyService {
+  /**
+   * Génère une clé de la forme iutk_<préfixe>_<secret>. Seul le hash est
+   * stocké ; le préfixe permet d'identifier la clé dans les listes.
+   */
+  static generate(): { key: string; prefix: string; keyHash: string } {
+    const prefix = crypto.randomBytes(4).toString('hex');
+    const secret = crypto.randomBytes(24).toString('base64url');
+    const key = `${KEY_PREFIX}_${prefix}_${secret}`;
+
+    return { key, prefix, keyHash: TokenService.hashToken(key) };
+  }
+
+  /**
+   * Retourne la clé correspondante si elle est active, et enregistre sa
+   * date de dernière utilisation.
+   */
+  static async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const result = await pool.query(
+      `
+      UPDATE api_keys
+      SET last_used_at = NOW()
+      WHERE key_hash = $1
+        AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW())
+      RETURNING id, name, scopes
+    `,
+      [TokenService.hashToken(key)]
+    );
+
+    return result.rows[0] ?? null;
+  }
+
+  static getRouteGroup(baseUrl: string): ApiKeyRouteGroup | null {
+    const group = baseUrl.replace(/^\/api\//, '').split('/')[0];
+    return (API_KEY_ROUTE_GROUPS as readonly string[]).includes(group)
+      ? (group as ApiKeyRouteGroup)
+      : null;
+  }
+
+  static isAllowed(
+    scopes: ApiKeyScope[],
+    baseUrl: string,
+    method: string
+  ): boolean {
+    const group = this.getRouteGroup(baseUrl);
+    if (!group) return false;
+
+    if (scopes.includes(`${group}:write`)) return true;
+    return (
+      ['GET', 'HEAD'].includes(method.toUpperCase()) &&
+      scopes.includes(`${group}:read`)
+    );
+  }
+}
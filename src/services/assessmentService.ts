@@ -0,0 +1,121 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../config/database';
+import { CourseOffering } from './courseOfferingService';
+import { AssessmentResult } from './pdfService';
+
+export interface StudentAssessmentMark extends AssessmentResult {
+  courseCode: string;
+  semester: string;
+}
+
+export const ASSESSMENT_COLUMNS = `
+  a.id,
+  a.offering_id as "offeringId",
+  a.name,
+  a.weight::float as "weight",
+  a.max_score::float as "maxScore",
+  a.assessment_date as "date"
+`;
+
+export class AssessmentService {
+  /**
+   * Recalcule la note de cours des étudiants à partir de leurs notes
+   * d'évaluation : moyenne pondérée ramenée sur 20 des évaluations. Tant
+   * qu'une évaluation de l'offre n'est pas notée pour un étudiant, sa note
+   * de cours est EN ATTENTE plutôt qu'une moyenne des seules notes saisies.
+   * La note est créée, mise à jour ou supprimée dans `grades`, où les
+   * relevés et statistiques la lisent comme une note saisie. Sans liste
+   * d'étudiants, tous ceux concernés par l'offre de cours sont recalculés.
+   * Seule la note de première session est calculée ; celle du rattrapage
+   * reste saisie directement. Une note ou un code saisi avant la création
+   * des évaluations est remplacé par la note calculée.
+   */
+  static async recomputeGrades(
+    db: Pool | PoolClient,
+    offering: CourseOffering,
+    studentIds?: number[]
+  ): Promise<void> {
+    const scope = [offering.courseId, offering.semester, offering.academicYear];
+
+    const targets =
+      studentIds ??
+      (
+        await db.query(
+          `
+          SELECT m.student_id as "studentId"
+          FROM assessment_marks m
+          JOIN assessments a ON a.id = m.assessment_id
+          WHERE a.offering_id = $1
+          UNION
+          SELECT student_id
+          FROM grades
+          WHERE is_computed AND course_id = $2 AND semester = $3 AND academic_year = $4
+        `,
+          [offering.id, ...scope]
+        )
+      ).rows.map((row) => row.studentId);
+
+    if (targets.length === 0) return;
+
+    await db.query(
+      `
+      WITH computed AS (
+        SELECT m.student_id,
+               CASE WHEN COUNT(*) = (SELECT COUNT(*) FROM assessments WHERE offering_id = $1)
+                 THEN ROUND(SUM(m.score / a.max_score * 20 * a.weight) / SUM(a.weight), 2)
+               END AS grade
+        FROM assessment_marks m
+        JOIN assessments a ON a.id = m.assessment_id
+        WHERE a.offering_id = $1 AND m.student_id = ANY($5)
+        GROUP BY m.student_id
+      ),
+      removed AS (
+        DELETE FROM grades g
+        WHERE g.is_computed
+          AND g.course_id = $2 AND g.semester = $3 AND g.academic_year = $4
+          AND g.session = 'first'
+          AND g.student_id = ANY($5)
+          AND g.student_id NOT IN (SELECT student_id FROM computed)
+      ),
+      updated AS (
+        UPDATE grades g
+        SET grade = c.grade,
+            special_code = CASE WHEN c.grade IS NULL THEN 'EN ATTENTE' END,
+            is_computed = TRUE
+        FROM computed c
+        WHERE g.student_id = c.student_id
+          AND g.course_id = $2 AND g.semester = $3 AND g.academic_year = $4
+          AND g.session = 'first'
+        RETURNING g.student_id
+      )
+      INSERT INTO grades (student_id, course_id, grade, special_code, semester, academic_year, is_computed)
+      SELECT c.student_id, $2, c.grade, CASE WHEN c.grade IS NULL THEN 'EN ATTENTE' END, $3, $4, TRUE
+      FROM computed c
+      WHERE c.student_id NOT IN (SELECT student_id FROM updated)
+    `,
+      [offering.id, ...scope, targets]
+    );
+  }
+
+  /** Notes d'évaluation d'un étudiant pour une année, pour le détail du relevé */
+  static async findStudentMarks(
+    studentId: number,
+    academicYear: string
+  ): Promise<StudentAssessmentMark[]> {
+    const result = await pool.query(
+      `
+      SELECT c.code as "courseCode", o.semester, a.name,
+             a.weight::float as "weight", a.max_score::float as "maxScore",
+             m.score::float as "score"
+      FROM assessment_marks m
+      JOIN assessments a ON a.id = m.assessment_id
+      JOIN course_offerings o ON o.id = a.offering_id
+      JOIN courses c ON c.id = o.course_id
+      WHERE m.student_id = $1 AND o.academic_year = $2
+      ORDER BY a.assessment_date NULLS LAST, a.id
+    `,
+      [studentId, academicYear]
+    );
+    return result.rows;
+  }
+}
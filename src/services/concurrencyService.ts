@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import { AppError } from '../types/error';
+
+/** Valeur d'un en-tête If-Match : "3" ou W/"3" */
+const ENTITY_TAG = /^(?:W\/)?"(\d+)"$/;
+
+/**
+ * Contrôle de concurrence optimiste : la version d'une ligne, incrémentée
+ * par trigger à chaque modification, est exposée comme ETag et doit être
+ * renvoyée dans If-Match pour la modifier. Les requêtes comparent la version
+ * avec `($n::int IS NULL OR version = $n)`.
+ */
+export class ConcurrencyService {
+  static etag(version: number): string {
+    return `"${version}"`;
+  }
+
+  static setETag(res: Response, version: number): void {
+    res.setHeader('ETag', this.etag(version));
+  }
+
+  /**
+   * Version attendue par le client, ou null pour `If-Match: *`, qui accepte
+   * toute version d'une ligne existante. Une valeur illisible est ramenée à
+   * la version 0, qu'aucune ligne ne porte : la modification échouera avec
+   * un 412.
+   */
+  static expectedVersion(req: Request): number | null {
+    const ifMatch = req.get('If-Match');
+    if (!ifMatch) {
+      throw new AppError(
+        428,
+        "L'en-tête If-Match est requis pour modifier cette ressource",
+        'PRECONDITION_REQUIRED'
+      );
+    }
+
+    const value = ifMatch.trim();
+    if (value === '*') return null;
+
+    const match = ENTITY_TAG.exec(value);
+    return match ? Number(match[1]) : 0;
+  }
+
+  /** La ressource a été modifiée depuis sa lecture : renvoie son état courant */
+  static conflictError(
+    res: Response,
+    current: { version: number }
+  ): AppError {
+    this.setETag(res, current.version);
+    return new AppError(
+      412,
+      'La ressource a été modifiée entre-temps : rechargez-la avant de la modifier',
+      'PRECONDITION_FAILED',
+      current
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { pool } from '../config/database';
+import { JWTPayload, MANAGER_ROLES } from '../types/auth';
+import { AppError } from '../types/error';
+
+export class CourseAccessService {
+  static async isAssigned(
+    professorId: number,
+    courseId: number,
+    academicYear: string
+  ): Promise<boolean> {
+    const result = await pool.query(
+      `
+      SELECT 1
+      FROM course_assignments
+      WHERE professor_id = $1 AND course_id = $2 AND academic_year = $3
+    `,
+      [professorId, courseId, academicYear]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Seuls les enseignants affectés au cours pour l'année universitaire
+   * peuvent modifier ses notes. Les administrateurs et chefs de département
+   * conservent un droit de modification sur tous les cours. Les clés API
+   * (sans utilisateur) sont déjà limitées par leurs scopes.
+   */
+  static async assertCanManageGrades(
+    user: JWTPayload | undefined,
+    courseId: number,
+    academicYear: string
+  ): Promise<void> {
+    if (!user || MANAGER_ROLES.includes(user.role)) return;
+
+    if (!(await this.isAssigned(user.id, courseId, academicYear))) {
+      throw new AppError(
+        403,
+        "Vous n'enseignez pas ce cours pour cette année universitaire",
+        'COURSE_NOT_ASSIGNED'
+      );
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { pool, withTransaction } from '../config/database';
+import { AppError } from '../types/error';
+import { JWTPayload, MANAGER_ROLES } from '../types/auth';
+import {
+  OFFERING_STATUSES,
+  RESIT_POLICIES,
+} from '../schemas/courseOffering.schema';
+
+export type ResitPolicy = (typeof RESIT_POLICIES)[number];
+
+export type OfferingStatus = (typeof OFFERING_STATUSES)[number];
+
+export interface CourseOffering {
+  id: number;
+  courseId: number;
+  semester: string;
+  academicYear: string;
+  resitPolicy: ResitPolicy;
+  status: OfferingStatus;
+  gradeDeadline: Date | null;
+  pastDeadline: boolean | null;
+}
+
+/** État d'une offre déterminant si ses notes peuvent encore être modifiées */
+export interface OfferingWriteState {
+  status: OfferingStatus | null;
+  pastDeadline: boolean | null;
+}
+
+export interface OfferingStatusChange {
+  id: number;
+  fromStatus: OfferingStatus;
+  toStatus: OfferingStatus;
+  justification: string | null;
+  changedBy: number | null;
+  changedByName: string | null;
+  changedAt: Date;
+}
+
+export const OFFERING_COLUMNS = `
+  o.id,
+  o.course_id as "courseId",
+  o.semester,
+  o.academic_year as "academicYear",
+  o.resit_policy as "resitPolicy",
+  o.status,
+  o.grade_deadline as "gradeDeadline",
+  o.grade_deadline < CURRENT_DATE as "pastDeadline"
+`;
+
+export type OfferingTransition =
+  | 'submit'
+  | 'reopen'
+  | 'publish'
+  | 'lock'
+  | 'unlock';
+
+/**
+ * Transitions du circuit de publication. Les droits sont vérifiés par les
+ * routes : soumission et publication par les enseignants du cours,
+ * verrouillage par les gestionnaires, déverrouillage par un administrateur.
+ */
+export const OFFERING_TRANSITIONS: Record<
+  OfferingTransition,
+  { from: OfferingStatus[]; to: OfferingStatus }
+> = {
+  submit: { from: ['draft'], to: 'submitted' },
+  reopen: { from: ['submitted'], to: 'draft' },
+  publish: { from: ['submitted'], to: 'published' },
+  lock: { from: ['published'], to: 'locked' },
+  unlock: { from: ['locked'], to: 'published' },
+};
+
+export const offeringLockedError = (): AppError =>
+  new AppError(
+    409,
+    'Les notes de ce cours sont verrouillées : un administrateur doit les déverrouiller',
+    'OFFERING_LOCKED'
+  );
+
+export class CourseOfferingService {
+  static async findById(id: number | string): Promise<CourseOffering> {
+    const result = await pool.query(
+      `SELECT ${OFFERING_COLUMNS} FROM course_offerings o WHERE o.id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Offre de cours non trouvée', 'OFFERING_NOT_FOUND');
+    }
+
+    return result.rows[0];
+  }
+
+  /** Les notes d'une offre verrouillée ne peuvent plus être modifiées */
+  static assertNotLocked(offering: Pick<OfferingWriteState, 'status'>): void {
+    if (offering.status === 'locked') {
+      throw offeringLockedError();
+    }
+  }
+
+  /**
+   * Les notes d'une offre verrouillée ne peuvent plus être modifiées ; après
+   * la date limite de saisie, seuls les gestionnaires le peuvent encore.
+   */
+  static assertGradesWritable(
+    user: JWTPayload | undefined,
+    offering: OfferingWriteState
+  ): void {
+    this.assertNotLocked(offering);
+    if (offering.pastDeadline && !(user && MANAGER_ROLES.includes(user.role))) {
+      throw new AppError(
+        403,
+        'La date limite de saisie des notes de ce cours est dépassée',
+        'GRADE_DEADLINE_PASSED'
+      );
+    }
+  }
+
+  /** Variante pour les notes, rattachées à leur offre par cours, semestre et année */
+  static async assertGradesEditable(
+    user: JWTPayload | undefined,
+    courseId: number,
+    semester: string,
+    academicYear: string
+  ): Promise<void> {
+    const result = await pool.query(
+      `
+      SELECT status, grade_deadline < CURRENT_DATE as "pastDeadline"
+      FROM course_offerings
+      WHERE course_id = $1 AND semester = $2 AND academic_year = $3
+    `,
+      [courseId, semester, academicYear]
+    );
+    if (result.rows.length > 0) {
+      this.assertGradesWritable(user, result.rows[0]);
+    }
+  }
+
+  /**
+   * Applique une transition si l'offre est dans l'un de ses états de départ,
+   * et la consigne avec son auteur et sa justification éventuelle.
+   */
+  static async transition(
+    offering: CourseOffering,
+    transition: OfferingTransition,
+    changedBy: number | null,
+    justification: string | null = null
+  ): Promise<CourseOffering> {
+    const { from, to } = OFFERING_TRANSITIONS[transition];
+
+    return withTransaction(async (client) => {
+      // La jointure sur l'offre elle-même expose son état avant la mise à jour
+      const result = await client.query(
+        `
+        UPDATE course_offerings o
+        SET status = $1
+        FROM course_offerings previous
+        WHERE o.id = $2 AND previous.id = o.id AND previous.status = ANY($3)
+        RETURNING ${OFFERING_COLUMNS}, previous.status as "previousStatus"
+      `,
+        [to, offering.id, from]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(
+          409,
+          `Transition impossible depuis l'état ${offering.status}`,
+          'INVALID_OFFERING_TRANSITION',
+          { status: offering.status, allowedFrom: from }
+        );
+      }
+
+      const { previousStatus, ...updated } = result.rows[0];
+      await client.query(
+        `
+        INSERT INTO offering_status_changes (offering_id, from_status, to_status, justification, changed_by)
+        VALUES ($1, $2, $3, $4, $5)
+      `,
+        [offering.id, previousStatus, to, justification, changedBy]
+      );
+
+      return updated;
+    });
+  }
+
+  /** Changements d'état d'une offre, du plus ancien au plus récent */
+  static async findStatusChanges(
+    offeringId: number
+  ): Promise<OfferingStatusChange[]> {
+    const result = await pool.query(
+      `
+      SELECT sc.id, sc.from_status as "fromStatus", sc.to_status as "toStatus",
+             sc.justification, sc.changed_by as "changedBy",
+             p.first_name || ' ' || p.last_name as "changedByName",
+             sc.changed_at as "changedAt"
+      FROM offering_status_changes sc
+      LEFT JOIN professors p ON p.id = sc.changed_by
+      WHERE sc.offering_id = $1
+      ORDER BY sc.id
+    `,
+      [offeringId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,99 @@
+import { parse } from 'csv-parse/sync';
+import { AppError } from '../types/error';
+import {
+  CSV_DELIMITERS,
+  CsvDelimiter,
+  CsvEncoding,
+} from '../schemas/csvImport.schema';
+
+export interface CsvParseOptions {
+  /** Détecté à partir de la ligne d'en-tête s'il n'est pas précisé */
+  delimiter?: CsvDelimiter;
+  encoding: CsvEncoding;
+  /** Correspondance entre en-têtes normalisés et noms de champs */
+  columns: Record<string, string>;
+}
+
+export interface CsvRow {
+  /** Numéro de ligne dans le fichier, en-tête compris */
+  line: number;
+  values: Record<string, string>;
+}
+
+export class CsvService {
+  /**
+   * Normalise un en-tête pour tolérer les variantes des exports tableur :
+   * « Date de naissance », « date_naissance » et « DateNaissance » donnent
+   * tous « datedenaissance » ou « datenaissance ».
+   */
+  static normalizeHeader(header: string): string {
+    return header
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '');
+  }
+
+  static detectDelimiter(content: string): CsvDelimiter {
+    const header = content.split(/\r?\n/, 1)[0];
+    return CSV_DELIMITERS.reduce((best, candidate) =>
+      header.split(candidate).length > header.split(best).length
+        ? candidate
+        : best
+    );
+  }
+
+  static parse(input: unknown, options: CsvParseOptions): CsvRow[] {
+    if (!Buffer.isBuffer(input) || input.length === 0) {
+      throw new AppError(
+        415,
+        'Le fichier doit être envoyé dans le corps de la requête en text/csv',
+        'UNSUPPORTED_MEDIA_TYPE'
+      );
+    }
+
+    const content = input.toString(options.encoding);
+    const delimiter = options.delimiter ?? this.detectDelimiter(content);
+
+    let records: { record: Record<string, string>; info: { lines: number } }[];
+    try {
+      records = parse(content, {
+        delimiter,
+        bom: true,
+        trim: true,
+        skip_empty_lines: true,
+        info: true,
+        columns: (headers: string[]) =>
+          headers.map((header) => {
+            const normalized = this.normalizeHeader(header);
+            // Les colonnes inconnues sont ignorées
+            return options.columns[normalized] ?? false;
+          }),
+      });
+    } catch (error) {
+      throw new AppError(
+        400,
+        `Fichier CSV invalide : ${(error as Error).message}`,
+        'INVALID_CSV'
+      );
+    }
+
+    const found = new Set(records.flatMap(({ record }) => Object.keys(record)));
+    const missing = [...new Set(Object.values(options.columns))].filter(
+      (field) => !found.has(field)
+    );
+    if (records.length > 0 && missing.length > 0) {
+      throw new AppError(
+        400,
+        'Colonnes manquantes dans le fichier CSV',
+        'INVALID_CSV',
+        { missing }
+      );
+    }
+
+    return records.map(({ record, info }) => ({
+      line: info.lines,
+      values: record,
+    }));
+  }
+}
@@ -0,0 +1,179 @@
+import { pool } from '../config/database';
+import { AppError } from '../types/error';
+
+/** Moyenne à partir de laquelle une UE est validée et ses crédits ECTS acquis */
+export const UNIT_PASSING_AVERAGE = 10;
+
+export interface TeachingUnit {
+  id: number;
+  code: string;
+  name: string;
+  competenceId: number;
+  semester: string;
+  credits: number;
+}
+
+export interface CurriculumUnit extends TeachingUnit {
+  competenceCode: string;
+}
+
+export interface UnitAverage {
+  unitId: number;
+  code: string;
+  name: string;
+  competenceCode: string;
+  semester: string;
+  credits: number;
+  /** null lorsque toutes les notes de l'UE sont exclues des moyennes (ABJ, DISP, EN ATTENTE) */
+  average: number | null;
+  /** Nombre de ressources et SAÉ notées prises en compte dans la moyenne */
+  coursesCount: number;
+  /** Une note EN ATTENTE empêche de valider l'UE */
+  pending: boolean;
+  validated: boolean;
+}
+
+export interface StudentUnitAverage extends UnitAverage {
+  studentId: number;
+}
+
+export interface UnitSummary {
+  averageGrade: number | null;
+  totalCredits: number;
+  validatedCredits: number;
+}
+
+export const TEACHING_UNIT_COLUMNS = `
+  u.id,
+  u.code,
+  u.name,
+  u.competence_id as "competenceId",
+  u.semester,
+  u.credits
+`;
+
+export class CurriculumService {
+  static async findTeachingUnit(id: number | string): Promise<TeachingUnit> {
+    const result = await pool.query(
+      `SELECT ${TEACHING_UNIT_COLUMNS} FROM teaching_units u WHERE u.id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'UE non trouvée', 'TEACHING_UNIT_NOT_FOUND');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Moyennes d'UE d'un étudiant pour une année : chaque UE pondère les notes
+   * des ressources et SAÉ qui la composent par leur coefficient dans l'UE.
+   * Seules les notes retenues du semestre de l'UE sont prises en compte, les
+   * codes spéciaux étant traduits par la vue retained_grades. Avec
+   * `publishedOnly`, les notes non encore publiées sont ignorées.
+   */
+  static async getUnitAverages(
+    studentId: number,
+    academicYear: string,
+    publishedOnly = false
+  ): Promise<StudentUnitAverage[]> {
+    return this.queryUnitAverages(studentId, academicYear, publishedOnly);
+  }
+
+  /** Moyennes d'UE de tous les étudiants notés sur l'année */
+  static async getCohortUnitAverages(
+    academicYear: string
+  ): Promise<StudentUnitAverage[]> {
+    return this.queryUnitAverages(null, academicYear, false);
+  }
+
+  private static async queryUnitAverages(
+    studentId: number | null,
+    academicYear: string,
+    publishedOnly: boolean
+  ): Promise<StudentUnitAverage[]> {
+    const result = await pool.query(
+      `
+      SELECT
+        g.student_id as "studentId",
+        u.id as "unitId",
+        u.code,
+        u.name,
+        comp.code as "competenceCode",
+        u.semester,
+        u.credits,
+        ROUND(
+          SUM(g.grade * cu.coefficient)
+            / NULLIF(SUM(cu.coefficient) FILTER (WHERE g.grade IS NOT NULL), 0),
+          2
+        )::float as "average",
+        COUNT(g.grade)::int as "coursesCount",
+        BOOL_OR(g.blocks_validation) as "pending"
+      FROM teaching_units u
+      JOIN competences comp ON comp.id = u.competence_id
+      JOIN course_units cu ON cu.unit_id = u.id
+      JOIN retained_grades g ON g.course_id = cu.course_id AND g.semester = u.semester
+      WHERE ($1::int IS NULL OR g.student_id = $1) AND g.academic_year = $2
+        AND (NOT $3 OR g.published)
+      GROUP BY g.student_id, u.id, comp.code
+      ORDER BY g.student_id, u.semester, u.code
+    `,
+      [studentId, academicYear, publishedOnly]
+    );
+
+    return result.rows.map((unit) => ({
+      ...unit,
+      validated:
+        !unit.pending &&
+        unit.average !== null &&
+        unit.average >= UNIT_PASSING_AVERAGE,
+    }));
+  }
+
+  /** UE du référentiel pour les semestres donnés */
+  static async findTeachingUnits(
+    semesters: string[]
+  ): Promise<CurriculumUnit[]> {
+    const result = await pool.query(
+      `
+      SELECT ${TEACHING_UNIT_COLUMNS}, comp.code as "competenceCode"
+      FROM teaching_units u
+      JOIN competences comp ON comp.id = u.competence_id
+      WHERE u.semester = ANY($1)
+      ORDER BY u.semester, u.code
+    `,
+      [semesters]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Moyenne du semestre pondérée par les crédits ECTS de chaque UE. Les UE
+   * sans moyenne n'y participent pas mais restent comptées dans les crédits.
+   */
+  static summarize(
+    units: Pick<UnitAverage, 'average' | 'credits' | 'validated'>[]
+  ): UnitSummary {
+    const totalCredits = units.reduce((sum, unit) => sum + unit.credits, 0);
+    const graded = units.filter((unit) => unit.average !== null);
+    const gradedCredits = graded.reduce((sum, unit) => sum + unit.credits, 0);
+    const weightedSum = graded.reduce(
+      (sum, unit) => sum + (unit.average as number) * unit.credits,
+      0
+    );
+    const validatedCredits = units.reduce(
+      (sum, unit) => sum + (unit.validated ? unit.credits : 0),
+      0
+    );
+
+    return {
+      averageGrade:
+        gradedCredits > 0
+          ? Math.round((weightedSum / gradedCredits) * 100) / 100
+          : null,
+      totalCredits,
+      validatedCredits,
+    };
+  }
+}
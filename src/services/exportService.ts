@@ -0,0 +1,193 @@
+import { Request, Response } from 'express';
+import ExcelJS from 'exceljs';
+import { ExportFormat, exportQuerySchema } from '../schemas/export.schema';
+import { logger } from './loggerService';
+
+export const XLSX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  /** number : arrondi au centième et soumis au séparateur décimal choisi */
+  type?: 'text' | 'number' | 'date';
+}
+
+export interface ExportOptions {
+  format: Exclude<ExportFormat, 'json'>;
+  decimalComma: boolean;
+}
+
+export interface ExportTable<T> {
+  /** Nom du fichier téléchargé, sans extension */
+  filename: string;
+  columns: ExportColumn[];
+  rows: T[] | AsyncIterable<T>;
+}
+
+type Row = Record<string, unknown>;
+
+/** Les tableurs interprètent une cellule commençant par ces caractères comme une formule */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toCellValue = (
+  value: unknown,
+  column: ExportColumn
+): string | number | null => {
+  if (value === null || value === undefined) return null;
+
+  if (column.type === 'number') {
+    return Math.round(Number(value) * 100) / 100;
+  }
+  if (column.type === 'date' && value instanceof Date) {
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+
+  const text = String(value);
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+};
+
+const toCsvField = (
+  value: string | number | null,
+  delimiter: string,
+  decimalComma: boolean
+): string => {
+  if (value === null) return '';
+  if (typeof value === 'number') {
+    return decimalComma ? String(value).replace('.', ',') : String(value);
+  }
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+};
+
+/** Attend que la réponse puisse de nouveau être écrite, sauf si le client s'est déconnecté */
+const drain = (res: Response): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onDrain = (): void => {
+      res.off('close', onClose);
+      resolve();
+    };
+    const onClose = (): void => {
+      res.off('drain', onDrain);
+      reject(new Error('Connexion fermée par le client'));
+    };
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+  });
+
+async function* iterate<T>(rows: T[] | AsyncIterable<T>): AsyncGenerator<T> {
+  yield* rows;
+}
+
+export class ExportService {
+  /**
+   * Détermine le format demandé, par `?format=` ou à défaut par l'en-tête
+   * Accept. Renvoie null lorsque la réponse attendue est du JSON.
+   */
+  static getOptions(req: Request): ExportOptions | null {
+    const { format, decimal } = exportQuerySchema.parse(req.query);
+    const resolved = format ?? this.formatFromAccept(req);
+    if (resolved === 'json') return null;
+
+    return { format: resolved, decimalComma: decimal === 'comma' };
+  }
+
+  /**
+   * Envoie les lignes au fur et à mesure de leur lecture. Une erreur
+   * survenant avant la première ligne est renvoyée normalement ; au-delà,
+   * les en-têtes sont déjà partis et la connexion est interrompue.
+   */
+  static async send<T extends Row>(
+    res: Response,
+    options: ExportOptions,
+    table: ExportTable<T>
+  ): Promise<void> {
+    const rows = iterate(table.rows);
+    const first = await rows.next();
+
+    res.attachment(`${table.filename}.${options.format}`);
+    try {
+      const all = async function* (): AsyncGenerator<T> {
+        if (!first.done) yield first.value;
+        yield* rows;
+      };
+      if (options.format === 'csv') {
+        await this.writeCsv(res, table.columns, all(), options.decimalComma);
+      } else {
+        await this.writeXlsx(res, table.columns, all());
+      }
+    } catch (error) {
+      logger.error('Export interrompu', {
+        error: (error as Error).message,
+        filename: table.filename,
+      });
+      res.destroy(error as Error);
+    }
+  }
+
+  private static formatFromAccept(req: Request): ExportFormat {
+    if (!req.headers.accept) return 'json';
+
+    switch (req.accepts(['application/json', 'text/csv', XLSX_MIME_TYPE])) {
+      case 'text/csv':
+        return 'csv';
+      case XLSX_MIME_TYPE:
+        return 'xlsx';
+      default:
+        return 'json';
+    }
+  }
+
+  private static async writeCsv(
+    res: Response,
+    columns: ExportColumn[],
+    rows: AsyncIterable<Row>,
+    decimalComma: boolean
+  ): Promise<void> {
+    // Le point-virgule évite toute ambiguïté avec la virgule décimale
+    const delimiter = decimalComma ? ';' : ',';
+    const write = async (fields: string[]): Promise<void> => {
+      if (!res.write(`${fields.join(delimiter)}\r\n`)) {
+        await drain(res);
+      }
+    };
+
+    // BOM pour qu'Excel reconnaisse l'UTF-8
+    res.write('\ufeff');
+    await write(
+      columns.map((column) =>
+        toCsvField(column.header, delimiter, decimalComma)
+      )
+    );
+    for await (const row of rows) {
+      await write(
+        columns.map((column) =>
+          toCsvField(toCellValue(row[column.key], column), delimiter, decimalComma)
+        )
+      );
+    }
+    res.end();
+  }
+
+  /** Les nombres restent numériques : le tableur les affiche selon sa langue */
+  private static async writeXlsx(
+    res: Response,
+    columns: ExportColumn[],
+    rows: AsyncIterable<Row>
+  ): Promise<void> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+    const sheet = workbook.addWorksheet('Export');
+
+    sheet.addRow(columns.map((column) => column.header)).commit();
+    for await (const row of rows) {
+      sheet
+        .addRow(columns.map((column) => toCellValue(row[column.key], column)))
+        .commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  }
+}
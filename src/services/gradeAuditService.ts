@@ -0,0 +1,128 @@
+import { Pool, PoolClient } from 'pg';
+import { pool, withTransaction } from '../config/database';
+import { RequestWithUser } from '../middleware/auth';
+import { GRADE_AUDIT_ACTIONS } from '../schemas/gradeAudit.schema';
+import { SpecialGradeCode } from './gradeService';
+import { ListSource } from './listQueryService';
+
+export type GradeAuditAction = (typeof GRADE_AUDIT_ACTIONS)[number];
+
+/** Auteur et motif d'une modification de notes, enregistrés par le trigger grades_audit */
+export interface GradeAuditContext {
+  professorId: number | null;
+  apiKeyId: number | null;
+  ip: string | null;
+  reason: string | null;
+}
+
+export interface GradeAuditEntry {
+  id: number;
+  gradeId: number;
+  studentId: number | null;
+  courseId: number | null;
+  semester: string | null;
+  academicYear: string | null;
+  session: string | null;
+  action: GradeAuditAction;
+  oldGrade: number | null;
+  oldSpecialCode: SpecialGradeCode | null;
+  newGrade: number | null;
+  newSpecialCode: SpecialGradeCode | null;
+  professorId: number | null;
+  professorName: string | null;
+  apiKeyId: number | null;
+  ip: string | null;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export const GRADE_AUDIT_SOURCE: ListSource = {
+  select: `
+    a.id::int as "id",
+    a.grade_id as "gradeId",
+    a.student_id as "studentId",
+    a.course_id as "courseId",
+    a.semester,
+    a.academic_year as "academicYear",
+    a.session,
+    a.action,
+    a.old_grade::float as "oldGrade",
+    a.old_special_code as "oldSpecialCode",
+    a.new_grade::float as "newGrade",
+    a.new_special_code as "newSpecialCode",
+    a.professor_id as "professorId",
+    p.first_name || ' ' || p.last_name as "professorName",
+    a.api_key_id as "apiKeyId",
+    a.ip,
+    a.reason,
+    a.created_at as "createdAt"
+  `,
+  from: `
+    grade_audit a
+    LEFT JOIN professors p ON p.id = a.professor_id
+  `,
+};
+
+export class GradeAuditService {
+  static contextFrom(
+    req: RequestWithUser,
+    reason?: string | null
+  ): GradeAuditContext {
+    return {
+      professorId: req.user?.id ?? null,
+      apiKeyId: req.apiKey?.id ?? null,
+      ip: req.ip ?? null,
+      reason: reason?.trim() || null,
+    };
+  }
+
+  /**
+   * Transmet l'auteur de la modification au trigger grades_audit. Les
+   * paramètres ne valent que pour la transaction en cours : toute écriture
+   * sur les notes doit donc se faire dans une transaction.
+   */
+  static async setContext(
+    db: Pool | PoolClient,
+    context: GradeAuditContext
+  ): Promise<void> {
+    await db.query(
+      `
+      SELECT set_config('audit.professor_id', $1, TRUE),
+             set_config('audit.api_key_id', $2, TRUE),
+             set_config('audit.ip', $3, TRUE),
+             set_config('audit.reason', $4, TRUE)
+    `,
+      [
+        context.professorId?.toString() ?? '',
+        context.apiKeyId?.toString() ?? '',
+        context.ip ?? '',
+        context.reason ?? '',
+      ]
+    );
+  }
+
+  /** Exécute des écritures sur les notes dans une transaction attribuée à `context` */
+  static async withContext<T>(
+    context: GradeAuditContext,
+    work: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    return withTransaction(async (client) => {
+      await this.setContext(client, context);
+      return work(client);
+    });
+  }
+
+  /** Historique d'une note, y compris après sa suppression, du plus ancien au plus récent */
+  static async findHistory(gradeId: number): Promise<GradeAuditEntry[]> {
+    const result = await pool.query(
+      `
+      SELECT ${GRADE_AUDIT_SOURCE.select}
+      FROM ${GRADE_AUDIT_SOURCE.from}
+      WHERE a.grade_id = $1
+      ORDER BY a.id
+    `,
+      [gradeId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,316 @@
+import { Pool, PoolClient } from 'pg';
+import { pool, withTransaction } from '../config/database';
+import {
+  createGradeSchema,
+  SPECIAL_GRADE_CODES,
+} from '../schemas/grade.schema';
+import { AppError } from '../types/error';
+import { CsvRow } from './csvService';
+import { GradeAuditContext, GradeAuditService } from './gradeAuditService';
+import { ImportRowError } from './studentImportService';
+import {
+  GradeService,
+  GradeSession,
+  GradeValue,
+  SpecialGradeCode,
+} from './gradeService';
+
+export type GradeImportStatus =
+  | 'new'
+  | 'changed'
+  | 'unchanged'
+  | 'unknown_student'
+  | 'invalid';
+
+export interface GradeImportScope {
+  courseId: number;
+  semester: string;
+  academicYear: string;
+  session: GradeSession;
+}
+
+export interface GradeImportRow {
+  line: number;
+  studentNumber: string;
+  studentId?: number;
+  grade?: number | null;
+  specialCode?: SpecialGradeCode | null;
+  previousGrade?: number | null;
+  previousSpecialCode?: SpecialGradeCode | null;
+  status: GradeImportStatus;
+}
+
+export interface GradeImportReport extends GradeImportScope {
+  dryRun: boolean;
+  total: number;
+  summary: Record<GradeImportStatus, number>;
+  rows: GradeImportRow[];
+  errors: ImportRowError[];
+}
+
+/** En-têtes normalisés (voir CsvService.normalizeHeader) acceptés pour chaque champ */
+export const GRADE_CSV_COLUMNS: Record<string, string> = {
+  studentid: 'studentNumber',
+  numeroetudiant: 'studentNumber',
+  numetudiant: 'studentNumber',
+  grade: 'grade',
+  note: 'grade',
+};
+
+/** Les tableurs français utilisent la virgule comme séparateur décimal */
+const toNumber = (value: string | undefined): number | undefined =>
+  value === undefined || value.trim() === ''
+    ? undefined
+    : Number(value.trim().replace(',', '.'));
+
+/** La cellule de note contient un nombre ou un code spécial, sans tenir compte de la casse */
+const toGradeCell = (
+  value: string | undefined
+): { grade?: number; specialCode?: string } => {
+  const code = value?.trim().replace(/\s+/g, ' ').toUpperCase();
+  return SPECIAL_GRADE_CODES.some((specialCode) => specialCode === code)
+    ? { specialCode: code }
+    : { grade: toNumber(value) };
+};
+
+export class GradeImportService {
+  /**
+   * Compare les notes du fichier à celles déjà saisies pour le cours et la
+   * session, puis les enregistre. L'import est refusé dans son ensemble si
+   * une ligne est invalide ou désigne un étudiant inconnu ; en mode dryRun,
+   * rien n'est écrit et le rapport sert d'aperçu. Les écritures sont
+   * attribuées à `audit` dans l'historique des notes.
+   */
+  static async import(
+    rows: CsvRow[],
+    scope: GradeImportScope,
+    dryRun: boolean,
+    audit: GradeAuditContext
+  ): Promise<GradeImportReport> {
+    const run = async (db: Pool | PoolClient): Promise<GradeImportReport> => {
+      const studentNumbers = rows.map(
+        ({ values }) => values.studentNumber?.trim() ?? ''
+      );
+      const students = await db.query(
+        'SELECT id, student_id as "studentNumber" FROM students WHERE student_id = ANY($1)',
+        [studentNumbers]
+      );
+      const studentIds = new Map<string, number>(
+        students.rows.map((row) => [row.studentNumber, row.id])
+      );
+
+      const passedFirstSession = new Set(
+        scope.session === 'resit'
+          ? await GradeService.findPassedFirstSession(
+              scope.courseId,
+              scope.semester,
+              scope.academicYear,
+              [...studentIds.values()]
+            )
+          : []
+      );
+
+      const errors: ImportRowError[] = [];
+      const report: GradeImportRow[] = [];
+      const seen = new Map<number, number>();
+
+      rows.forEach(({ line, values }, index) => {
+        const studentNumber = studentNumbers[index];
+        const studentId = studentIds.get(studentNumber);
+        const cell = toGradeCell(values.grade);
+
+        if (studentId === undefined) {
+          errors.push({
+            line,
+            field: 'studentId',
+            message: `Étudiant ${studentNumber} non trouvé`,
+          });
+          report.push({ line, studentNumber, status: 'unknown_student' });
+          return;
+        }
+
+        const result = createGradeSchema.safeParse({
+          ...scope,
+          studentId,
+          ...cell,
+        });
+        if (!result.success) {
+          errors.push(
+            ...result.error.errors.map((issue) => ({
+              line,
+              field: issue.path.join('.'),
+              message: issue.message,
+            }))
+          );
+          report.push({ line, studentNumber, studentId, status: 'invalid' });
+          return;
+        }
+
+        if (cell.grade === undefined && !cell.specialCode) {
+          errors.push({
+            line,
+            field: 'grade',
+            message: 'Note ou code spécial (ABS, ABJ, DISP, EN ATTENTE) requis',
+          });
+          report.push({ line, studentNumber, studentId, status: 'invalid' });
+          return;
+        }
+
+        if (passedFirstSession.has(studentId)) {
+          errors.push({
+            line,
+            field: 'studentId',
+            message: 'Cours validé en première session : pas de rattrapage',
+          });
+          report.push({ line, studentNumber, studentId, status: 'invalid' });
+          return;
+        }
+
+        const duplicateOf = seen.get(studentId);
+        if (duplicateOf !== undefined) {
+          errors.push({
+            line,
+            field: 'studentId',
+            message: `Doublon de la ligne ${duplicateOf}`,
+          });
+          report.push({ line, studentNumber, studentId, status: 'invalid' });
+          return;
+        }
+
+        seen.set(studentId, line);
+        report.push({
+          line,
+          studentNumber,
+          studentId,
+          ...GradeService.toGradeValue(
+            result.data.grade,
+            result.data.specialCode
+          ),
+          status: 'new',
+        });
+      });
+
+      const existing = await db.query(
+        `
+        SELECT id, student_id as "studentId", grade,
+               special_code as "specialCode"
+        FROM grades
+        WHERE course_id = $1 AND semester = $2 AND academic_year = $3
+          AND session = $4 AND student_id = ANY($5)
+      `,
+        [
+          scope.courseId,
+          scope.semester,
+          scope.academicYear,
+          scope.session,
+          [...seen.keys()],
+        ]
+      );
+      const existingGrades = new Map<number, { id: number } & GradeValue>(
+        existing.rows.map((row) => [
+          row.studentId,
+          {
+            id: row.id,
+            grade: row.grade === null ? null : Number(row.grade),
+            specialCode: row.specialCode ?? null,
+          },
+        ])
+      );
+
+      const updates: ({ id: number } & GradeValue)[] = [];
+      for (const row of report) {
+        const current =
+          row.status === 'new' ? existingGrades.get(row.studentId!) : undefined;
+        if (!current) continue;
+
+        row.previousGrade = current.grade;
+        row.previousSpecialCode = current.specialCode;
+        if (
+          current.grade === row.grade &&
+          current.specialCode === row.specialCode
+        ) {
+          row.status = 'unchanged';
+        } else {
+          row.status = 'changed';
+          updates.push({
+            id: current.id,
+            grade: row.grade ?? null,
+            specialCode: row.specialCode ?? null,
+          });
+        }
+      }
+
+      const summary: Record<GradeImportStatus, number> = {
+        new: 0,
+        changed: 0,
+        unchanged: 0,
+        unknown_student: 0,
+        invalid: 0,
+      };
+      report.forEach((row) => summary[row.status]++);
+
+      errors.sort((a, b) => a.line - b.line);
+      const result: GradeImportReport = {
+        dryRun,
+        ...scope,
+        total: rows.length,
+        summary,
+        rows: report,
+        errors,
+      };
+
+      if (dryRun) return result;
+
+      if (errors.length > 0) {
+        throw new AppError(
+          422,
+          'Import refusé : le fichier contient des erreurs',
+          'IMPORT_VALIDATION_FAILED',
+          result
+        );
+      }
+
+      await GradeAuditService.setContext(db, audit);
+
+      const inserts = report.filter((row) => row.status === 'new');
+      if (inserts.length > 0) {
+        await db.query(
+          `
+          INSERT INTO grades (student_id, course_id, grade, special_code, semester, academic_year, session)
+          SELECT student_id, $4, grade, special_code, $5, $6, $7
+          FROM UNNEST($1::int[], $2::numeric[], $3::text[]) AS t(student_id, grade, special_code)
+        `,
+          [
+            inserts.map((row) => row.studentId),
+            inserts.map((row) => row.grade),
+            inserts.map((row) => row.specialCode),
+            scope.courseId,
+            scope.semester,
+            scope.academicYear,
+            scope.session,
+          ]
+        );
+      }
+
+      if (updates.length > 0) {
+        await db.query(
+          `
+          UPDATE grades g
+          SET grade = t.grade, special_code = t.special_code
+          FROM UNNEST($1::int[], $2::numeric[], $3::text[]) AS t(id, grade, special_code)
+          WHERE g.id = t.id
+        `,
+          [
+            updates.map((row) => row.id),
+            updates.map((row) => row.grade),
+            updates.map((row) => row.specialCode),
+          ]
+        );
+      }
+
+      return result;
+    };
+
+    return dryRun ? run(pool) : withTransaction(run);
+  }
+}
@@ -0,0 +1,306 @@
+import { Pool, PoolClient } from 'pg';
+import { pool } from '../config/database';
+import { AppError } from '../types/error';
+import { JWTPayload } from '../types/auth';
+import {
+  GRADE_SESSIONS,
+  SPECIAL_GRADE_CODES,
+} from '../schemas/grade.schema';
+
+export type GradeSession = (typeof GRADE_SESSIONS)[number];
+
+/**
+ * Code saisi à la place d'une note. Son effet sur les moyennes est appliqué
+ * par la vue retained_grades : ABS compte 0, ABJ et DISP sont exclus des
+ * moyennes, EN ATTENTE bloque la validation du cours et de son UE.
+ */
+export type SpecialGradeCode = (typeof SPECIAL_GRADE_CODES)[number];
+
+/** Valeur enregistrée d'une note : un nombre ou un code spécial */
+export interface GradeValue {
+  grade: number | null;
+  specialCode: SpecialGradeCode | null;
+}
+
+export const computedGradeError = (): AppError =>
+  new AppError(
+    409,
+    'Les notes de ce cours sont calculées à partir de ses évaluations',
+    'GRADE_IS_COMPUTED'
+  );
+
+/** Note à partir de laquelle un cours est validé */
+export const PASSING_GRADE = 10;
+
+export const resitNotAllowedError = (): AppError =>
+  new AppError(
+    409,
+    "L'étudiant a validé ce cours en première session : pas de rattrapage",
+    'RESIT_NOT_ALLOWED'
+  );
+
+/** Notes saisies plusieurs fois pour un même étudiant, cours et session */
+export interface GradeDuplicate {
+  studentId: number;
+  courseId: number;
+  semester: string;
+  academicYear: string;
+  session: GradeSession;
+  /** Du plus ancien au plus récent */
+  gradeIds: number[];
+}
+
+/** Étudiant sans note de première session dans un cours dont la saisie est close */
+export interface MissingGradeRow {
+  professorId: number | null;
+  professorName: string | null;
+  professorEmail: string | null;
+  offeringId: number;
+  courseId: number;
+  courseCode: string;
+  courseName: string;
+  semester: string;
+  academicYear: string;
+  gradeDeadline: Date;
+  studentId: number;
+  studentNumber: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface MissingGradesOffering {
+  offeringId: number;
+  courseId: number;
+  courseCode: string;
+  courseName: string;
+  semester: string;
+  academicYear: string;
+  gradeDeadline: Date;
+  students: Pick<
+    MissingGradeRow,
+    'studentId' | 'studentNumber' | 'firstName' | 'lastName'
+  >[];
+}
+
+/** Notes manquantes d'un enseignant responsable (null : cours sans responsable) */
+export interface MissingGradesByProfessor {
+  professorId: number | null;
+  professorName: string | null;
+  professorEmail: string | null;
+  missingCount: number;
+  offerings: MissingGradesOffering[];
+}
+
+export class GradeService {
+  /** Une note se saisit sous forme de nombre ou de code spécial, pas les deux */
+  static toGradeValue(
+    grade: number | null | undefined,
+    specialCode: SpecialGradeCode | null | undefined
+  ): GradeValue {
+    const hasGrade = grade !== undefined && grade !== null;
+    const hasCode = specialCode !== undefined && specialCode !== null;
+    if (hasGrade === hasCode) {
+      throw new AppError(
+        400,
+        'Saisissez soit une note, soit un code spécial (ABS, ABJ, DISP, EN ATTENTE)',
+        'INVALID_GRADE_VALUE'
+      );
+    }
+
+    return {
+      grade: hasGrade ? grade : null,
+      specialCode: hasCode ? specialCode : null,
+    };
+  }
+
+  /**
+   * Les étudiants ne voient que les notes des offres de cours publiées ou
+   * verrouillées (colonne published de retained_grades).
+   */
+  static publishedOnly(user: JWTPayload | undefined): boolean {
+    return user?.role === 'student';
+  }
+
+  static async assertStudentExists(studentId: number): Promise<void> {
+    const result = await pool.query('SELECT id FROM students WHERE id = $1', [
+      studentId,
+    ]);
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Étudiant non trouvé', 'STUDENT_NOT_FOUND');
+    }
+  }
+
+  static async assertCourseExists(courseId: number): Promise<void> {
+    const result = await pool.query('SELECT id FROM courses WHERE id = $1', [
+      courseId,
+    ]);
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Cours non trouvé', 'COURSE_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Les notes d'un cours évalué par des évaluations pondérées sont
+   * calculées et ne peuvent pas être saisies directement.
+   */
+  static async assertManualGradesAllowed(
+    courseId: number,
+    semester: string,
+    academicYear: string
+  ): Promise<void> {
+    const result = await pool.query(
+      `
+      SELECT 1
+      FROM assessments a
+      JOIN course_offerings o ON o.id = a.offering_id
+      WHERE o.course_id = $1 AND o.semester = $2 AND o.academic_year = $3
+      LIMIT 1
+    `,
+      [courseId, semester, academicYear]
+    );
+    if (result.rows.length > 0) {
+      throw computedGradeError();
+    }
+  }
+
+  /**
+   * Étudiants ayant validé le cours en première session, qui ne peuvent
+   * donc pas passer le rattrapage.
+   */
+  static async findPassedFirstSession(
+    courseId: number,
+    semester: string,
+    academicYear: string,
+    studentIds: number[]
+  ): Promise<number[]> {
+    const result = await pool.query(
+      `
+      SELECT student_id as "studentId"
+      FROM grades
+      WHERE course_id = $1 AND semester = $2 AND academic_year = $3
+        AND session = 'first' AND student_id = ANY($4) AND grade >= $5
+    `,
+      [courseId, semester, academicYear, studentIds, PASSING_GRADE]
+    );
+    return result.rows.map((row) => row.studentId);
+  }
+
+  /** Doublons antérieurs à la contrainte grades_unique_session */
+  static async findDuplicates(
+    db: Pool | PoolClient = pool
+  ): Promise<GradeDuplicate[]> {
+    const result = await db.query(`
+      SELECT student_id as "studentId", course_id as "courseId", semester,
+             academic_year as "academicYear", session,
+             array_agg(id ORDER BY id) as "gradeIds"
+      FROM grades
+      WHERE student_id IS NOT NULL AND course_id IS NOT NULL
+      GROUP BY student_id, course_id, semester, academic_year, session
+      HAVING COUNT(*) > 1
+      ORDER BY academic_year, semester, course_id, student_id, session
+    `);
+    return result.rows;
+  }
+
+  /**
+   * Étudiants sans note de première session dans les cours dont la date
+   * limite de saisie est dépassée. Faute d'inscriptions, les étudiants
+   * attendus dans un cours sont ceux notés dans un autre cours du même
+   * semestre ; les étudiants archivés sont ignorés.
+   */
+  static async findMissingGrades(filters: {
+    academicYear?: string;
+    semester?: string;
+  }): Promise<MissingGradeRow[]> {
+    const result = await pool.query(
+      `
+      WITH overdue AS (
+        SELECT id, course_id, semester, academic_year, grade_deadline
+        FROM course_offerings
+        WHERE grade_deadline < CURRENT_DATE
+          AND ($1::varchar IS NULL OR academic_year = $1)
+          AND ($2::varchar IS NULL OR semester = $2)
+      ),
+      cohorts AS (
+        SELECT DISTINCT g.student_id, g.semester, g.academic_year
+        FROM grades g
+        JOIN overdue od ON od.semester = g.semester AND od.academic_year = g.academic_year
+      )
+      SELECT ca.professor_id as "professorId",
+             p.first_name || ' ' || p.last_name as "professorName",
+             p.email as "professorEmail",
+             od.id as "offeringId", c.id as "courseId",
+             c.code as "courseCode", c.name as "courseName",
+             od.semester, od.academic_year as "academicYear",
+             od.grade_deadline as "gradeDeadline",
+             s.id as "studentId", s.student_id as "studentNumber",
+             s.first_name as "firstName", s.last_name as "lastName"
+      FROM overdue od
+      JOIN courses c ON c.id = od.course_id
+      JOIN cohorts co ON co.semester = od.semester AND co.academic_year = od.academic_year
+      JOIN students s ON s.id = co.student_id AND s.archived_at IS NULL
+      LEFT JOIN course_assignments ca
+        ON ca.course_id = od.course_id AND ca.academic_year = od.academic_year
+        AND ca.role = 'responsible'
+      LEFT JOIN professors p ON p.id = ca.professor_id
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM grades g
+        WHERE g.student_id = s.id AND g.course_id = od.course_id
+          AND g.semester = od.semester AND g.academic_year = od.academic_year
+          AND g.session = 'first'
+      )
+      ORDER BY p.last_name NULLS LAST, p.first_name, ca.professor_id,
+               od.academic_year, od.semester, c.code, s.last_name, s.first_name
+    `,
+      [filters.academicYear ?? null, filters.semester ?? null]
+    );
+    return result.rows;
+  }
+
+  /** Regroupe les notes manquantes par enseignant responsable, puis par cours */
+  static groupMissingByProfessor(
+    rows: MissingGradeRow[]
+  ): MissingGradesByProfessor[] {
+    const professors = new Map<number | null, MissingGradesByProfessor>();
+    for (const row of rows) {
+      let professor = professors.get(row.professorId);
+      if (!professor) {
+        professor = {
+          professorId: row.professorId,
+          professorName: row.professorName,
+          professorEmail: row.professorEmail,
+          missingCount: 0,
+          offerings: [],
+        };
+        professors.set(row.professorId, professor);
+      }
+
+      let offering = professor.offerings.find(
+        (candidate) => candidate.offeringId === row.offeringId
+      );
+      if (!offering) {
+        offering = {
+          offeringId: row.offeringId,
+          courseId: row.courseId,
+          courseCode: row.courseCode,
+          courseName: row.courseName,
+          semester: row.semester,
+          academicYear: row.academicYear,
+          gradeDeadline: row.gradeDeadline,
+          students: [],
+        };
+        professor.offerings.push(offering);
+      }
+
+      offering.students.push({
+        studentId: row.studentId,
+        studentNumber: row.studentNumber,
+        firstName: row.firstName,
+        lastName: row.lastName,
+      });
+      professor.missingCount += 1;
+    }
+    return [...professors.values()];
+  }
+}
@@ -0,0 +1,282 @@
+import { pool } from '../config/database';
+import { JURY_DECISIONS } from '../schemas/jury.schema';
+import {
+  CurriculumService,
+  CurriculumUnit,
+  StudentUnitAverage,
+  UnitAverage,
+} from './curriculumService';
+
+export type JuryDecisionCode = (typeof JURY_DECISIONS)[number];
+
+/** Seul le jury peut prononcer une admission (ADJ) */
+export type ProposedDecisionCode = Exclude<JuryDecisionCode, 'ADJ'>;
+
+export interface JuryRules {
+  passingAverage: number;
+  eliminatoryAverage: number;
+  compensation: boolean;
+  maxFailedUnits: number;
+}
+
+export const DEFAULT_JURY_RULES: JuryRules = {
+  passingAverage: 10,
+  eliminatoryAverage: 8,
+  compensation: true,
+  maxFailedUnits: 2,
+};
+
+export interface UnitDecision {
+  unitId: number;
+  code: string;
+  name: string;
+  competenceCode: string;
+  semester: string;
+  credits: number;
+  /** null lorsque l'étudiant n'a aucune note comptée dans l'UE */
+  average: number | null;
+  /** Une note EN ATTENTE empêche toute validation de l'UE */
+  pending: boolean;
+  decision: ProposedDecisionCode;
+}
+
+export interface SemesterProposal {
+  semester: string;
+  average: number | null;
+  totalCredits: number;
+  validatedCredits: number;
+  units: UnitDecision[];
+  proposedDecision: ProposedDecisionCode;
+}
+
+export interface SemesterDecision extends SemesterProposal {
+  decision: JuryDecisionCode;
+  overridden: boolean;
+  justification: string | null;
+  decidedBy: number | null;
+  decidedAt: Date | null;
+}
+
+export interface StudentJuryResult {
+  studentId: number;
+  studentNumber: string;
+  firstName: string;
+  lastName: string;
+  academicYear: string;
+  semesters: SemesterDecision[];
+  /** UE non validées des semestres ajournés */
+  failedUnits: number;
+  canProgress: boolean;
+}
+
+interface JuryOverride {
+  studentId: number;
+  semester: string;
+  decision: JuryDecisionCode;
+  justification: string;
+  decidedBy: number | null;
+  decidedAt: Date;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export class JuryService {
+  static async getRules(academicYear: string): Promise<JuryRules> {
+    const result = await pool.query(
+      `
+      SELECT passing_average::float as "passingAverage",
+             eliminatory_average::float as "eliminatoryAverage",
+             compensation,
+             max_failed_units as "maxFailedUnits"
+      FROM jury_rules
+      WHERE academic_year = $1
+    `,
+      [academicYear]
+    );
+    return result.rows[0] ?? DEFAULT_JURY_RULES;
+  }
+
+  /**
+   * Propose une décision par semestre à partir des moyennes d'UE d'un
+   * étudiant sur l'année. Une UE est validée (ADM) lorsque sa moyenne atteint
+   * le seuil ; sinon elle peut l'être par compensation (CMP) si sa moyenne
+   * n'est pas éliminatoire et que la moyenne des UE de la même compétence sur
+   * les deux semestres de l'année atteint le seuil. Une UE sans note, ou
+   * dont une note est EN ATTENTE, est ajournée et ne compense pas les autres.
+   */
+  static propose(
+    curriculum: CurriculumUnit[],
+    averages: UnitAverage[],
+    rules: JuryRules
+  ): SemesterProposal[] {
+    const averageByUnit = new Map(
+      averages
+        .filter((unit) => !unit.pending && unit.average !== null)
+        .map((unit) => [unit.unitId, unit.average as number])
+    );
+    const pendingUnits = new Set(
+      averages.filter((unit) => unit.pending).map((unit) => unit.unitId)
+    );
+    const semesters = [...new Set(averages.map((unit) => unit.semester))].sort();
+    const yearUnits = curriculum.filter((unit) =>
+      semesters.includes(unit.semester)
+    );
+
+    // Compensation possible seulement si toutes les UE de la compétence sont notées
+    const competenceAverage = (competenceCode: string): number | null => {
+      const scores = yearUnits
+        .filter((unit) => unit.competenceCode === competenceCode)
+        .map((unit) => averageByUnit.get(unit.id));
+      return scores.every((score) => score !== undefined)
+        ? mean(scores as number[])
+        : null;
+    };
+
+    const decideUnit = (
+      average: number | null,
+      competenceCode: string
+    ): ProposedDecisionCode => {
+      if (average === null) return 'AJ';
+      if (average >= rules.passingAverage) return 'ADM';
+      if (rules.compensation && average >= rules.eliminatoryAverage) {
+        const annual = competenceAverage(competenceCode);
+        if (annual !== null && annual >= rules.passingAverage) return 'CMP';
+      }
+      return 'AJ';
+    };
+
+    return semesters.map((semester) => {
+      const units: UnitDecision[] = yearUnits
+        .filter((unit) => unit.semester === semester)
+        .map((unit) => {
+          const average = averageByUnit.get(unit.id) ?? null;
+          return {
+            unitId: unit.id,
+            code: unit.code,
+            name: unit.name,
+            competenceCode: unit.competenceCode,
+            semester,
+            credits: unit.credits,
+            average,
+            pending: pendingUnits.has(unit.id),
+            decision: decideUnit(average, unit.competenceCode),
+          };
+        });
+
+      const graded = units.filter((unit) => unit.average !== null);
+      const gradedCredits = graded.reduce((sum, unit) => sum + unit.credits, 0);
+      const weightedSum = graded.reduce(
+        (sum, unit) => sum + (unit.average as number) * unit.credits,
+        0
+      );
+      const decisions = units.map((unit) => unit.decision);
+
+      return {
+        semester,
+        average: gradedCredits > 0 ? round(weightedSum / gradedCredits) : null,
+        totalCredits: units.reduce((sum, unit) => sum + unit.credits, 0),
+        validatedCredits: units
+          .filter((unit) => unit.decision !== 'AJ')
+          .reduce((sum, unit) => sum + unit.credits, 0),
+        units,
+        proposedDecision: decisions.includes('AJ')
+          ? 'AJ'
+          : decisions.includes('CMP')
+            ? 'CMP'
+            : 'ADM',
+      };
+    });
+  }
+
+  /**
+   * Décisions de jury des étudiants ayant des moyennes d'UE sur l'année :
+   * la proposition calculée, remplacée le cas échéant par la décision
+   * enregistrée par le jury.
+   */
+  static async getDecisions(
+    academicYear: string,
+    studentId?: number
+  ): Promise<StudentJuryResult[]> {
+    const averages: StudentUnitAverage[] =
+      studentId === undefined
+        ? await CurriculumService.getCohortUnitAverages(academicYear)
+        : await CurriculumService.getUnitAverages(studentId, academicYear);
+    if (averages.length === 0) return [];
+
+    const studentIds = [...new Set(averages.map((unit) => unit.studentId))];
+    const rules = await this.getRules(academicYear);
+    const curriculum = await CurriculumService.findTeachingUnits([
+      ...new Set(averages.map((unit) => unit.semester)),
+    ]);
+    const students = await pool.query(
+      `
+      SELECT id as "studentId",
+             student_id as "studentNumber",
+             first_name as "firstName",
+             last_name as "lastName"
+      FROM students
+      WHERE id = ANY($1)
+      ORDER BY last_name, first_name
+    `,
+      [studentIds]
+    );
+    const overrides = await pool.query<JuryOverride>(
+      `
+      SELECT student_id as "studentId",
+             semester,
+             decision,
+             justification,
+             decided_by as "decidedBy",
+             decided_at as "decidedAt"
+      FROM jury_decisions
+      WHERE academic_year = $1 AND student_id = ANY($2)
+    `,
+      [academicYear, studentIds]
+    );
+
+    return students.rows.map((student) => {
+      const proposals = this.propose(
+        curriculum,
+        averages.filter((unit) => unit.studentId === student.studentId),
+        rules
+      );
+      const semesters = proposals.map((proposal): SemesterDecision => {
+        const override = overrides.rows.find(
+          (row) =>
+            row.studentId === student.studentId &&
+            row.semester === proposal.semester
+        );
+        const decision = override?.decision ?? proposal.proposedDecision;
+        return {
+          ...proposal,
+          // Un semestre admis, même par le jury, acquiert tous ses crédits
+          validatedCredits:
+            decision === 'AJ' ? proposal.validatedCredits : proposal.totalCredits,
+          decision,
+          overridden: override !== undefined,
+          justification: override?.justification ?? null,
+          decidedBy: override?.decidedBy ?? null,
+          decidedAt: override?.decidedAt ?? null,
+        };
+      });
+      const failedUnits = semesters
+        .filter((semester) => semester.decision === 'AJ')
+        .reduce(
+          (sum, semester) =>
+            sum + semester.units.filter((unit) => unit.decision === 'AJ').length,
+          0
+        );
+
+      return {
+        ...student,
+        academicYear,
+        semesters,
+        failedUnits,
+        canProgress: failedUnits <= rules.maxFailedUnits,
+      };
+    });
+  }
+}
@@ -0,0 +1,251 @@
+import { Request } from 'express';
+import { pool, streamQuery } from '../config/database';
+import {
+  DEFAULT_PAGE_SIZE,
+  ListQueryDefinition,
+  Paginated,
+} from '../schemas/listQuery.schema';
+import { AppError } from '../types/error';
+import { SearchService } from './searchService';
+
+export interface ListSource {
+  select: string;
+  from: string;
+  /** Conditions fixes, indépendantes des paramètres de la requête */
+  conditions?: string[];
+}
+
+interface ParsedListQuery {
+  page?: number;
+  limit?: number;
+  cursor?: string;
+  sort?: string;
+  q?: string;
+  [filter: string]: unknown;
+}
+
+interface PreparedListQuery {
+  params: unknown[];
+  conditions: string[];
+  /** Expression de pertinence lorsque `q` est utilisé sans tri explicite */
+  rank: string | null;
+  sortColumn: string;
+  descending: boolean;
+  orderBy: string;
+}
+
+const buildWhere = (conditions: string[]): string =>
+  conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+export class ListQueryService {
+  static encodeCursor(sortValue: unknown, id: unknown): string {
+    return Buffer.from(JSON.stringify([sortValue, id])).toString('base64url');
+  }
+
+  static decodeCursor(cursor: string): [unknown, unknown] {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+      if (Array.isArray(decoded) && decoded.length === 2) {
+        return [decoded[0], decoded[1]];
+      }
+    } catch (error) {
+      // Traité ci-dessous comme un curseur invalide
+    }
+    throw new AppError(400, 'Curseur de pagination invalide', 'INVALID_CURSOR');
+  }
+
+  /**
+   * Exécute une requête de liste paginée. La pagination se fait par page
+   * (`page`) ou par curseur (`cursor`, plus stable sur de gros volumes),
+   * mais pas les deux à la fois.
+   */
+  static async paginate<T extends Record<string, unknown>>(
+    req: Request,
+    definition: ListQueryDefinition,
+    source: ListSource
+  ): Promise<Paginated<T>> {
+    const query = definition.schema.parse(req.query) as ParsedListQuery;
+
+    if (query.page !== undefined && query.cursor !== undefined) {
+      throw new AppError(
+        400,
+        'Les paramètres page et cursor ne peuvent pas être combinés',
+        'INVALID_PAGINATION'
+      );
+    }
+
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const {
+      params,
+      conditions,
+      rank,
+      sortColumn,
+      descending,
+      orderBy,
+    } = this.prepare(query, definition, source);
+
+    if (rank && query.cursor !== undefined) {
+      throw new AppError(
+        400,
+        'Le tri par pertinence ne permet que la pagination par page',
+        'INVALID_PAGINATION'
+      );
+    }
+
+    const countResult = await pool.query(
+      `SELECT COUNT(*)::int as "total" FROM ${source.from} ${buildWhere(conditions)}`,
+      params
+    );
+
+    const pageParams = [...params];
+    const pageConditions = [...conditions];
+    let offset = 0;
+    if (query.cursor !== undefined) {
+      pageParams.push(...this.decodeCursor(query.cursor));
+      pageConditions.push(
+        `(${sortColumn}, ${definition.idColumn}) ${descending ? '<' : '>'} ($${pageParams.length - 1}, $${pageParams.length})`
+      );
+    } else {
+      offset = ((query.page ?? 1) - 1) * limit;
+    }
+    // Une ligne de plus que demandé indique s'il existe une page suivante
+    pageParams.push(limit + 1, offset);
+
+    // La valeur de tri est relue telle que comparée par le curseur, même
+    // lorsque la colonne exposée diffère (expression COALESCE par exemple)
+    const rowsResult = await pool.query(
+      `
+      SELECT ${source.select}, ${sortColumn} as "cursorSortValue"
+      FROM ${source.from}
+      ${buildWhere(pageConditions)}
+      ORDER BY ${orderBy}
+      LIMIT $${pageParams.length - 1} OFFSET $${pageParams.length}
+    `,
+      pageParams
+    );
+
+    const hasMore = rowsResult.rows.length > limit;
+    const rows = rowsResult.rows.slice(0, limit);
+    const data = rows.map(
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      ({ cursorSortValue, ...row }) => row
+    ) as T[];
+    const last = rows[rows.length - 1];
+    const nextCursor =
+      hasMore && !rank
+        ? this.encodeCursor(last.cursorSortValue, last.id)
+        : null;
+    const page = query.cursor === undefined ? query.page ?? 1 : null;
+
+    return {
+      data,
+      pagination: {
+        total: countResult.rows[0].total,
+        limit,
+        page,
+        nextCursor,
+        next: hasMore
+          ? this.buildLink(
+              req,
+              page === null ? { cursor: nextCursor! } : { page: String(page + 1) }
+            )
+          : null,
+      },
+    };
+  }
+
+  /**
+   * Parcourt toutes les lignes correspondant aux filtres, à la recherche et
+   * au tri de la requête, sans pagination. Utilisé par les exports.
+   */
+  static stream<T extends Record<string, unknown>>(
+    req: Request,
+    definition: ListQueryDefinition,
+    source: ListSource
+  ): AsyncGenerator<T> {
+    const query = definition.schema.parse(req.query) as ParsedListQuery;
+    const { params, conditions, orderBy } = this.prepare(
+      query,
+      definition,
+      source
+    );
+
+    return streamQuery<T>(
+      `
+      SELECT ${source.select}
+      FROM ${source.from}
+      ${buildWhere(conditions)}
+      ORDER BY ${orderBy}
+    `,
+      params
+    );
+  }
+
+  /** Filtres, recherche et tri communs à la pagination et aux exports */
+  private static prepare(
+    query: ParsedListQuery,
+    definition: ListQueryDefinition,
+    source: ListSource
+  ): PreparedListQuery {
+    const sort = query.sort ?? definition.defaultSort;
+    const descending = sort.startsWith('-');
+    const sortField = descending ? sort.slice(1) : sort;
+    const sortColumn = definition.sortFields[sortField];
+    const direction = descending ? 'DESC' : 'ASC';
+
+    const params: unknown[] = [];
+    const conditions = [...(source.conditions ?? [])];
+    for (const [name, filter] of Object.entries(definition.filters)) {
+      const value = query[name];
+      if (value === undefined) continue;
+
+      if (filter.match === 'prefix') {
+        params.push(`${SearchService.escapeLike(String(value))}%`);
+        conditions.push(`${filter.column} ILIKE $${params.length}`);
+      } else if (filter.match === 'min' || filter.match === 'max') {
+        params.push(value);
+        conditions.push(
+          `${filter.column} ${filter.match === 'min' ? '>=' : '<='} $${params.length}`
+        );
+      } else {
+        params.push(value);
+        conditions.push(`${filter.column} = $${params.length}`);
+      }
+    }
+
+    // Sans tri explicite, une recherche est classée par pertinence
+    let rank: string | null = null;
+    if (definition.search && query.q !== undefined) {
+      const match = SearchService.match(definition.search, query.q, params);
+      conditions.push(match.condition);
+      if (query.sort === undefined) rank = match.rank;
+    }
+
+    return {
+      params,
+      conditions,
+      rank,
+      sortColumn,
+      descending,
+      orderBy: `${rank ? `${rank} DESC` : `${sortColumn} ${direction}`}, ${definition.idColumn} ${direction}`,
+    };
+  }
+
+  private static buildLink(
+    req: Request,
+    overrides: Record<string, string>
+  ): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(req.query)) {
+      if (key !== 'page' && key !== 'cursor' && typeof value === 'string') {
+        params.set(key, value);
+      }
+    }
+    for (const [key, value] of Object.entries(overrides)) {
+      params.set(key, value);
+    }
+
+    const path = req.path === '/' ? '' : req.path;
+    return `${req.baseUrl}${path}?${params.toString()}`;
+  }
+}
@@ -0,0 +1,145 @@
+import { pool } from '../config/database';
+import { AppError } from '../types/error';
+import { logger } from './loggerService';
+
+export interface LoginThrottleState {
+  id: number;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+const MAX_FAILED_ATTEMPTS = Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5;
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+const IP_MAX_FAILED_ATTEMPTS =
+  Number(process.env.LOGIN_IP_MAX_FAILED_ATTEMPTS) || 50;
+const IP_WINDOW_MINUTES = Number(process.env.LOGIN_IP_WINDOW_MINUTES) || 15;
+const MAX_DELAY_SECONDS = 30;
+
+export class LoginThrottleService {
+  /**
+   * Délai imposé avant la prochaine tentative : 0s pour le premier échec,
+   * puis 2s, 4s, 8s... plafonné à 30s.
+   */
+  static getProgressiveDelay(failedAttempts: number): number {
+    if (failedAttempts < 2) return 0;
+    return Math.min(2 ** (failedAttempts - 1), MAX_DELAY_SECONDS);
+  }
+
+  static async assertAllowed(
+    account: LoginThrottleState | undefined,
+    ip: string | undefined,
+    now = new Date()
+  ): Promise<void> {
+    const ipResult = await pool.query(
+      `
+      SELECT COUNT(*)::int as "failures"
+      FROM login_attempts
+      WHERE ip = $1 AND NOT succeeded
+        AND attempted_at > NOW() - make_interval(mins => $2)
+    `,
+      [ip, IP_WINDOW_MINUTES]
+    );
+
+    if (ipResult.rows[0].failures >= IP_MAX_FAILED_ATTEMPTS) {
+      throw new AppError(
+        429,
+        'Trop de tentatives de connexion depuis cette adresse',
+        'TOO_MANY_LOGIN_ATTEMPTS',
+        { retryAfter: IP_WINDOW_MINUTES * 60 }
+      );
+    }
+
+    if (!account) return;
+
+    if (account.lockedUntil && account.lockedUntil > now) {
+      throw new AppError(
+        423,
+        'Compte temporairement verrouillé suite à trop de tentatives',
+        'ACCOUNT_LOCKED',
+        {
+          retryAfter: Math.ceil(
+            (account.lockedUntil.getTime() - now.getTime()) / 1000
+          ),
+        }
+      );
+    }
+
+    const delay = this.getProgressiveDelay(account.failedLoginAttempts);
+    if (delay > 0 && account.lastFailedLoginAt) {
+      const allowedAt = account.lastFailedLoginAt.getTime() + delay * 1000;
+      if (allowedAt > now.getTime()) {
+        throw new AppError(
+          429,
+          'Veuillez patienter avant une nouvelle tentative',
+          'LOGIN_THROTTLED',
+          { retryAfter: Math.ceil((allowedAt - now.getTime()) / 1000) }
+        );
+      }
+    }
+  }
+
+  static async recordFailure(
+    email: string,
+    ip: string | undefined,
+    professorId?: number
+  ): Promise<void> {
+    await pool.query(
+      'INSERT INTO login_attempts (email, ip, succeeded) VALUES ($1, $2, FALSE)',
+      [email, ip]
+    );
+
+    logger.warn('Failed login attempt', { email, ip });
+
+    if (professorId === undefined) return;
+
+    const result = await pool.query(
+      `
+      UPDATE professors
+      SET failed_login_attempts = failed_login_attempts + 1,
+          last_failed_login_at = NOW(),
+          locked_until = CASE
+            WHEN failed_login_attempts + 1 >= $2
+            THEN NOW() + make_interval(mins => $3)
+            ELSE locked_until
+          END
+      WHERE id = $1
+      RETURNING failed_login_attempts as "failedLoginAttempts"
+    `,
+      [professorId, MAX_FAILED_ATTEMPTS, LOCKOUT_MINUTES]
+    );
+
+    if (result.rows[0]?.failedLoginAttempts >= MAX_FAILED_ATTEMPTS) {
+      logger.warn('Account locked after repeated failed logins', {
+        email,
+        ip,
+        professorId,
+      });
+    }
+  }
+
+  static async recordSuccess(
+    email: string,
+    ip: string | undefined,
+    professorId: number
+  ): Promise<void> {
+    await pool.query(
+      'INSERT INTO login_attempts (email, ip, succeeded) VALUES ($1, $2, TRUE)',
+      [email, ip]
+    );
+    await this.unlock(professorId);
+  }
+
+  static async unlock(professorId: number): Promise<boolean> {
+    const result = await pool.query(
+      `
+      UPDATE professors
+      SET failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL
+      WHERE id = $1
+      RETURNING id
+    `,
+      [professorId]
+    );
+    return result.rows.length > 0;
+  }
+}
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from './loggerService';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Écrit chaque email dans un fichier .eml (développement local)
+export class FileMailTransport implements MailTransport {
+  constructor(private outputDir = process.env.MAIL_OUTPUT_DIR || 'logs/mails') {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const filename = `${Date.now()}-${message.to.replace(/[^a-z0-9@.-]/gi, '_')}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.promises.writeFile(path.join(this.outputDir, filename), content);
+    logger.info('Mail written to file', { to: message.to, filename });
+  }
+}
+
+// Conserve les emails en mémoire (tests)
+export class MemoryMailTransport implements MailTransport {
+  public sent: (MailMessage & { from: string })[] = [];
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+const createTransport = (): MailTransport => {
+  const transport =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'file');
+
+  switch (transport) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'memory':
+      return new MemoryMailTransport();
+    default:
+      return new FileMailTransport();
+  }
+};
+
+export class MailService {
+  private static transport: MailTransport = createTransport();
+
+  static setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    await this.transport.send({
+      ...message,
+      from: process.env.MAIL_FROM || 'IUT de Laval <no-reply@iut-laval.fr>',
+    });
+  }
+}
@@ -1,11 +1,43 @@
 import PDFDocument from 'pdfkit';
+import { CurriculumService } from './curriculumService';
+import { GradeSession, SpecialGradeCode } from './gradeService';
+
+const SESSION_LABELS: Record<GradeSession, string> = {
+  first: '1re session',
+  resit: 'Rattrapage',
+};
+
+export interface AssessmentResult {
+  name: string;
+  weight: number;
+  maxScore: number;
+  score: number;
+}
 
 interface StudentGrade {
   courseCode: string;
   courseName: string;
   credits: number;
-  grade: number;
+  /** Note retenue, éventuellement issue du rattrapage ; null avec ABJ, DISP et EN ATTENTE */
+  grade: number | null;
+  /** Code spécial saisi à la place de la note, affiché tel quel */
+  specialCode?: SpecialGradeCode | null;
+  semester: string;
+  session?: GradeSession;
+  /** Détail des évaluations, affiché sous la note du cours */
+  assessments?: AssessmentResult[];
+}
+
+/** Moyenne d'une UE, qui remplace les crédits des cours dans le bilan du semestre */
+export interface UnitResult {
+  code: string;
+  name: string;
   semester: string;
+  credits: number;
+  average: number | null;
+  /** Une note de l'UE est en attente */
+  pending?: boolean;
+  validated: boolean;
 }
 
 interface StudentInfo {
@@ -18,13 +50,17 @@ interface StudentInfo {
 interface SemesterSummary {
   semester: string;
   grades: StudentGrade[];
-  average: number;
+  units: UnitResult[];
+  average: number | null;
   totalCredits: number;
   validatedCredits: number;
 }
 
 export class PDFService {
-  private static organizeBySemester(grades: StudentGrade[]): SemesterSummary[] {
+  private static organizeBySemester(
+    grades: StudentGrade[],
+    units: UnitResult[]
+  ): SemesterSummary[] {
     const semesters = grades.reduce((acc, grade) => {
       if (!acc[grade.semester]) {
         acc[grade.semester] = [];
@@ -35,23 +71,40 @@ export class PDFService {
 
     return Object.entries(semesters)
       .map(([semester, semesterGrades]) => {
+        const semesterUnits = units.filter((unit) => unit.semester === semester);
+        if (semesterUnits.length > 0) {
+          const summary = CurriculumService.summarize(semesterUnits);
+          return {
+            semester,
+            grades: semesterGrades,
+            units: semesterUnits,
+            average: summary.averageGrade,
+            totalCredits: summary.totalCredits,
+            validatedCredits: summary.validatedCredits,
+          };
+        }
+
+        // Les notes sans valeur (ABJ, DISP, EN ATTENTE) sont exclues de la moyenne
+        const graded = semesterGrades.filter((g) => g.grade !== null);
         const totalCredits = semesterGrades.reduce(
           (sum, g) => sum + g.credits,
           0
         );
-        const weightedSum = semesterGrades.reduce(
-          (sum, g) => sum + g.grade * g.credits,
+        const gradedCredits = graded.reduce((sum, g) => sum + g.credits, 0);
+        const weightedSum = graded.reduce(
+          (sum, g) => sum + (g.grade as number) * g.credits,
           0
         );
-        const validatedCredits = semesterGrades.reduce(
-          (sum, g) => sum + (g.grade >= 10 ? g.credits : 0),
+        const validatedCredits = graded.reduce(
+          (sum, g) => sum + ((g.grade as number) >= 10 ? g.credits : 0),
           0
         );
 
         return {
           semester,
           grades: semesterGrades,
-          average: weightedSum / totalCredits,
+          units: [],
+          average: gradedCredits > 0 ? weightedSum / gradedCredits : null,
           totalCredits,
           validatedCredits,
         };
@@ -61,7 +114,8 @@ export class PDFService {
 
   static async generateTranscript(
     studentInfo: StudentInfo,
-    grades: StudentGrade[]
+    grades: StudentGrade[],
+    units: UnitResult[] = []
   ): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       try {
@@ -90,8 +144,9 @@ export class PDFService {
           .moveDown();
 
         // Organisation par semestre
-        const semesterSummaries = this.organizeBySemester(grades);
-        const colWidths = [80, 200, 70, 70];
+        const semesterSummaries = this.organizeBySemester(grades, units);
+        const colWidths = [80, 200, 70, 70, 80];
+        const unitColWidths = [80, 180, 50, 70, 90];
         const startX = 50;
 
         semesterSummaries.forEach((semester) => {
@@ -102,7 +157,7 @@ export class PDFService {
 
           // Tableau des notes
           const tableTop = doc.y;
-          const headers = ['Code', 'Cours', 'Crédits', 'Note'];
+          const headers = ['Code', 'Cours', 'Crédits', 'Note', 'Session'];
           const lineHeight = 20;
 
           // En-tête du tableau
@@ -122,16 +177,72 @@ export class PDFService {
               .text(grade.courseCode, x, y)
               .text(grade.courseName, (x += colWidths[0]), y)
               .text(grade.credits.toString(), (x += colWidths[1]), y)
-              .text(Number(grade.grade).toFixed(2), (x += colWidths[2]), y);
+              .text(
+                grade.specialCode ?? Number(grade.grade).toFixed(2),
+                (x += colWidths[2]),
+                y
+              )
+              .text(
+                SESSION_LABELS[grade.session ?? 'first'],
+                (x += colWidths[3]),
+                y
+              );
             y += lineHeight;
+
+            grade.assessments?.forEach((assessment) => {
+              doc
+                .fontSize(9)
+                .text(
+                  `${assessment.name} (coef. ${assessment.weight}) : ${assessment.score}/${assessment.maxScore}`,
+                  startX + colWidths[0] + 10,
+                  y
+                )
+                .fontSize(14);
+              y += lineHeight - 5;
+            });
           });
 
+          // Unités d'enseignement : les crédits ECTS sont acquis par UE
+          if (semester.units.length > 0) {
+            y += lineHeight;
+            x = startX;
+            ['UE', 'Intitulé', 'ECTS', 'Moyenne', 'Décision'].forEach(
+              (header, i) => {
+                doc.text(header, x, y).underline(x, y + 15, unitColWidths[i], 1);
+                x += unitColWidths[i];
+              }
+            );
+            y += 20;
+            semester.units.forEach((unit) => {
+              x = startX;
+              doc
+                .text(unit.code, x, y)
+                .text(unit.name, (x += unitColWidths[0]), y)
+                .text(unit.credits.toString(), (x += unitColWidths[1]), y)
+                .text(
+                  unit.average === null ? '-' : unit.average.toFixed(2),
+                  (x += unitColWidths[2]),
+                  y
+                )
+                .text(
+                  unit.pending
+                    ? 'En attente'
+                    : unit.validated
+                      ? 'Validée'
+                      : 'Non validée',
+                  (x += unitColWidths[3]),
+                  y
+                );
+              y += lineHeight;
+            });
+          }
+
           // Résumé du semestre
           const summaryX = startX + colWidths[0] + colWidths[1];
           doc
             .moveDown(2)
             .text(
-              `Moyenne du semestre: ${semester.average.toFixed(2)}/20`,
+              `Moyenne du semestre: ${semester.average === null ? '-' : semester.average.toFixed(2)}/20`,
               summaryX
             )
             .text(
@@ -0,0 +1,30 @@
+export interface SearchMatch {
+  condition: string;
+  rank: string;
+}
+
+export class SearchService {
+  static escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+  }
+
+  /**
+   * Construit la condition de recherche et l'expression de pertinence
+   * pour `document`, une expression SQL normalisée par search_normalize()
+   * et couverte par un index trigramme. Les paramètres sont ajoutés à
+   * `params`.
+   *
+   * Une ligne correspond si elle contient le texte recherché ou si l'un
+   * de ses mots lui est suffisamment proche (fautes de frappe).
+   */
+  static match(document: string, q: string, params: unknown[]): SearchMatch {
+    params.push(q, `%${this.escapeLike(q)}%`);
+    const term = `search_normalize($${params.length - 1})`;
+    const pattern = `search_normalize($${params.length})`;
+
+    return {
+      condition: `(${document} LIKE ${pattern} OR ${term} <% ${document})`,
+      rank: `word_similarity(${term}, ${document})`,
+    };
+  }
+}
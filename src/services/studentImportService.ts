@@ -0,0 +1,196 @@
+import { Pool, PoolClient } from 'pg';
+import { pool, withTransaction } from '../config/database';
+import {
+  CreateStudentInput,
+  createStudentSchema,
+} from '../schemas/student.schema';
+import { AppError } from '../types/error';
+import { CsvRow } from './csvService';
+
+export interface ImportRowError {
+  line: number;
+  field?: string;
+  message: string;
+}
+
+export interface StudentImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  errors: ImportRowError[];
+}
+
+interface ValidStudentRow {
+  line: number;
+  student: CreateStudentInput;
+}
+
+/** En-têtes normalisés (voir CsvService.normalizeHeader) acceptés pour chaque champ */
+export const STUDENT_CSV_COLUMNS: Record<string, string> = {
+  firstname: 'firstName',
+  prenom: 'firstName',
+  lastname: 'lastName',
+  nom: 'lastName',
+  email: 'email',
+  mail: 'email',
+  courriel: 'email',
+  dateofbirth: 'dateOfBirth',
+  datenaissance: 'dateOfBirth',
+  datedenaissance: 'dateOfBirth',
+  studentid: 'studentId',
+  numeroetudiant: 'studentId',
+  numetudiant: 'studentId',
+};
+
+/** Les exports tableur français utilisent le format JJ/MM/AAAA */
+const toIsoDate = (value: string | undefined): string | undefined => {
+  const match = value?.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : value;
+};
+
+export class StudentImportService {
+  static validateRows(rows: CsvRow[]): {
+    valid: ValidStudentRow[];
+    errors: ImportRowError[];
+  } {
+    const valid: ValidStudentRow[] = [];
+    const errors: ImportRowError[] = [];
+    const seenStudentIds = new Map<string, number>();
+    const seenEmails = new Map<string, number>();
+
+    for (const { line, values } of rows) {
+      const result = createStudentSchema.safeParse({
+        ...values,
+        dateOfBirth: toIsoDate(values.dateOfBirth),
+      });
+
+      if (!result.success) {
+        errors.push(
+          ...result.error.errors.map((issue) => ({
+            line,
+            field: issue.path.join('.'),
+            message: issue.message,
+          }))
+        );
+        continue;
+      }
+
+      const student = result.data;
+      const email = student.email.toLowerCase();
+      const duplicateOf =
+        seenStudentIds.get(student.studentId) ?? seenEmails.get(email);
+      if (duplicateOf !== undefined) {
+        errors.push({
+          line,
+          field: seenStudentIds.has(student.studentId) ? 'studentId' : 'email',
+          message: `Doublon de la ligne ${duplicateOf}`,
+        });
+        continue;
+      }
+
+      seenStudentIds.set(student.studentId, line);
+      seenEmails.set(email, line);
+      valid.push({ line, student });
+    }
+
+    return { valid, errors };
+  }
+
+  /**
+   * Importe les étudiants d'un fichier CSV, en mettant à jour ceux dont le
+   * numéro étudiant existe déjà. L'import est refusé dans son ensemble si
+   * une ligne est invalide ; en mode dryRun, rien n'est écrit et le
+   * rapport indique ce qui serait créé ou mis à jour.
+   */
+  static async import(
+    rows: CsvRow[],
+    dryRun: boolean
+  ): Promise<StudentImportReport> {
+    const { valid, errors } = this.validateRows(rows);
+
+    const run = async (
+      db: Pool | PoolClient
+    ): Promise<StudentImportReport> => {
+      const existing = await db.query(
+        `
+        SELECT student_id as "studentId", email
+        FROM students
+        WHERE student_id = ANY($1) OR lower(email) = ANY($2)
+      `,
+        [
+          valid.map(({ student }) => student.studentId),
+          valid.map(({ student }) => student.email.toLowerCase()),
+        ]
+      );
+
+      const existingStudentIds = new Set<string>(
+        existing.rows.map((row) => row.studentId)
+      );
+      const emailOwners = new Map<string, string>(
+        existing.rows.map((row) => [row.email.toLowerCase(), row.studentId])
+      );
+
+      // Un email ne peut pas être repris par un autre étudiant
+      const importable = valid.filter(({ line, student }) => {
+        const owner = emailOwners.get(student.email.toLowerCase());
+        if (owner !== undefined && owner !== student.studentId) {
+          errors.push({
+            line,
+            field: 'email',
+            message: `Email déjà utilisé par l'étudiant ${owner}`,
+          });
+          return false;
+        }
+        return true;
+      });
+
+      errors.sort((a, b) => a.line - b.line);
+      const updated = importable.filter(({ student }) =>
+        existingStudentIds.has(student.studentId)
+      ).length;
+      const report: StudentImportReport = {
+        dryRun,
+        total: rows.length,
+        created: importable.length - updated,
+        updated,
+        errors,
+      };
+
+      if (dryRun) return report;
+
+      if (errors.length > 0) {
+        throw new AppError(
+          422,
+          'Import refusé : le fichier contient des erreurs',
+          'IMPORT_VALIDATION_FAILED',
+          { ...report, created: 0, updated: 0 }
+        );
+      }
+
+      const students = importable.map(({ student }) => student);
+      await db.query(
+        `
+        INSERT INTO students (first_name, last_name, email, date_of_birth, student_id)
+        SELECT * FROM UNNEST($1::text[], $2::text[], $3::text[], $4::date[], $5::text[])
+        ON CONFLICT (student_id) DO UPDATE
+        SET first_name = EXCLUDED.first_name,
+            last_name = EXCLUDED.last_name,
+            email = EXCLUDED.email,
+            date_of_birth = EXCLUDED.date_of_birth
+      `,
+        [
+          students.map((student) => student.firstName),
+          students.map((student) => student.lastName),
+          students.map((student) => student.email),
+          students.map((student) => student.dateOfBirth),
+          students.map((student) => student.studentId),
+        ]
+      );
+
+      return report;
+    };
+
+    return dryRun ? run(pool) : withTransaction(run);
+  }
+}
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { pool } from '../config/database';
+import { JWTPayload } from '../types/auth';
+import { AppError } from '../types/error';
+import { logger } from './loggerService';
+
+interface SessionMetadata {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+}
+
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export class TokenService {
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  static signAccessToken(payload: JWTPayload): string {
+    return jwt.sign(
+      { id: payload.id, email: payload.email, role: payload.role, sid: payload.sid },
+      process.env.JWT_SECRET!,
+      { expiresIn: process.env.JWT_EXPIRES_IN || '15m' }
+    );
+  }
+
+  private static async issueRefreshToken(sessionId: string): Promise<string> {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+    await pool.query(
+      `
+      INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+      VALUES ($1, $2, NOW() + make_interval(days => $3))
+    `,
+      [sessionId, this.hashToken(refreshToken), REFRESH_TOKEN_TTL_DAYS]
+    );
+
+    return refreshToken;
+  }
+
+  static async createSession(
+    user: Omit<JWTPayload, 'sid'>,
+    metadata: SessionMetadata
+  ): Promise<TokenPair> {
+    const sessionId = crypto.randomUUID();
+    const ownerColumn = user.role === 'student' ? 'student_id' : 'professor_id';
+
+    await pool.query(
+      `
+      INSERT INTO auth_sessions (id, ${ownerColumn}, ip, user_agent)
+      VALUES ($1, $2, $3, $4)
+    `,
+      [sessionId, user.id, metadata.ip, metadata.userAgent]
+    );
+
+    return {
+      token: this.signAccessToken({ ...user, sid: sessionId }),
+      refreshToken: await this.issueRefreshToken(sessionId),
+    };
+  }
+
+  /**
+   * Échange un refresh token contre une nouvelle paire de tokens.
+   * Un refresh token ne peut être utilisé qu'une seule fois : sa
+   * réutilisation révoque l'ensemble de la session (vol probable).
+   */
+  static async rotate(refreshToken: string): Promise<TokenPair> {
+    const tokenHash = this.hashToken(refreshToken);
+
+    const consumed = await pool.query(
+      `
+      UPDATE refresh_tokens rt
+      SET used_at = NOW()
+      FROM auth_sessions s
+      LEFT JOIN professors p ON p.id = s.professor_id
+      LEFT JOIN students st ON st.id = s.student_id
+      WHERE rt.token_hash = $1
+        AND rt.used_at IS NULL
+        AND rt.expires_at > NOW()
+        AND s.id = rt.session_id
+        AND s.revoked_at IS NULL
+        AND (p.is_active OR st.id IS NOT NULL)
+      RETURNING s.id as "sessionId",
+                COALESCE(p.id, st.id) as id,
+                COALESCE(p.email, st.email) as email,
+                COALESCE(p.role, 'student') as role
+    `,
+      [tokenHash]
+    );
+
+    if (consumed.rows.length === 0) {
+      const existing = await pool.query(
+        `
+        SELECT session_id as "sessionId", used_at as "usedAt"
+        FROM refresh_tokens
+        WHERE token_hash = $1
+      `,
+        [tokenHash]
+      );
+
+      if (existing.rows.length > 0 && existing.rows[0].usedAt) {
+        await this.revokeSession(existing.rows[0].sessionId);
+        logger.warn('Refresh token reuse detected, session revoked', {
+          sessionId: existing.rows[0].sessionId,
+        });
+        throw new AppError(
+          401,
+          'Refresh token déjà utilisé, session révoquée',
+          'REFRESH_TOKEN_REUSED'
+        );
+      }
+
+      throw new AppError(
+        401,
+        'Refresh token invalide ou expiré',
+        'INVALID_REFRESH_TOKEN'
+      );
+    }
+
+    const { sessionId, id, email, role } = consumed.rows[0];
+
+    return {
+      token: this.signAccessToken({ id, email, role, sid: sessionId }),
+      refreshToken: await this.issueRefreshToken(sessionId),
+    };
+  }
+
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    const result = await pool.query(
+      'SELECT id FROM auth_sessions WHERE id = $1 AND revoked_at IS NULL',
+      [sessionId]
+    );
+    return result.rows.length > 0;
+  }
+
+  static async revokeSession(sessionId: string): Promise<void> {
+    await pool.query(
+      'UPDATE auth_sessions SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+      [sessionId]
+    );
+  }
+
+  static async revokeAllSessions(
+    professorId: number,
+    exceptSessionId?: string
+  ): Promise<void> {
+    await pool.query(
+      `
+      UPDATE auth_sessions SET revoked_at = NOW()
+      WHERE professor_id = $1 AND revoked_at IS NULL
+        AND ($2::uuid IS NULL OR id <> $2::uuid)
+    `,
+      [professorId, exceptSessionId ?? null]
+    );
+  }
+
+  static async revokeAllStudentSessions(studentId: number): Promise<void> {
+    await pool.query(
+      'UPDATE auth_sessions SET revoked_at = NOW() WHERE student_id = $1 AND revoked_at IS NULL',
+      [studentId]
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Implémentation de TOTP (RFC 6238) compatible avec les applications
+ * d'authentification usuelles (HMAC-SHA1, 6 chiffres, période de 30s).
+ */
+export class TotpService {
+  static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+      value &= (1 << bits) - 1;
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error(`Invalid base32 character: ${char}`);
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+      value &= (1 << bits) - 1;
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  static generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  static getStep(time = Date.now()): number {
+    return Math.floor(time / 1000 / STEP_SECONDS);
+  }
+
+  static generate(secret: string, step = this.getStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto
+      .createHmac('sha1', this.base32Decode(secret))
+      .update(counter)
+      .digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+  }
+
+  /**
+   * Retourne le pas de temps correspondant au code (pour empêcher sa
+   * réutilisation), ou null si le code est invalide. Une dérive d'un pas
+   * de part et d'autre est tolérée.
+   */
+  static verify(
+    secret: string,
+    code: string,
+    time = Date.now(),
+    window = 1
+  ): number | null {
+    if (!/^\d{6}$/.test(code)) return null;
+
+    const current = this.getStep(time);
+    for (let step = current - window; step <= current + window; step++) {
+      const expected = Buffer.from(this.generate(secret, step));
+      if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  static buildOtpAuthUri(accountName: string, secret: string): string {
+    const issuer = process.env.TOTP_ISSUER || 'IUT Laval Notes';
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(DIGITS),
+      period: String(STEP_SECONDS),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+}
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { pool } from '../config/database';
+import { AppError } from '../types/error';
+import { TotpService } from './totpService';
+import { TokenService } from './tokenService';
+
+export type ChallengePurpose = '2fa' | '2fa-setup';
+
+interface ChallengePayload {
+  id: number;
+  purpose: ChallengePurpose;
+}
+
+const RECOVERY_CODES_COUNT = 10;
+
+export class TwoFactorService {
+  /**
+   * Token intermédiaire remis après validation du mot de passe. Il ne
+   * contient pas de session et n'est donc pas accepté par authMiddleware.
+   */
+  static createChallenge(professorId: number, purpose: ChallengePurpose): string {
+    return jwt.sign({ id: professorId, purpose }, process.env.JWT_SECRET!, {
+      expiresIn: '5m',
+    });
+  }
+
+  static verifyChallenge(token: string, purpose: ChallengePurpose): number {
+    try {
+      const payload = jwt.verify(
+        token,
+        process.env.JWT_SECRET!
+      ) as ChallengePayload;
+
+      if (payload.purpose !== purpose) throw new Error('Invalid purpose');
+
+      return payload.id;
+    } catch (error) {
+      throw new AppError(
+        401,
+        'Challenge invalide ou expiré, veuillez vous reconnecter',
+        'INVALID_CHALLENGE'
+      );
+    }
+  }
+
+  static async startSetup(
+    professorId: number
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    const result = await pool.query(
+      'SELECT email, totp_enabled as "totpEnabled" FROM professors WHERE id = $1',
+      [professorId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Professeur non trouvé', 'PROFESSOR_NOT_FOUND');
+    }
+    if (result.rows[0].totpEnabled) {
+      throw new AppError(
+        409,
+        "L'authentification à deux facteurs est déjà activée",
+        'TWO_FACTOR_ALREADY_ENABLED'
+      );
+    }
+
+    // Le secret reste en attente tant qu'un premier code n'a pas été validé
+    const secret = TotpService.generateSecret();
+    await pool.query('UPDATE professors SET totp_secret = $1 WHERE id = $2', [
+      secret,
+      professorId,
+    ]);
+
+    return {
+      secret,
+      otpauthUri: TotpService.buildOtpAuthUri(result.rows[0].email, secret),
+    };
+  }
+
+  static async enable(professorId: number, code: string): Promise<string[]> {
+    const result = await pool.query(
+      'SELECT totp_secret as "totpSecret", totp_enabled as "totpEnabled" FROM professors WHERE id = $1',
+      [professorId]
+    );
+    const professor = result.rows[0];
+
+    if (!professor?.totpSecret || professor.totpEnabled) {
+      throw new AppError(
+        409,
+        "Aucune activation de l'authentification à deux facteurs en cours",
+        'TWO_FACTOR_SETUP_NOT_STARTED'
+      );
+    }
+
+    const step = TotpService.verify(professor.totpSecret, code);
+    if (step === null) {
+      throw new AppError(400, 'Code invalide', 'INVALID_TWO_FACTOR_CODE');
+    }
+
+    await pool.query(
+      'UPDATE professors SET totp_enabled = TRUE, totp_last_used_step = $1 WHERE id = $2',
+      [step, professorId]
+    );
+
+    return this.regenerateRecoveryCodes(professorId);
+  }
+
+  static async regenerateRecoveryCodes(professorId: number): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODES_COUNT }, () =>
+      crypto.randomBytes(5).toString('hex').replace(/(.{5})/, '$1-')
+    );
+
+    await pool.query(
+      'DELETE FROM two_factor_recovery_codes WHERE professor_id = $1',
+      [professorId]
+    );
+    await pool.query(
+      `
+      INSERT INTO two_factor_recovery_codes (professor_id, code_hash)
+      SELECT $1, UNNEST($2::text[])
+    `,
+      [professorId, codes.map((code) => TokenService.hashToken(code))]
+    );
+
+    return codes;
+  }
+
+  /**
+   * Vérifie un code TOTP ou, à défaut, consomme un code de récupération.
+   */
+  static async verify(
+    professorId: number,
+    { code, recoveryCode }: { code?: string; recoveryCode?: string }
+  ): Promise<boolean> {
+    if (recoveryCode) {
+      const result = await pool.query(
+        `
+        UPDATE two_factor_recovery_codes
+        SET used_at = NOW()
+        WHERE professor_id = $1 AND code_hash = $2 AND used_at IS NULL
+        RETURNING id
+      `,
+        [professorId, TokenService.hashToken(recoveryCode.trim().toLowerCase())]
+      );
+      return result.rows.length > 0;
+    }
+
+    if (!code) return false;
+
+    const result = await pool.query(
+      `
+      SELECT totp_secret as "totpSecret", totp_last_used_step as "lastUsedStep"
+      FROM professors
+      WHERE id = $1 AND totp_enabled
+    `,
+      [professorId]
+    );
+    if (result.rows.length === 0) return false;
+
+    const { totpSecret, lastUsedStep } = result.rows[0];
+    const step = TotpService.verify(totpSecret, code);
+
+    // Un code déjà utilisé ne peut pas être rejoué
+    if (step === null || (lastUsedStep !== null && step <= Number(lastUsedStep))) {
+      return false;
+    }
+
+    await pool.query(
+      'UPDATE professors SET totp_last_used_step = $1 WHERE id = $2',
+      [step, professorId]
+    );
+    return true;
+  }
+
+  static async disable(professorId: number): Promise<void> {
+    await pool.query(
+      `
+      UPDATE professors
+      SET totp_enabled = FALSE, totp_secret = NULL, totp_last_used_step = NULL
+      WHERE id = $1
+    `,
+      [professorId]
+    );
+    await pool.query(
+      'DELETE FROM two_factor_recovery_codes WHERE professor_id = $1',
+      [professorId]
+    );
+  }
+
+  static async isRequiredFor(professorId: number): Promise<boolean> {
+    const result = await pool.query(
+      `
+      SELECT COALESCE(ds.require_two_factor, FALSE) as "required"
+      FROM professors p
+      LEFT JOIN department_settings ds ON ds.department = p.department
+      WHERE p.id = $1
+    `,
+      [professorId]
+    );
+    return result.rows[0]?.required === true;
+  }
+}
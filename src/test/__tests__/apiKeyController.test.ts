@@ -0,0 +1,87 @@
+import { Response } from 'express';
+import { apiKeyController } from '../../controllers/apiKeyController';
+import { pool } from '../../config/database';
+import { RequestWithUser } from '../../middleware/auth';
+import { ApiKeyService } from '../../services/apiKeyService';
+
+jest.mock('../../config/database');
+
+describe('apiKeyController', () => {
+  let req: Partial<RequestWithUser>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should store only the hash and return the key once', async () => {
+      const created = { id: 1, name: 'Sync scolarité', scopes: ['stats:read'] };
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [created] });
+      req = {
+        user: { id: 2, email: 'admin@example.com', role: 'admin', sid: 'session' },
+        body: { name: 'Sync scolarité', scopes: ['stats:read'] },
+      };
+
+      await apiKeyController.create(req as RequestWithUser, res as Response);
+
+      const [, values] = (pool.query as jest.Mock).mock.calls[0];
+      const { key } = json.mock.calls[0][0];
+      expect(key).toMatch(/^iutk_[0-9a-f]{8}_/);
+      expect(values).not.toContain(key);
+      expect(values[2]).toMatch(/^[0-9a-f]{64}$/);
+      expect(values[4]).toBe(2);
+      expect(status).toHaveBeenCalledWith(201);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should throw 404 if the key does not exist', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+      req = { params: { id: '1' } };
+
+      await expect(
+        apiKeyController.revoke(req as RequestWithUser, res as Response)
+      ).rejects.toMatchObject({ statusCode: 404, code: 'API_KEY_NOT_FOUND' });
+    });
+
+    it('should revoke the key', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ id: 1 }] });
+      req = { params: { id: '1' } };
+
+      await apiKeyController.revoke(req as RequestWithUser, res as Response);
+
+      expect(status).toHaveBeenCalledWith(204);
+    });
+  });
+});
+
+describe('ApiKeyService.isAllowed', () => {
+  it('should allow reads with a read scope on the matching route group', () => {
+    expect(ApiKeyService.isAllowed(['stats:read'], '/api/stats', 'GET')).toBe(true);
+    expect(ApiKeyService.isAllowed(['stats:read'], '/api/grades', 'GET')).toBe(false);
+  });
+
+  it('should refuse writes with a read scope', () => {
+    expect(ApiKeyService.isAllowed(['grades:read'], '/api/grades', 'POST')).toBe(false);
+    expect(ApiKeyService.isAllowed(['grades:write'], '/api/grades', 'POST')).toBe(true);
+    expect(ApiKeyService.isAllowed(['grades:write'], '/api/grades', 'GET')).toBe(true);
+  });
+
+  it('should refuse route groups that cannot be granted', () => {
+    expect(
+      ApiKeyService.isAllowed(['students:write'], '/api/professors', 'GET')
+    ).toBe(false);
+  });
+});
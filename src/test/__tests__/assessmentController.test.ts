@@ -0,0 +1,201 @@
+import { Request, Response } from 'express';
+import { assessmentController } from '../../controllers/assessmentController';
+import { pool, withTransaction } from '../../config/database';
+import { AssessmentService } from '../../services/assessmentService';
+import { CourseOfferingService } from '../../services/courseOfferingService';
+import { CourseAccessService } from '../../services/courseAccessService';
+import { AppError } from '../../types/error';
+
+jest.mock('../../config/database');
+jest.mock('../../services/assessmentService');
+jest.mock('../../services/courseOfferingService');
+jest.mock('../../services/courseAccessService');
+
+const offering = {
+  id: 5,
+  courseId: 3,
+  semester: 'S1',
+  academicYear: '2024-2025',
+};
+
+describe('assessmentController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '5', assessmentId: '8' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+    (CourseOfferingService.findById as jest.Mock).mockResolvedValue(offering);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create an assessment with a default max score', async () => {
+      const assessment = { id: 8, offeringId: 5, name: 'Examen', weight: 2, maxScore: 20 };
+      req.body = { name: 'Examen', weight: 2 };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [assessment] });
+
+      await assessmentController.create(req as Request, res as Response);
+
+      expect(pool.query).toHaveBeenCalledWith(expect.any(String), [
+        5,
+        'Examen',
+        2,
+        20,
+        null,
+      ]);
+      // Les étudiants déjà notés n'ont pas encore de note pour cette évaluation
+      expect(AssessmentService.recomputeGrades).toHaveBeenCalledWith(pool, offering);
+      expect(status).toHaveBeenCalledWith(201);
+      expect(json).toHaveBeenCalledWith(assessment);
+    });
+
+    it('should refuse a professor not assigned to the course', async () => {
+      req.body = { name: 'Examen', weight: 2 };
+      (CourseAccessService.assertCanManageGrades as jest.Mock).mockRejectedValueOnce(
+        new AppError(403, 'Cours non attribué', 'COURSE_NOT_ASSIGNED')
+      );
+
+      await expect(
+        assessmentController.create(req as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should refuse a max score below existing marks', async () => {
+      req.body = { maxScore: 10 };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 8, maxScore: 20 }] })
+        .mockResolvedValueOnce({ rows: [{ count: 2 }] });
+
+      await expect(
+        assessmentController.update(req as Request, res as Response)
+      ).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'ASSESSMENT_SCORES_ABOVE_MAX',
+        details: { count: 2 },
+      });
+      expect(withTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should recompute course grades when the weight changes', async () => {
+      req.body = { weight: 3 };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 8, maxScore: 20 }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 8, weight: 3 }] });
+
+      await assessmentController.update(req as Request, res as Response);
+
+      expect(AssessmentService.recomputeGrades).toHaveBeenCalledWith(pool, offering);
+      expect(status).toHaveBeenCalledWith(200);
+    });
+  });
+
+  describe('saveMarks', () => {
+    it('should reject scores above the max score and duplicated students', async () => {
+      req.body = {
+        marks: [
+          { studentId: 1, score: 25 },
+          { studentId: 2, score: 12 },
+          { studentId: 2, score: 13 },
+        ],
+      };
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 8, maxScore: 20 }] });
+
+      await expect(
+        assessmentController.saveMarks(req as Request, res as Response)
+      ).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_MARKS',
+        details: [
+          { index: 0, studentId: 1, message: expect.any(String) },
+          { index: 2, studentId: 2, message: 'Étudiant présent plusieurs fois' },
+        ],
+      });
+    });
+
+    it('should return 404 with the unknown students', async () => {
+      req.body = { marks: [{ studentId: 1, score: 12 }, { studentId: 9, score: 8 }] };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 8, maxScore: 20 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      await expect(
+        assessmentController.saveMarks(req as Request, res as Response)
+      ).rejects.toMatchObject({
+        statusCode: 404,
+        code: 'STUDENT_NOT_FOUND',
+        details: { studentIds: [9] },
+      });
+    });
+
+    it('should save and remove marks then recompute grades in one transaction', async () => {
+      const marks = [{ studentId: 1, score: 12 }];
+      req.body = { marks: [{ studentId: 1, score: 12 }, { studentId: 2, score: null }] };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 8, maxScore: 20 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }, { id: 2 }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: marks });
+
+      await assessmentController.saveMarks(req as Request, res as Response);
+
+      expect(withTransaction).toHaveBeenCalledTimes(1);
+      expect(pool.query).toHaveBeenNthCalledWith(
+        4,
+        expect.stringContaining('INSERT INTO assessment_marks'),
+        ['8', [1], [12]]
+      );
+      expect(pool.query).toHaveBeenNthCalledWith(
+        5,
+        expect.stringContaining('DELETE FROM assessment_marks'),
+        ['8', [2]]
+      );
+      expect(AssessmentService.recomputeGrades).toHaveBeenCalledWith(pool, offering, [1, 2]);
+      expect(status).toHaveBeenCalledWith(200);
+      expect(json).toHaveBeenCalledWith(marks);
+    });
+
+    it('should refuse a professor once the grade entry deadline has passed', async () => {
+      const { CourseOfferingService: actual } = jest.requireActual(
+        '../../services/courseOfferingService'
+      );
+      (CourseOfferingService.findById as jest.Mock).mockResolvedValueOnce({
+        ...offering,
+        status: 'draft',
+        pastDeadline: true,
+      });
+      (CourseOfferingService.assertGradesWritable as jest.Mock).mockImplementationOnce(
+        actual.assertGradesWritable.bind(actual)
+      );
+      const professorReq = {
+        ...req,
+        body: { marks: [{ studentId: 1, score: 12 }] },
+        user: { id: 4, email: 'prof@iut.fr', role: 'professor', sid: 's' },
+      };
+
+      await expect(
+        assessmentController.saveMarks(professorReq as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 403, code: 'GRADE_DEADLINE_PASSED' });
+      expect(pool.query).not.toHaveBeenCalled();
+      expect(AssessmentService.recomputeGrades).not.toHaveBeenCalled();
+    });
+  });
+});
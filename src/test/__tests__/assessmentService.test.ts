@@ -0,0 +1,82 @@
+import { AssessmentService } from '../../services/assessmentService';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+
+const offering = {
+  id: 5,
+  courseId: 3,
+  semester: 'S1',
+  academicYear: '2024-2025',
+  resitPolicy: 'best' as const,
+  status: 'draft' as const,
+  gradeDeadline: null,
+  pastDeadline: null,
+};
+
+describe('AssessmentService.recomputeGrades', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should recompute the course grade of the given students', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await AssessmentService.recomputeGrades(pool, offering, [1, 2]);
+
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain('SUM(m.score / a.max_score * 20 * a.weight) / SUM(a.weight)');
+    expect(sql).toContain('INSERT INTO grades');
+    expect(params).toEqual([5, 3, 'S1', '2024-2025', [1, 2]]);
+  });
+
+  it('should leave the course grade pending until every assessment is marked', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await AssessmentService.recomputeGrades(pool, offering, [1]);
+
+    const [sql] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain(
+      'CASE WHEN COUNT(*) = (SELECT COUNT(*) FROM assessments WHERE offering_id = $1)'
+    );
+    expect(sql).toContain("special_code = CASE WHEN c.grade IS NULL THEN 'EN ATTENTE' END");
+    expect(sql).toContain("c.grade, CASE WHEN c.grade IS NULL THEN 'EN ATTENTE' END, $3, $4, TRUE");
+  });
+
+  it('should replace a special code entered before the assessments', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await AssessmentService.recomputeGrades(pool, offering, [1]);
+
+    // Une note ne peut porter à la fois une valeur et un code spécial
+    const [sql] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain('is_computed = TRUE');
+    expect(sql).toMatch(/SET grade = c\.grade,\s+special_code = CASE WHEN c\.grade IS NULL/);
+  });
+
+  it('should recompute every student of the offering by default', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ studentId: 1 }, { studentId: 4 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await AssessmentService.recomputeGrades(pool, offering);
+
+    expect(pool.query).toHaveBeenCalledTimes(2);
+    expect((pool.query as jest.Mock).mock.calls[1][1]).toEqual([
+      5,
+      3,
+      'S1',
+      '2024-2025',
+      [1, 4],
+    ]);
+  });
+
+  it('should do nothing when no student is concerned', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await AssessmentService.recomputeGrades(pool, offering);
+
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+});
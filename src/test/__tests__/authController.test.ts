@@ -2,12 +2,18 @@ import { Request, Response } from 'express';
 import { authController } from '../../controllers/authController';
 import { pool } from '../../config/database';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { AppError } from '../../types/error';
+import { RequestWithUser } from '../../middleware/auth';
+import { TokenService } from '../../services/tokenService';
+import { MailService, MemoryMailTransport } from '../../services/mailService';
+import { LoginThrottleService } from '../../services/loginThrottleService';
+import { TwoFactorService } from '../../services/twoFactorService';
 
 jest.mock('../../config/database');
 jest.mock('bcryptjs');
-jest.mock('jsonwebtoken');
+jest.mock('../../services/tokenService');
+jest.mock('../../services/loginThrottleService');
+jest.mock('../../services/twoFactorService');
 
 describe('authController.login', () => {
   let req: Partial<Request>;
@@ -21,6 +27,8 @@ describe('authController.login', () => {
         email: 'test@example.com',
         password: 'password123',
       },
+      ip: '127.0.0.1',
+      get: jest.fn().mockReturnValue('jest') as unknown as Request['get'],
     };
     status = jest.fn().mockReturnThis();
     json = jest.fn();
@@ -60,7 +68,10 @@ describe('authController.login', () => {
       rows: [{ id: 1, passwordHash: 'hashedPassword' }],
     });
     (bcrypt.compare as jest.Mock).mockResolvedValue(true);
-    (jwt.sign as jest.Mock).mockReturnValue('token');
+    (TokenService.createSession as jest.Mock).mockResolvedValue({
+      token: 'token',
+      refreshToken: 'refresh',
+    });
 
     await authController.login(req as Request, res as Response);
 
@@ -69,7 +80,95 @@ describe('authController.login', () => {
       firstName: undefined,
       department: undefined,
       email: undefined,
-    },token: 'token' });
+      role: undefined,
+    },token: 'token', refreshToken: 'refresh' });
+  });
+
+  it('should open a session with the role stored in the database', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [
+        {
+          id: 2,
+          email: 'admin@example.com',
+          passwordHash: 'hashedPassword',
+          role: 'admin',
+        },
+      ],
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+    (TokenService.createSession as jest.Mock).mockResolvedValue({
+      token: 'token',
+      refreshToken: 'refresh',
+    });
+
+    await authController.login(req as Request, res as Response);
+
+    expect(TokenService.createSession).toHaveBeenCalledWith(
+      { id: 2, email: 'admin@example.com', role: 'admin' },
+      { ip: '127.0.0.1', userAgent: 'jest' }
+    );
+  });
+
+  it('should record the failed attempt if password is incorrect', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ id: 4, passwordHash: 'hashedPassword' }],
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+    await authController.login(req as Request, res as Response);
+
+    expect(LoginThrottleService.recordFailure).toHaveBeenCalledWith(
+      'test@example.com',
+      '127.0.0.1',
+      4
+    );
+  });
+
+  it('should not check the password if the account is locked', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ id: 4, passwordHash: 'hashedPassword' }],
+    });
+    (LoginThrottleService.assertAllowed as jest.Mock).mockRejectedValueOnce(
+      new AppError(423, 'Compte temporairement verrouillé', 'ACCOUNT_LOCKED')
+    );
+
+    await expect(
+      authController.login(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 423, code: 'ACCOUNT_LOCKED' });
+    expect(bcrypt.compare).not.toHaveBeenCalled();
+  });
+
+  it('should return a challenge instead of tokens if 2FA is enabled', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ id: 1, passwordHash: 'hashedPassword', totpEnabled: true }],
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+    (TwoFactorService.createChallenge as jest.Mock).mockReturnValue('challenge');
+
+    await authController.login(req as Request, res as Response);
+
+    expect(TwoFactorService.createChallenge).toHaveBeenCalledWith(1, '2fa');
+    expect(TokenService.createSession).not.toHaveBeenCalled();
+    expect(json).toHaveBeenCalledWith({
+      twoFactorRequired: true,
+      challengeToken: 'challenge',
+    });
+  });
+
+  it('should require enrollment if the department enforces 2FA', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ id: 1, passwordHash: 'hashedPassword', twoFactorRequired: true }],
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+    (TwoFactorService.createChallenge as jest.Mock).mockReturnValue('challenge');
+
+    await authController.login(req as Request, res as Response);
+
+    expect(TwoFactorService.createChallenge).toHaveBeenCalledWith(1, '2fa-setup');
+    expect(json).toHaveBeenCalledWith({
+      twoFactorSetupRequired: true,
+      challengeToken: 'challenge',
+    });
   });
 
   it('should return 500 if there is a database error', async () => {
@@ -84,4 +183,446 @@ describe('authController.login', () => {
       }
     }
   });
-});
\ No newline at end of file
+});
+
+describe('authController.refresh', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { body: { refreshToken: 'refresh' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return a new token pair', async () => {
+    const tokens = { token: 'new-token', refreshToken: 'new-refresh' };
+    (TokenService.rotate as jest.Mock).mockResolvedValue(tokens);
+
+    await authController.refresh(req as Request, res as Response);
+
+    expect(TokenService.rotate).toHaveBeenCalledWith('refresh');
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(tokens);
+  });
+
+  it('should propagate the 401 error if the refresh token was reused', async () => {
+    (TokenService.rotate as jest.Mock).mockRejectedValue(
+      new AppError(401, 'Refresh token déjà utilisé, session révoquée', 'REFRESH_TOKEN_REUSED')
+    );
+
+    await expect(
+      authController.refresh(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 401, code: 'REFRESH_TOKEN_REUSED' });
+  });
+});
+
+describe('authController.logout', () => {
+  let req: Partial<RequestWithUser>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      user: { id: 1, email: 'prof@example.com', role: 'professor', sid: 'session-1' },
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should revoke the current session', async () => {
+    await authController.logout(req as RequestWithUser, res as Response);
+
+    expect(TokenService.revokeSession).toHaveBeenCalledWith('session-1');
+    expect(status).toHaveBeenCalledWith(204);
+  });
+
+  it('should revoke every session of the user', async () => {
+    await authController.logoutAll(req as RequestWithUser, res as Response);
+
+    expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(1);
+    expect(status).toHaveBeenCalledWith(204);
+  });
+});
+
+describe('authController.changePassword', () => {
+  let req: Partial<RequestWithUser>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      user: { id: 1, email: 'prof@example.com', role: 'professor', sid: 'session-1' },
+      body: { currentPassword: 'password123', newPassword: 'newPassword123' },
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should throw 401 if the current password is wrong', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ passwordHash: 'hashedPassword' }],
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+    await expect(
+      authController.changePassword(req as RequestWithUser, res as Response)
+    ).rejects.toMatchObject({ statusCode: 401, code: 'INVALID_CURRENT_PASSWORD' });
+  });
+
+  it('should store the new hash and revoke the other sessions', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ passwordHash: 'hashedPassword' }],
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+    (bcrypt.hash as jest.Mock).mockResolvedValue('newHash');
+
+    await authController.changePassword(req as RequestWithUser, res as Response);
+
+    expect(pool.query).toHaveBeenLastCalledWith(
+      'UPDATE professors SET password_hash = $1 WHERE id = $2',
+      ['newHash', 1]
+    );
+    expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(1, 'session-1');
+    expect(status).toHaveBeenCalledWith(204);
+  });
+});
+
+describe('authController.forgotPassword', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+  let transport: MemoryMailTransport;
+
+  beforeEach(() => {
+    req = { body: { email: 'prof@example.com' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+    transport = new MemoryMailTransport();
+    MailService.setTransport(transport);
+    (TokenService.hashToken as jest.Mock).mockReturnValue('hash');
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send a reset link if the account exists', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ id: 1, email: 'prof@example.com', firstName: 'John' }],
+    });
+
+    await authController.forgotPassword(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(202);
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toBe('prof@example.com');
+    expect(transport.sent[0].text).toContain('/reset-password?token=');
+  });
+
+  it('should give the same response if the account does not exist', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await authController.forgotPassword(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(202);
+    expect(json).toHaveBeenCalledWith({
+      message:
+        'Si un compte correspond à cet email, un lien de réinitialisation a été envoyé',
+    });
+    expect(transport.sent).toHaveLength(0);
+  });
+});
+
+describe('authController.resetPassword', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { body: { token: 'token', newPassword: 'newPassword123' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should throw 400 if the token is invalid, used or expired', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(
+      authController.resetPassword(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_RESET_TOKEN' });
+  });
+
+  it('should update the password and revoke all sessions', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [{ professorId: 3 }] });
+    (bcrypt.hash as jest.Mock).mockResolvedValue('newHash');
+
+    await authController.resetPassword(req as Request, res as Response);
+
+    expect(pool.query).toHaveBeenLastCalledWith(
+      'UPDATE professors SET password_hash = $1 WHERE id = $2',
+      ['newHash', 3]
+    );
+    expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(3);
+    expect(status).toHaveBeenCalledWith(204);
+  });
+});
+
+describe('authController.loginTwoFactor', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      body: { challengeToken: 'challenge', code: '123456' },
+      ip: '127.0.0.1',
+      get: jest.fn().mockReturnValue('jest') as unknown as Request['get'],
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+    (TwoFactorService.verifyChallenge as jest.Mock).mockReturnValue(1);
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ id: 1, email: 'prof@example.com', role: 'professor' }],
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should open a session if the code is valid', async () => {
+    (TwoFactorService.verify as jest.Mock).mockResolvedValue(true);
+    (TokenService.createSession as jest.Mock).mockResolvedValue({
+      token: 'token',
+      refreshToken: 'refresh',
+    });
+
+    await authController.loginTwoFactor(req as Request, res as Response);
+
+    expect(TwoFactorService.verify).toHaveBeenCalledWith(1, {
+      code: '123456',
+      recoveryCode: undefined,
+    });
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({ token: 'token', refreshToken: 'refresh' })
+    );
+  });
+
+  it('should record a failure and throw 401 if the code is invalid', async () => {
+    (TwoFactorService.verify as jest.Mock).mockResolvedValue(false);
+
+    await expect(
+      authController.loginTwoFactor(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 401, code: 'INVALID_TWO_FACTOR_CODE' });
+    expect(LoginThrottleService.recordFailure).toHaveBeenCalledWith(
+      'prof@example.com',
+      '127.0.0.1',
+      1
+    );
+    expect(TokenService.createSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('authController.disableTwoFactor', () => {
+  let req: Partial<RequestWithUser>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      user: { id: 1, email: 'prof@example.com', role: 'professor', sid: 'session-1' },
+      body: { password: 'password123' },
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ passwordHash: 'hashedPassword' }],
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should refuse if the department requires 2FA', async () => {
+    (TwoFactorService.isRequiredFor as jest.Mock).mockResolvedValue(true);
+
+    await expect(
+      authController.disableTwoFactor(req as RequestWithUser, res as Response)
+    ).rejects.toMatchObject({ statusCode: 403, code: 'TWO_FACTOR_REQUIRED' });
+    expect(TwoFactorService.disable).not.toHaveBeenCalled();
+  });
+
+  it('should disable 2FA', async () => {
+    (TwoFactorService.isRequiredFor as jest.Mock).mockResolvedValue(false);
+
+    await authController.disableTwoFactor(req as RequestWithUser, res as Response);
+
+    expect(TwoFactorService.disable).toHaveBeenCalledWith(1);
+    expect(status).toHaveBeenCalledWith(204);
+  });
+});
+
+describe('authController.studentLogin', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      body: { email: 'alice@etu.univ.fr', password: 'password123' },
+      ip: '127.0.0.1',
+      get: jest.fn().mockReturnValue('jest') as unknown as Request['get'],
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 401 and record a failure if the account is not activated', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await authController.studentLogin(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(401);
+    expect(LoginThrottleService.recordFailure).toHaveBeenCalledWith(
+      'alice@etu.univ.fr',
+      '127.0.0.1'
+    );
+  });
+
+  it('should open a student session', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [
+        {
+          id: 7,
+          email: 'alice@etu.univ.fr',
+          firstName: 'Alice',
+          lastName: 'Martin',
+          studentId: '22001234',
+          passwordHash: 'hashedPassword',
+        },
+      ],
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+    (TokenService.createSession as jest.Mock).mockResolvedValue({
+      token: 'token',
+      refreshToken: 'refresh',
+    });
+
+    await authController.studentLogin(req as Request, res as Response);
+
+    expect(TokenService.createSession).toHaveBeenCalledWith(
+      { id: 7, email: 'alice@etu.univ.fr', role: 'student' },
+      { ip: '127.0.0.1', userAgent: 'jest' }
+    );
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        token: 'token',
+        student: expect.objectContaining({ id: 7, studentId: '22001234' }),
+      })
+    );
+  });
+});
+
+describe('authController.activateStudentAccount', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { body: { token: 'activation-token', password: 'newPassword123' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should throw 400 if the token is invalid or expired', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(
+      authController.activateStudentAccount(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_ACTIVATION_TOKEN' });
+  });
+
+  it('should set the password and activate the account', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [{ studentId: 7 }] });
+
+    await authController.activateStudentAccount(req as Request, res as Response);
+
+    expect(TokenService.revokeAllStudentSessions).toHaveBeenCalledWith(7);
+    expect(status).toHaveBeenCalledWith(204);
+  });
+});
@@ -0,0 +1,132 @@
+import { Response, NextFunction } from 'express';
+import {
+  authMiddleware,
+  authorize,
+  RequestWithUser,
+} from '../../middleware/auth';
+import { AppError } from '../../types/error';
+import { ApiKeyService } from '../../services/apiKeyService';
+import { ApiKeyPrincipal } from '../../types/auth';
+
+describe('authorize', () => {
+  let req: Partial<RequestWithUser>;
+  let res: Partial<Response>;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    req = {};
+    res = {};
+    next = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should call next without error if the role is allowed', () => {
+    req.user = { id: 1, email: 'admin@example.com', role: 'admin', sid: 'session' };
+
+    authorize('admin', 'department_head')(
+      req as RequestWithUser,
+      res as Response,
+      next as NextFunction
+    );
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should forward a 403 AppError if the role is not allowed', () => {
+    req.user = { id: 1, email: 'prof@example.com', role: 'professor', sid: 'session' };
+
+    authorize('admin')(
+      req as RequestWithUser,
+      res as Response,
+      next as NextFunction
+    );
+
+    const error = next.mock.calls[0][0];
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(403);
+    expect(error.code).toBe('FORBIDDEN');
+  });
+
+  it('should forward a 401 AppError if the user is not authenticated', () => {
+    authorize('admin')(
+      req as RequestWithUser,
+      res as Response,
+      next as NextFunction
+    );
+
+    const error = next.mock.calls[0][0];
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(401);
+  });
+});
+
+describe('authMiddleware with an API key', () => {
+  let req: Partial<RequestWithUser>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      baseUrl: '/api/stats',
+      method: 'GET',
+      headers: {},
+      get: jest.fn().mockReturnValue('iutk_key') as unknown as RequestWithUser['get'],
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = { status, json };
+    next = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reject an unknown or revoked key', async () => {
+    jest.spyOn(ApiKeyService, 'authenticate').mockResolvedValue(null);
+
+    await authMiddleware(req as RequestWithUser, res as Response, next);
+
+    expect(status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should accept a key whose scopes cover the route group', async () => {
+    const apiKey: ApiKeyPrincipal = { id: 1, name: 'sync', scopes: ['stats:read'] };
+    jest.spyOn(ApiKeyService, 'authenticate').mockResolvedValue(apiKey);
+
+    await authMiddleware(req as RequestWithUser, res as Response, next);
+
+    expect(req.apiKey).toEqual(apiKey);
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should forward a 403 if the key is not scoped for the route group', async () => {
+    jest.spyOn(ApiKeyService, 'authenticate').mockResolvedValue({
+      id: 1,
+      name: 'sync',
+      scopes: ['stats:read'],
+    });
+    req.baseUrl = '/api/grades';
+
+    await authMiddleware(req as RequestWithUser, res as Response, next);
+
+    expect(next.mock.calls[0][0]).toMatchObject({
+      statusCode: 403,
+      code: 'INSUFFICIENT_SCOPE',
+    });
+  });
+
+  it('should let authorized keys through role checks', () => {
+    req.apiKey = { id: 1, name: 'sync', scopes: ['stats:read'] };
+
+    authorize('admin')(req as RequestWithUser, res as Response, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+});
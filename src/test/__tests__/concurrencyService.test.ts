@@ -0,0 +1,26 @@
+import { Request } from 'express';
+import { ConcurrencyService } from '../../services/concurrencyService';
+
+const withIfMatch = (value?: string): Request =>
+  ({ get: jest.fn().mockReturnValue(value) }) as unknown as Request;
+
+describe('ConcurrencyService.expectedVersion', () => {
+  it('should read strong and weak entity tags', () => {
+    expect(ConcurrencyService.expectedVersion(withIfMatch('"3"'))).toBe(3);
+    expect(ConcurrencyService.expectedVersion(withIfMatch('W/"4"'))).toBe(4);
+  });
+
+  it('should accept any version of an existing row for a wildcard', () => {
+    expect(ConcurrencyService.expectedVersion(withIfMatch(' * '))).toBeNull();
+  });
+
+  it('should never match an unreadable entity tag', () => {
+    expect(ConcurrencyService.expectedVersion(withIfMatch('abc'))).toBe(0);
+  });
+
+  it('should require the If-Match header', () => {
+    expect(() => ConcurrencyService.expectedVersion(withIfMatch())).toThrow(
+      expect.objectContaining({ statusCode: 428, code: 'PRECONDITION_REQUIRED' })
+    );
+  });
+});
@@ -0,0 +1,54 @@
+import { CourseAccessService } from '../../services/courseAccessService';
+import { pool } from '../../config/database';
+import { JWTPayload } from '../../types/auth';
+
+jest.mock('../../config/database');
+
+const professor: JWTPayload = {
+  id: 1,
+  email: 'prof@example.com',
+  role: 'professor',
+  sid: 'session-1',
+};
+
+describe('CourseAccessService.assertCanManageGrades', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow a professor assigned to the course', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [{ '?column?': 1 }] });
+
+    await expect(
+      CourseAccessService.assertCanManageGrades(professor, 3, '2024-2025')
+    ).resolves.toBeUndefined();
+    expect(pool.query).toHaveBeenCalledWith(expect.any(String), [
+      1,
+      3,
+      '2024-2025',
+    ]);
+  });
+
+  it('should refuse a professor who does not teach the course that year', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(
+      CourseAccessService.assertCanManageGrades(professor, 3, '2024-2025')
+    ).rejects.toMatchObject({ statusCode: 403, code: 'COURSE_NOT_ASSIGNED' });
+  });
+
+  it('should let admins and department heads override', async () => {
+    await CourseAccessService.assertCanManageGrades(
+      { ...professor, role: 'department_head' },
+      3,
+      '2024-2025'
+    );
+    await CourseAccessService.assertCanManageGrades(
+      { ...professor, role: 'admin' },
+      3,
+      '2024-2025'
+    );
+
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
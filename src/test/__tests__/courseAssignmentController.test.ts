@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { courseAssignmentController } from '../../controllers/courseAssignmentController';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+
+describe('courseAssignmentController.create', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      params: { id: '3' },
+      body: { professorId: 1, academicYear: '2024-2025', role: 'responsible' },
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 404 if the professor does not exist', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      courseAssignmentController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'PROFESSOR_NOT_FOUND' });
+  });
+
+  it('should return 409 if the course already has a responsible', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockRejectedValueOnce(Object.assign(new Error('duplicate'), { code: '23505' }));
+
+    await expect(
+      courseAssignmentController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 409, code: 'COURSE_ASSIGNMENT_CONFLICT' });
+  });
+
+  it('should return 201 and the created assignment', async () => {
+    const assignment = {
+      id: 1,
+      courseId: 3,
+      professorId: 1,
+      academicYear: '2024-2025',
+      role: 'responsible',
+    };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [assignment] });
+
+    await courseAssignmentController.create(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(201);
+    expect(json).toHaveBeenCalledWith(assignment);
+  });
+});
+
+describe('courseAssignmentController.delete', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '3', assignmentId: '1' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 404 if the assignment does not belong to the course', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(
+      courseAssignmentController.delete(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'COURSE_ASSIGNMENT_NOT_FOUND' });
+  });
+
+  it('should delete the assignment', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [{ id: 1 }] });
+
+    await courseAssignmentController.delete(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(204);
+  });
+});
@@ -10,13 +10,16 @@ describe('courseController', () => {
   let res: Partial<Response>;
   let status: jest.Mock;
   let json: jest.Mock;
+  let setHeader: jest.Mock;
 
   beforeEach(() => {
     status = jest.fn().mockReturnThis();
     json = jest.fn();
+    setHeader = jest.fn();
     res = {
       status,
       json,
+      setHeader,
     };
   });
 
@@ -25,14 +28,29 @@ describe('courseController', () => {
   });
 
   describe('getAll', () => {
-    it('should return all courses', async () => {
+    beforeEach(() => {
+      req = { query: {} };
+    });
+
+    it('should return the first page of courses', async () => {
       const courses = [{ id: 1, code: 'CS101', name: 'Computer Science 101' }];
-      (pool.query as jest.Mock).mockResolvedValue({ rows: courses });
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ total: 1 }] })
+        .mockResolvedValueOnce({ rows: courses });
 
       await courseController.getAll(req as Request, res as Response);
 
       expect(status).toHaveBeenCalledWith(200);
-      expect(json).toHaveBeenCalledWith(courses);
+      expect(json).toHaveBeenCalledWith({
+        data: courses,
+        pagination: {
+          total: 1,
+          limit: 20,
+          page: 1,
+          nextCursor: null,
+          next: null,
+        },
+      });
     });
 
     it('should return 500 if there is a database error', async () => {
@@ -213,11 +231,13 @@ describe('courseController', () => {
         name: 'Computer Science 101',
         credits: 3,
         description: 'Introduction to Computer Science',
+        version: 2,
       };
       (pool.query as jest.Mock).mockResolvedValue({ rows: [updatedCourse] });
 
       req = {
         params: { id: '1' },
+        get: jest.fn().mockReturnValue('"1"'),
         body: {
           code: 'CS101',
           name: 'Computer Science 101',
@@ -228,15 +248,85 @@ describe('courseController', () => {
 
       await courseController.update(req as Request, res as Response);
 
+      // Sans type dans la requête, le type enregistré est conservé
+      expect((pool.query as jest.Mock).mock.calls[0][0]).toContain(
+        'type = COALESCE($5, type)'
+      );
+      expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual([
+        'CS101',
+        'Computer Science 101',
+        3,
+        'Introduction to Computer Science',
+        null,
+        '1',
+        1,
+      ]);
+      expect(setHeader).toHaveBeenCalledWith('ETag', '"2"');
       expect(status).toHaveBeenCalledWith(200);
       expect(json).toHaveBeenCalledWith(updatedCourse);
     });
 
+    it('should return 428 without an If-Match header', async () => {
+      req = {
+        params: { id: '1' },
+        get: jest.fn().mockReturnValue(undefined),
+        body: { code: 'CS101', name: 'Computer Science 101', credits: 3 },
+      };
+
+      await expect(
+        courseController.update(req as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 428, code: 'PRECONDITION_REQUIRED' });
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('should skip the version check for If-Match: *', async () => {
+      const updatedCourse = { id: 1, code: 'CS101', name: 'Computer Science 101', credits: 3, version: 5 };
+      (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [updatedCourse] });
+
+      req = {
+        params: { id: '1' },
+        get: jest.fn().mockReturnValue('*'),
+        body: { code: 'CS101', name: 'Computer Science 101', credits: 3 },
+      };
+
+      await courseController.update(req as Request, res as Response);
+
+      const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('($7::int IS NULL OR version = $7)');
+      expect(params[6]).toBeNull();
+      expect(setHeader).toHaveBeenCalledWith('ETag', '"5"');
+      expect(status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 412 with the current course if it was modified meanwhile', async () => {
+      const current = { id: 1, code: 'CS101', name: 'Algorithmique', credits: 3, version: 3 };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [current] });
+
+      req = {
+        params: { id: '1' },
+        get: jest.fn().mockReturnValue('W/"2"'),
+        body: { code: 'CS101', name: 'Computer Science 101', credits: 3 },
+      };
+
+      await expect(
+        courseController.update(req as Request, res as Response)
+      ).rejects.toMatchObject({
+        statusCode: 412,
+        code: 'PRECONDITION_FAILED',
+        details: current,
+      });
+      expect((pool.query as jest.Mock).mock.calls[0][1][6]).toBe(2);
+      expect(setHeader).toHaveBeenCalledWith('ETag', '"3"');
+    });
+
     it('should return 404 if course is not found', async () => {
       (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
 
       req = {
         params: { id: '1' },
+        get: jest.fn().mockReturnValue('"1"'),
         body: {
           code: 'CS101',
           name: 'Computer Science 101',
@@ -262,6 +352,7 @@ describe('courseController', () => {
 
       req = {
         params: { id: '1' },
+        get: jest.fn().mockReturnValue('"1"'),
         body: {
           code: 'CS101',
           name: 'Computer Science 101',
@@ -0,0 +1,226 @@
+import { Request, Response } from 'express';
+import { courseOfferingController } from '../../controllers/courseOfferingController';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+jest.mock('../../services/courseAccessService');
+
+describe('courseOfferingController.create', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      params: { id: '3' },
+      body: { semester: 'S1', academicYear: '2024-2025' },
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 404 if the course does not exist', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      courseOfferingController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'COURSE_NOT_FOUND' });
+  });
+
+  it('should return 409 if the course is already offered for the semester', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+      .mockRejectedValueOnce(Object.assign(new Error('duplicate'), { code: '23505' }));
+
+    await expect(
+      courseOfferingController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 409, code: 'OFFERING_ALREADY_EXISTS' });
+  });
+
+  it('should return 201 and the created offering', async () => {
+    const offering = { id: 5, courseId: 3, semester: 'S1', academicYear: '2024-2025' };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+      .mockResolvedValueOnce({ rows: [offering] });
+
+    await courseOfferingController.create(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(201);
+    expect(json).toHaveBeenCalledWith(offering);
+  });
+});
+
+describe('courseOfferingController.getById', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the offering with its assessments', async () => {
+    const offering = { id: 5, courseId: 3, semester: 'S1', academicYear: '2024-2025' };
+    const assessments = [{ id: 8, name: 'Examen', weight: 2, maxScore: 20 }];
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [offering] })
+      .mockResolvedValueOnce({ rows: assessments });
+    const status = jest.fn().mockReturnThis();
+    const json = jest.fn();
+
+    await courseOfferingController.getById(
+      { params: { id: '5' } } as unknown as Request,
+      { status, json } as unknown as Response
+    );
+
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith({ ...offering, assessments });
+  });
+
+  it('should return 404 if the offering does not exist', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      courseOfferingController.getById(
+        { params: { id: '5' } } as unknown as Request,
+        {} as Response
+      )
+    ).rejects.toMatchObject({ statusCode: 404, code: 'OFFERING_NOT_FOUND' });
+  });
+});
+
+describe('courseOfferingController.update', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should update the resit policy of the offering', async () => {
+    const offering = {
+      id: 5,
+      courseId: 3,
+      semester: 'S1',
+      academicYear: '2024-2025',
+      resitPolicy: 'best',
+      status: 'draft',
+      gradeDeadline: null,
+      pastDeadline: null,
+    };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [offering] })
+      .mockResolvedValueOnce({ rows: [{ ...offering, resitPolicy: 'capped' }] });
+    const status = jest.fn().mockReturnThis();
+    const json = jest.fn();
+
+    await courseOfferingController.update(
+      { params: { id: '5' }, body: { resitPolicy: 'capped' } } as unknown as Request,
+      { status, json } as unknown as Response
+    );
+
+    expect((pool.query as jest.Mock).mock.calls[1][1]).toEqual(['capped', '5']);
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith({ ...offering, resitPolicy: 'capped' });
+  });
+
+  it('should only let managers set the grade entry deadline', async () => {
+    const req = {
+      params: { id: '5' },
+      body: { gradeDeadline: '2025-01-31' },
+      user: { id: 4, email: 'prof@iut.fr', role: 'professor', sid: 's' },
+    };
+
+    await expect(
+      courseOfferingController.update(req as unknown as Request, {} as Response)
+    ).rejects.toMatchObject({ statusCode: 403, code: 'FORBIDDEN' });
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('courseOfferingController transitions', () => {
+  const offering = {
+    id: 5,
+    courseId: 3,
+    semester: 'S1',
+    academicYear: '2024-2025',
+    resitPolicy: 'best',
+    status: 'locked',
+  };
+  let status: jest.Mock;
+  let json: jest.Mock;
+  let res: Response;
+
+  beforeEach(() => {
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = { status, json } as unknown as Response;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should refuse to change the resit policy of a locked offering', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [offering] });
+
+    await expect(
+      courseOfferingController.update(
+        { params: { id: '5' }, body: { resitPolicy: 'capped' } } as unknown as Request,
+        res
+      )
+    ).rejects.toMatchObject({ statusCode: 409, code: 'OFFERING_LOCKED' });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should unlock the offering and record the justification', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [offering] })
+      .mockResolvedValueOnce({
+        rows: [{ ...offering, status: 'published', previousStatus: 'locked' }],
+      })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await courseOfferingController.unlock(
+      {
+        params: { id: '5' },
+        body: { justification: '  Erreur de report signalée par le jury  ' },
+        user: { id: 1, email: 'admin@iut.fr', role: 'admin', sid: 's' },
+      } as unknown as Request,
+      res
+    );
+
+    const [updateSql, updateParams] = (pool.query as jest.Mock).mock.calls[1];
+    expect(updateSql).toContain('previous.status = ANY($3)');
+    expect(updateParams).toEqual(['published', 5, ['locked']]);
+    expect((pool.query as jest.Mock).mock.calls[2][1]).toEqual([
+      5,
+      'locked',
+      'published',
+      'Erreur de report signalée par le jury',
+      1,
+    ]);
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith({ ...offering, status: 'published' });
+  });
+
+  it('should return 409 when the offering is not in a starting state', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ ...offering, status: 'draft' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      courseOfferingController.publish(
+        { params: { id: '5' } } as unknown as Request,
+        res
+      )
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'INVALID_OFFERING_TRANSITION',
+      details: { status: 'draft', allowedFrom: ['submitted'] },
+    });
+    expect(pool.query).toHaveBeenCalledTimes(2);
+  });
+});
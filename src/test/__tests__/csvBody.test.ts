@@ -0,0 +1,31 @@
+import { Readable } from 'stream';
+import { Request, Response } from 'express';
+import { csvBody } from '../../middleware/csvBody';
+import { AppError } from '../../types/error';
+
+const upload = (content: string): Request =>
+  Object.assign(Readable.from([Buffer.from(content)]), {
+    headers: {
+      'content-type': 'text/csv',
+      'content-length': String(Buffer.byteLength(content)),
+    },
+  }) as unknown as Request;
+
+const run = (req: Request): Promise<unknown> =>
+  new Promise((resolve) => csvBody(req, {} as Response, resolve));
+
+describe('csvBody', () => {
+  it('should keep the raw CSV file', async () => {
+    const req = upload('numero;note\n2024001;12\n');
+
+    expect(await run(req)).toBeUndefined();
+    expect(req.body).toEqual(Buffer.from('numero;note\n2024001;12\n'));
+  });
+
+  it('should refuse a file above the size limit with a 413', async () => {
+    const error = await run(upload('x'.repeat(5 * 1024 * 1024 + 1)));
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({ statusCode: 413, code: 'CSV_TOO_LARGE' });
+  });
+});
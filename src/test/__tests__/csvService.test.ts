@@ -0,0 +1,59 @@
+import { CsvService } from '../../services/csvService';
+import { STUDENT_CSV_COLUMNS } from '../../services/studentImportService';
+
+describe('CsvService', () => {
+  it('should map French headers and detect the semicolon delimiter', () => {
+    const csv = Buffer.from(
+      '﻿Prénom;Nom;Email;Date de naissance;Numéro étudiant;Groupe\n' +
+        'Hélène;Martin;helene@etu.fr;01/02/2005;22001234;TD1\n'
+    );
+
+    const rows = CsvService.parse(csv, {
+      encoding: 'utf8',
+      columns: STUDENT_CSV_COLUMNS,
+    });
+
+    expect(rows).toEqual([
+      {
+        line: 2,
+        values: {
+          firstName: 'Hélène',
+          lastName: 'Martin',
+          email: 'helene@etu.fr',
+          dateOfBirth: '01/02/2005',
+          studentId: '22001234',
+        },
+      },
+    ]);
+  });
+
+  it('should decode Latin-1 files', () => {
+    const csv = Buffer.from(
+      'firstName,lastName,email,dateOfBirth,studentId\n' +
+        'Hélène,Lefèvre,helene@etu.fr,2005-02-01,22001234\n',
+      'latin1'
+    );
+
+    const [row] = CsvService.parse(csv, {
+      delimiter: ',',
+      encoding: 'latin1',
+      columns: STUDENT_CSV_COLUMNS,
+    });
+
+    expect(row.values.lastName).toBe('Lefèvre');
+  });
+
+  it('should report missing columns', () => {
+    const csv = Buffer.from('nom,email\nMartin,m@etu.fr\n');
+
+    expect(() =>
+      CsvService.parse(csv, { encoding: 'utf8', columns: STUDENT_CSV_COLUMNS })
+    ).toThrow(expect.objectContaining({ statusCode: 400, code: 'INVALID_CSV' }));
+  });
+
+  it('should refuse a request without a CSV body', () => {
+    expect(() =>
+      CsvService.parse({}, { encoding: 'utf8', columns: STUDENT_CSV_COLUMNS })
+    ).toThrow(expect.objectContaining({ statusCode: 415 }));
+  });
+});
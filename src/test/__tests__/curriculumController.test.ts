@@ -0,0 +1,211 @@
+import { Request, Response } from 'express';
+import { curriculumController } from '../../controllers/curriculumController';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+
+const unit = {
+  id: 2,
+  code: 'UE1.1',
+  name: 'Réaliser',
+  competenceId: 1,
+  semester: 'S1',
+  credits: 6,
+};
+
+describe('curriculumController.createUnit', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      body: {
+        code: 'UE1.1',
+        name: 'Réaliser',
+        competenceId: 1,
+        semester: 'S1',
+        credits: 6,
+      },
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 201 and the created unit', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [unit] });
+
+    await curriculumController.createUnit(req as Request, res as Response);
+
+    expect(pool.query).toHaveBeenCalledWith(expect.any(String), [
+      'UE1.1',
+      'Réaliser',
+      1,
+      'S1',
+      6,
+    ]);
+    expect(status).toHaveBeenCalledWith(201);
+    expect(json).toHaveBeenCalledWith(unit);
+  });
+
+  it('should return 404 if the competence does not exist', async () => {
+    (pool.query as jest.Mock).mockRejectedValueOnce(
+      Object.assign(new Error('foreign key'), { code: '23503' })
+    );
+
+    await expect(
+      curriculumController.createUnit(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'COMPETENCE_NOT_FOUND' });
+  });
+
+  it('should return 409 if the competence already has a unit for the semester', async () => {
+    (pool.query as jest.Mock).mockRejectedValueOnce(
+      Object.assign(new Error('duplicate'), { code: '23505' })
+    );
+
+    await expect(
+      curriculumController.createUnit(req as Request, res as Response)
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'TEACHING_UNIT_ALREADY_EXISTS',
+    });
+  });
+});
+
+describe('curriculumController.getUnitById', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '2' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the unit with its courses and coefficients', async () => {
+    const courses = [
+      { courseId: 3, code: 'R1.01', name: 'Initiation au développement', type: 'resource', coefficient: 42 },
+      { courseId: 7, code: 'SAE1.01', name: "Implémentation d'un besoin client", type: 'sae', coefficient: 40 },
+    ];
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [unit] })
+      .mockResolvedValueOnce({ rows: courses });
+
+    await curriculumController.getUnitById(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith({ ...unit, courses });
+  });
+
+  it('should return 404 if the unit does not exist', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      curriculumController.getUnitById(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'TEACHING_UNIT_NOT_FOUND' });
+  });
+});
+
+describe('curriculumController.setCourseCoefficient', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '2', courseId: '3' }, body: { coefficient: 42 } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should attach the course to the unit with its coefficient', async () => {
+    const mapping = { courseId: 3, unitId: 2, coefficient: 42 };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [unit] })
+      .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+      .mockResolvedValueOnce({ rows: [mapping] });
+
+    await curriculumController.setCourseCoefficient(req as Request, res as Response);
+
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[2];
+    expect(sql).toContain('ON CONFLICT (course_id, unit_id) DO UPDATE');
+    expect(params).toEqual(['3', '2', 42]);
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(mapping);
+  });
+
+  it('should return 404 if the course does not exist', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [unit] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      curriculumController.setCourseCoefficient(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'COURSE_NOT_FOUND' });
+  });
+});
+
+describe('curriculumController.removeCourse', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let send: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '2', courseId: '3' } };
+    status = jest.fn().mockReturnThis();
+    send = jest.fn();
+    res = {
+      status,
+      send,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 204 once the course is detached', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ course_id: 3 }] });
+
+    await curriculumController.removeCourse(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(204);
+    expect(send).toHaveBeenCalled();
+  });
+
+  it('should return 404 if the course is not attached to the unit', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      curriculumController.removeCourse(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'COURSE_UNIT_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,18 @@
+import { createTeachingUnitSchema } from '../../schemas/curriculum.schema';
+
+const unit = {
+  code: 'UE2.1',
+  name: 'Réaliser un développement',
+  competenceId: 1,
+  credits: 6,
+};
+
+describe('createTeachingUnitSchema', () => {
+  it.each(['S1', 'S2', 'S6', 'S10'])('should accept semester %s', (semester) => {
+    expect(createTeachingUnitSchema.safeParse({ ...unit, semester }).success).toBe(true);
+  });
+
+  it.each(['S0', 'S11', 'S01', '2'])('should reject semester %s', (semester) => {
+    expect(createTeachingUnitSchema.safeParse({ ...unit, semester }).success).toBe(false);
+  });
+});
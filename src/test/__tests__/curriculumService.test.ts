@@ -0,0 +1,62 @@
+import { CurriculumService } from '../../services/curriculumService';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+
+describe('CurriculumService.getUnitAverages', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should weight course grades by their coefficient in each unit', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        { unitId: 1, code: 'UE1.1', semester: 'S1', credits: 6, average: 10 },
+        { unitId: 2, code: 'UE1.2', semester: 'S1', credits: 6, average: 9.99 },
+      ],
+    });
+
+    const units = await CurriculumService.getUnitAverages(4, '2024-2025');
+
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain('SUM(g.grade * cu.coefficient)');
+    expect(sql).toContain('SUM(cu.coefficient) FILTER (WHERE g.grade IS NOT NULL)');
+    expect(sql).toContain('g.semester = u.semester');
+    expect(params).toEqual([4, '2024-2025', false]);
+    expect(units.map((unit) => unit.validated)).toEqual([true, false]);
+  });
+
+  it('should not validate a unit with a pending grade', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [
+        { unitId: 1, code: 'UE1.1', semester: 'S1', credits: 6, average: 14, pending: true },
+        { unitId: 2, code: 'UE1.2', semester: 'S1', credits: 6, average: null, pending: false },
+      ],
+    });
+
+    const units = await CurriculumService.getUnitAverages(4, '2024-2025');
+
+    expect(units.map((unit) => unit.validated)).toEqual([false, false]);
+  });
+});
+
+describe('CurriculumService.summarize', () => {
+  it('should weight unit averages by their ECTS credits', () => {
+    expect(
+      CurriculumService.summarize([
+        { average: 14, credits: 6, validated: true },
+        { average: 8, credits: 3, validated: false },
+        { average: 10, credits: 3, validated: true },
+      ])
+    ).toEqual({ averageGrade: 11.5, totalCredits: 12, validatedCredits: 9 });
+  });
+
+  it('should leave units without average out of the semester average', () => {
+    expect(
+      CurriculumService.summarize([
+        { average: 14, credits: 6, validated: true },
+        { average: null, credits: 6, validated: false },
+      ])
+    ).toEqual({ averageGrade: 14, totalCredits: 12, validatedCredits: 6 });
+  });
+});
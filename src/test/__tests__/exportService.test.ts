@@ -0,0 +1,125 @@
+import { PassThrough } from 'stream';
+import { Request, Response } from 'express';
+import { ExportService, XLSX_MIME_TYPE } from '../../services/exportService';
+
+jest.mock('../../services/loggerService');
+
+const columns = [
+  { key: 'name', header: 'Nom' },
+  { key: 'grade', header: 'Note', type: 'number' as const },
+];
+
+const buildResponse = (): {
+  res: Response;
+  output: Promise<Buffer>;
+  attachment: jest.Mock;
+} => {
+  const stream = new PassThrough();
+  const attachment = jest.fn();
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk) => chunks.push(Buffer.from(chunk)));
+  const output = new Promise<Buffer>((resolve) =>
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+  );
+  return {
+    res: Object.assign(stream, { attachment }) as unknown as Response,
+    output,
+    attachment,
+  };
+};
+
+const failing: AsyncIterable<Record<string, unknown>> = {
+  [Symbol.asyncIterator]: () => ({
+    next: () => Promise.reject(new Error('Database error')),
+  }),
+};
+
+describe('ExportService.getOptions', () => {
+  it('should keep JSON when no format is requested', () => {
+    const req = { query: {}, headers: {} } as unknown as Request;
+
+    expect(ExportService.getOptions(req)).toBeNull();
+  });
+
+  it('should use the format query parameter first', () => {
+    const req = {
+      query: { format: 'csv', decimal: 'comma' },
+      headers: { accept: XLSX_MIME_TYPE },
+    } as unknown as Request;
+
+    expect(ExportService.getOptions(req)).toEqual({
+      format: 'csv',
+      decimalComma: true,
+    });
+  });
+
+  it('should fall back to the Accept header', () => {
+    const req = {
+      query: {},
+      headers: { accept: XLSX_MIME_TYPE },
+      accepts: jest.fn().mockReturnValue(XLSX_MIME_TYPE),
+    } as unknown as Request;
+
+    expect(ExportService.getOptions(req)).toEqual({
+      format: 'xlsx',
+      decimalComma: false,
+    });
+  });
+
+  it('should reject an unknown format', () => {
+    const req = { query: { format: 'pdf' }, headers: {} } as unknown as Request;
+
+    expect(() => ExportService.getOptions(req)).toThrow();
+  });
+});
+
+describe('ExportService.send', () => {
+  it('should write CSV with a decimal comma and semicolon separator', async () => {
+    const { res, output, attachment } = buildResponse();
+
+    await ExportService.send(
+      res,
+      { format: 'csv', decimalComma: true },
+      {
+        filename: 'notes',
+        columns,
+        rows: [
+          { name: 'Martin; Hélène', grade: '12.50' },
+          { name: '=SOMME(A1)', grade: null },
+        ],
+      }
+    );
+
+    expect(attachment).toHaveBeenCalledWith('notes.csv');
+    expect((await output).toString()).toBe(
+      '\ufeffNom;Note\r\n"Martin; Hélène";12,5\r\n\'=SOMME(A1);\r\n'
+    );
+  });
+
+  it('should write an XLSX workbook', async () => {
+    const { res, output, attachment } = buildResponse();
+
+    await ExportService.send(
+      res,
+      { format: 'xlsx', decimalComma: false },
+      { filename: 'notes', columns, rows: [{ name: 'Martin', grade: 14 }] }
+    );
+
+    expect(attachment).toHaveBeenCalledWith('notes.xlsx');
+    // Un fichier XLSX est une archive zip
+    expect((await output).subarray(0, 2).toString()).toBe('PK');
+  });
+
+  it('should rethrow errors raised before the first row', async () => {
+    const { res, attachment } = buildResponse();
+
+    await expect(
+      ExportService.send(
+        res,
+        { format: 'csv', decimalComma: false },
+        { filename: 'notes', columns, rows: failing }
+      )
+    ).rejects.toThrow('Database error');
+    expect(attachment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { GradeAuditService } from '../../services/gradeAuditService';
+import { pool, withTransaction } from '../../config/database';
+import { RequestWithUser } from '../../middleware/auth';
+
+jest.mock('../../config/database');
+
+describe('GradeAuditService.contextFrom', () => {
+  it('should attribute the change to the caller and trim the reason', () => {
+    const req = {
+      user: { id: 2, email: 'prof@iut.fr', role: 'professor', sid: 's' },
+      ip: '10.0.0.5',
+    } as RequestWithUser;
+
+    expect(GradeAuditService.contextFrom(req, '  Erreur de saisie ')).toEqual({
+      professorId: 2,
+      apiKeyId: null,
+      ip: '10.0.0.5',
+      reason: 'Erreur de saisie',
+    });
+  });
+
+  it('should attribute the change to the API key without a reason', () => {
+    const req = { apiKey: { id: 4, scopes: ['grades:write'] } } as unknown as RequestWithUser;
+
+    expect(GradeAuditService.contextFrom(req, '   ')).toEqual({
+      professorId: null,
+      apiKeyId: 4,
+      ip: null,
+      reason: null,
+    });
+  });
+});
+
+describe('GradeAuditService.withContext', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should set the audit context before the writes of the transaction', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await GradeAuditService.withContext(
+      { professorId: 2, apiKeyId: null, ip: '10.0.0.5', reason: null },
+      (client) => client.query('DELETE FROM grades WHERE id = $1', [1])
+    );
+
+    expect(withTransaction).toHaveBeenCalledTimes(1);
+    expect(pool.query).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining("set_config('audit.professor_id', $1, TRUE)"),
+      ['2', '', '10.0.0.5', '']
+    );
+    expect(pool.query).toHaveBeenNthCalledWith(
+      2,
+      'DELETE FROM grades WHERE id = $1',
+      [1]
+    );
+  });
+});
+
+describe('GradeAuditService.findHistory', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the changes of the grade from the oldest', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }, { id: 3 }] });
+
+    const history = await GradeAuditService.findHistory(7);
+
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain('WHERE a.grade_id = $1');
+    expect(sql).toContain('ORDER BY a.id');
+    expect(params).toEqual([7]);
+    expect(history).toHaveLength(2);
+  });
+});
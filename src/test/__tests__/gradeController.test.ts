@@ -2,9 +2,13 @@ import { Request, Response } from 'express';
 import { gradeController } from '../../controllers/gradeController';
 import { pool } from '../../config/database';
 import { AppError } from '../../types/error';
+import { CourseAccessService } from '../../services/courseAccessService';
+import { PDFService } from '../../services/pdfService';
+import { MissingGradeRow } from '../../services/gradeService';
 
 jest.mock('../../config/database');
 jest.mock('../../services/pdfService');
+jest.mock('../../services/courseAccessService');
 
 describe('gradeController.create', () => {
   let req: Partial<Request>;
@@ -27,6 +31,7 @@ describe('gradeController.create', () => {
     res = {
       status,
       json,
+      setHeader: jest.fn(),
     };
   });
 
@@ -72,7 +77,12 @@ describe('gradeController.create', () => {
     };
     (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
     (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
-    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [createdGrade] });
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ status: 'published' }] });
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [{ ...createdGrade, created: true }],
+    });
 
     await gradeController.create(req as Request, res as Response);
 
@@ -80,6 +90,155 @@ describe('gradeController.create', () => {
     expect(json).toHaveBeenCalledWith(createdGrade);
   });
 
+  it('should return 409 with the existing grade if one was already recorded', async () => {
+    const existing = { id: 4, grade: '11.00', session: 'first', version: 1 };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [existing] });
+
+    await expect(
+      gradeController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'GRADE_ALREADY_EXISTS',
+      details: existing,
+    });
+    expect((pool.query as jest.Mock).mock.calls[5][0]).toContain('DO NOTHING');
+  });
+
+  it('should replace the existing grade in upsert mode', async () => {
+    req.body = { ...req.body, grade: 14, upsert: true };
+    req.get = jest.fn().mockReturnValue('"1"');
+    const replaced = { id: 4, grade: 14, session: 'first', version: 2 };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ ...replaced, created: false }] });
+
+    await gradeController.create(req as Request, res as Response);
+
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[5];
+    expect(sql).toContain('DO UPDATE SET');
+    expect(sql).toContain('($9::int IS NULL OR grades.version = $9)');
+    expect(params.slice(7)).toEqual([true, 1]);
+    expect(res.setHeader).toHaveBeenCalledWith('ETag', '"2"');
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(replaced);
+  });
+
+  const mockUpsertConflict = (existing: unknown): void => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [existing] });
+  };
+
+  it('should require If-Match to replace an existing grade in upsert mode', async () => {
+    req.body = { ...req.body, grade: 14, upsert: true };
+    req.get = jest.fn().mockReturnValue(undefined);
+    const existing = { id: 4, grade: '11.00', session: 'first', version: 3 };
+    mockUpsertConflict(existing);
+
+    await expect(
+      gradeController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({
+      statusCode: 428,
+      code: 'PRECONDITION_REQUIRED',
+      details: existing,
+    });
+    expect((pool.query as jest.Mock).mock.calls[5][1].slice(7)).toEqual([false, null]);
+  });
+
+  it('should return 412 in upsert mode if the existing grade was modified meanwhile', async () => {
+    req.body = { ...req.body, grade: 14, upsert: true };
+    req.get = jest.fn().mockReturnValue('"2"');
+    const existing = { id: 4, grade: '11.00', session: 'first', version: 3 };
+    mockUpsertConflict(existing);
+
+    await expect(
+      gradeController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({
+      statusCode: 412,
+      code: 'PRECONDITION_FAILED',
+      details: existing,
+    });
+    expect(res.setHeader).toHaveBeenCalledWith('ETag', '"3"');
+  });
+
+  it('should return 409 if the course grades are computed from assessments', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+    await expect(
+      gradeController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 409, code: 'GRADE_IS_COMPUTED' });
+  });
+
+  it('should return 409 if the student passed the first session', async () => {
+    req.body = { ...req.body, session: 'resit' };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ studentId: 1 }] });
+
+    await expect(
+      gradeController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 409, code: 'RESIT_NOT_ALLOWED' });
+    expect(pool.query).toHaveBeenCalledTimes(4);
+  });
+
+  it('should return 409 if the course grades are locked', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ status: 'locked' }] });
+
+    await expect(
+      gradeController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 409, code: 'OFFERING_LOCKED' });
+    expect(pool.query).toHaveBeenCalledTimes(3);
+  });
+
+  it('should record a resit grade even if the course is assessed', async () => {
+    req.body = { ...req.body, grade: 12, session: 'resit' };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ id: 2, grade: 12, session: 'resit', created: true }] });
+
+    await gradeController.create(req as Request, res as Response);
+
+    expect((pool.query as jest.Mock).mock.calls[5][1]).toEqual([
+      1,
+      1,
+      12,
+      null,
+      'Fall',
+      '2021-2022',
+      'resit',
+    ]);
+    expect(status).toHaveBeenCalledWith(201);
+  });
+
   it('should return 500 if there is a database error', async () => {
     (pool.query as jest.Mock).mockRejectedValue(new Error('Database error'));
 
@@ -94,6 +253,85 @@ describe('gradeController.create', () => {
   });
   
 });
+describe('gradeController.importCsv', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      query: {
+        courseId: '3',
+        semester: 'S1',
+        academicYear: '2024-2025',
+        dryRun: 'true',
+      },
+      body: Buffer.from('numero_etudiant;note\n22001;14,5\n'),
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 404 if course does not exist', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      gradeController.importCsv(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'COURSE_NOT_FOUND' });
+  });
+
+  it('should check the course assignment before reading the file', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 3 }] });
+    (CourseAccessService.assertCanManageGrades as jest.Mock).mockRejectedValueOnce(
+      new AppError(403, 'Cours non attribué', 'COURSE_NOT_ASSIGNED')
+    );
+
+    await expect(
+      gradeController.importCsv(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the preview report', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ id: 1, studentNumber: '22001' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await gradeController.importCsv(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dryRun: true,
+        courseId: 3,
+        rows: [
+          {
+            line: 2,
+            studentNumber: '22001',
+            studentId: 1,
+            grade: 14.5,
+            specialCode: null,
+            status: 'new',
+          },
+        ],
+        errors: [],
+      })
+    );
+  });
+});
+
 describe('gradeController.getAll', () => {
   let req: Partial<Request>;
   let res: Partial<Response>;
@@ -101,7 +339,7 @@ describe('gradeController.getAll', () => {
   let json: jest.Mock;
 
   beforeEach(() => {
-    req = {};
+    req = { query: {}, headers: {} };
     status = jest.fn().mockReturnThis();
     json = jest.fn();
     res = {
@@ -116,12 +354,16 @@ describe('gradeController.getAll', () => {
 
   it('should return all grades', async () => {
     const mockGrades = [{ id: 1, grade: 'A' }];
-    (pool.query as jest.Mock).mockResolvedValue({ rows: mockGrades });
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 1 }] })
+      .mockResolvedValueOnce({ rows: mockGrades });
 
     await gradeController.getAll(req as Request, res as Response);
 
     expect(status).toHaveBeenCalledWith(200);
-    expect(json).toHaveBeenCalledWith(mockGrades);
+    expect(json).toHaveBeenCalledWith(
+      expect.objectContaining({ data: mockGrades })
+    );
   });
 
   it('should handle database errors', async () => {
@@ -147,6 +389,8 @@ describe('gradeController.getByStudent', () => {
   beforeEach(() => {
     req = {
       params: { studentId: '1' },
+      query: {},
+      headers: {},
     };
     status = jest.fn().mockReturnThis();
     json = jest.fn();
@@ -170,6 +414,21 @@ describe('gradeController.getByStudent', () => {
     expect(json).toHaveBeenCalledWith(mockGrades);
   });
 
+  it('should hide from students the grades of a course without a published offering', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+    const studentReq = {
+      ...req,
+      user: { id: 1, email: 'etudiant@iut.fr', role: 'student', sid: 's' },
+    };
+
+    await gradeController.getByStudent(studentReq as Request, res as Response);
+
+    // Sans offre de cours, o.status est NULL : la note est écartée
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain("AND (NOT $2 OR o.status IN ('published', 'locked'))");
+    expect(params).toEqual(['1', true]);
+  });
+
   it('should handle database errors', async () => {
     (pool.query as jest.Mock).mockRejectedValue(new Error('Database error'));
 
@@ -194,12 +453,14 @@ describe('gradeController.update', () => {
     req = {
       params: { id: '1' },
       body: { grade: 'B' },
+      get: jest.fn().mockReturnValue('"1"'),
     };
     status = jest.fn().mockReturnThis();
     json = jest.fn();
     res = {
       status,
       json,
+      setHeader: jest.fn(),
     };
   });
 
@@ -217,6 +478,55 @@ describe('gradeController.update', () => {
     expect(json).toHaveBeenCalledWith(updatedGrade);
   });
 
+  it('should replace the grade with a special code', async () => {
+    req.body = { specialCode: 'ABJ' };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ courseId: 3, academicYear: '2021-2022' }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ id: 1, grade: null, specialCode: 'ABJ' }] });
+
+    await gradeController.update(req as Request, res as Response);
+
+    expect((pool.query as jest.Mock).mock.calls[2][1]).toEqual([null, 'ABJ', '1', 1]);
+    expect(status).toHaveBeenCalledWith(200);
+  });
+
+  it('should return 400 if both a grade and a special code are given', async () => {
+    req.body = { grade: 12, specialCode: 'ABS' };
+
+    await expect(
+      gradeController.update(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_GRADE_VALUE' });
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('should return 428 without an If-Match header', async () => {
+    req.get = jest.fn().mockReturnValue(undefined);
+
+    await expect(
+      gradeController.update(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 428, code: 'PRECONDITION_REQUIRED' });
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('should return 412 with the current grade if it was modified meanwhile', async () => {
+    const current = { id: 1, grade: '14.00', specialCode: null, version: 2 };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ courseId: 3, academicYear: '2021-2022' }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [current] });
+
+    await expect(
+      gradeController.update(req as Request, res as Response)
+    ).rejects.toMatchObject({
+      statusCode: 412,
+      code: 'PRECONDITION_FAILED',
+      details: current,
+    });
+    expect(res.setHeader).toHaveBeenCalledWith('ETag', '"2"');
+  });
+
   it('should return 404 if grade not found', async () => {
     (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
 
@@ -230,6 +540,76 @@ describe('gradeController.update', () => {
     }
   });
 
+  it('should refuse if the caller does not teach the course', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [{ courseId: 3, academicYear: '2021-2022' }],
+    });
+    (CourseAccessService.assertCanManageGrades as jest.Mock).mockRejectedValueOnce(
+      new AppError(403, 'Cours non attribué', 'COURSE_NOT_ASSIGNED')
+    );
+
+    await expect(
+      gradeController.update(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 403, code: 'COURSE_NOT_ASSIGNED' });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to edit a grade of a locked offering', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [{ courseId: 3, academicYear: '2021-2022', status: 'locked' }],
+    });
+
+    await expect(
+      gradeController.update(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 409, code: 'OFFERING_LOCKED' });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to edit a grade after the entry deadline', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [{ courseId: 3, academicYear: '2021-2022', status: 'draft', pastDeadline: true }],
+    });
+    const professorReq = {
+      ...req,
+      user: { id: 4, email: 'prof@iut.fr', role: 'professor', sid: 's' },
+    };
+
+    await expect(
+      gradeController.update(professorReq as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 403, code: 'GRADE_DEADLINE_PASSED' });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let a manager edit a grade after the entry deadline', async () => {
+    const updatedGrade = { id: 1, grade: 12, semester: 'Fall', academicYear: '2021-2022' };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [{ courseId: 3, academicYear: '2021-2022', status: 'draft', pastDeadline: true }],
+      })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [updatedGrade] });
+    const headReq = {
+      ...req,
+      user: { id: 2, email: 'chef@iut.fr', role: 'department_head', sid: 's' },
+    };
+
+    await gradeController.update(headReq as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(updatedGrade);
+  });
+
+  it('should refuse to edit a grade computed from assessments', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [{ courseId: 3, academicYear: '2021-2022', isComputed: true }],
+    });
+
+    await expect(
+      gradeController.update(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 409, code: 'GRADE_IS_COMPUTED' });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
   it('should handle database errors', async () => {
     (pool.query as jest.Mock).mockRejectedValue(new Error('Database error'));
 
@@ -253,6 +633,7 @@ describe('gradeController.delete', () => {
   beforeEach(() => {
     req = {
       params: { id: '1' },
+      query: {},
     };
     status = jest.fn().mockReturnThis();
     json = jest.fn();
@@ -301,6 +682,102 @@ describe('gradeController.delete', () => {
   });
 });
 
+describe('gradeController.getMissing', () => {
+  const missing = (
+    professorId: number | null,
+    offeringId: number,
+    studentId: number
+  ): MissingGradeRow => ({
+    professorId,
+    professorName: professorId ? 'Jean Dupont' : null,
+    professorEmail: professorId ? 'jean.dupont@iut.fr' : null,
+    offeringId,
+    courseId: offeringId,
+    courseCode: `R1.0${offeringId}`,
+    courseName: 'Cours',
+    semester: 'S1',
+    academicYear: '2024-2025',
+    gradeDeadline: new Date('2025-01-31'),
+    studentId,
+    studentNumber: `E00${studentId}`,
+    firstName: 'Léa',
+    lastName: 'Martin',
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should group the missing grades by responsible professor', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({
+      rows: [missing(4, 1, 7), missing(4, 1, 8), missing(4, 2, 7), missing(null, 3, 7)],
+    });
+    const status = jest.fn().mockReturnThis();
+    const json = jest.fn();
+
+    await gradeController.getMissing(
+      { query: { academicYear: '2024-2025' }, headers: {} } as unknown as Request,
+      { status, json } as unknown as Response
+    );
+
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual(['2024-2025', null]);
+    expect(status).toHaveBeenCalledWith(200);
+    const [professor, unassigned] = json.mock.calls[0][0];
+    expect(professor).toMatchObject({ professorId: 4, missingCount: 3 });
+    expect(professor.offerings.map((offering: { students: unknown[] }) => offering.students.length)).toEqual([2, 1]);
+    expect(unassigned).toMatchObject({ professorId: null, missingCount: 1 });
+  });
+});
+
+describe('gradeController.getHistory', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      params: { id: '1' },
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the history even after the grade was deleted', async () => {
+    const history = [
+      { id: 1, gradeId: 1, action: 'create', newGrade: 12, courseId: 3, academicYear: '2024-2025' },
+      { id: 2, gradeId: 1, action: 'delete', oldGrade: 12, courseId: 3, academicYear: '2024-2025' },
+    ];
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: history });
+
+    await gradeController.getHistory(req as Request, res as Response);
+
+    expect(CourseAccessService.assertCanManageGrades).toHaveBeenCalledWith(
+      undefined,
+      3,
+      '2024-2025'
+    );
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(history);
+  });
+
+  it('should return 404 if the grade has no history', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      gradeController.getHistory(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'GRADE_NOT_FOUND' });
+  });
+});
+
 describe('gradeController.generateTranscript', () => {
   let req: Partial<Request>;
   let res: Partial<Response>;
@@ -361,6 +838,34 @@ describe('gradeController.generateTranscript', () => {
     }
   });
 
+  it('should present the results by teaching unit', async () => {
+    const mockStudent = { firstName: 'John', lastName: 'Doe', studentId: '1' };
+    const grades = [
+      { courseCode: 'R1.01', courseName: 'Développement', credits: 3, grade: 12, semester: 'S1' },
+    ];
+    const units = [
+      { unitId: 1, code: 'UE1.1', name: 'Réaliser', semester: 'S1', credits: 6, average: 12 },
+    ];
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [mockStudent] })
+      .mockResolvedValueOnce({ rows: grades })
+      .mockResolvedValueOnce({ rows: units });
+    (PDFService.generateTranscript as jest.Mock).mockResolvedValueOnce(
+      Buffer.from('pdf')
+    );
+    write.mockImplementation((_chunk, callback) => callback());
+    end.mockImplementation((callback) => callback());
+
+    await gradeController.generateTranscript(req as Request, res as Response);
+
+    expect(PDFService.generateTranscript).toHaveBeenCalledWith(
+      { ...mockStudent, academicYear: '2021-2022' },
+      grades,
+      [{ ...units[0], validated: true }]
+    );
+    expect(setHeader).toHaveBeenCalledWith('Content-Type', 'application/pdf');
+  });
+
   it('should handle database errors', async () => {
     (pool.query as jest.Mock).mockRejectedValue(new Error('Database error'));
 
@@ -0,0 +1,237 @@
+import { GradeImportService } from '../../services/gradeImportService';
+import { pool, withTransaction } from '../../config/database';
+import { CsvRow } from '../../services/csvService';
+
+jest.mock('../../config/database');
+
+const scope = {
+  courseId: 3,
+  semester: 'S1',
+  academicYear: '2024-2025',
+  session: 'first' as const,
+};
+
+const audit = {
+  professorId: 2,
+  apiKeyId: null,
+  ip: '127.0.0.1',
+  reason: 'Import CSV (2 lignes)',
+};
+
+const row = (line: number, studentNumber: string, grade: string): CsvRow => ({
+  line,
+  values: { studentNumber, grade },
+});
+
+describe('GradeImportService.import', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should preview the diff against existing grades without writing', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 1, studentNumber: '22001' },
+          { id: 2, studentNumber: '22002' },
+          { id: 3, studentNumber: '22003' },
+          { id: 4, studentNumber: '22004' },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 10, studentId: 2, grade: '12.50' },
+          { id: 11, studentId: 3, grade: '15.00' },
+        ],
+      });
+
+    const report = await GradeImportService.import(
+      [
+        row(2, '22001', '14'),
+        row(3, '22002', '12,5'),
+        row(4, '22003', '16'),
+        row(5, '99999', '10'),
+        row(6, '22004', '25'),
+      ],
+      scope,
+      true,
+      audit
+    );
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      ...scope,
+      total: 5,
+      summary: { new: 1, changed: 1, unchanged: 1, unknown_student: 1, invalid: 1 },
+      rows: [
+        { line: 2, studentId: 1, grade: 14, status: 'new' },
+        { line: 3, studentId: 2, grade: 12.5, previousGrade: 12.5, status: 'unchanged' },
+        { line: 4, studentId: 3, grade: 16, previousGrade: 15, status: 'changed' },
+        { line: 5, studentNumber: '99999', status: 'unknown_student' },
+        { line: 6, studentId: 4, status: 'invalid' },
+      ],
+      errors: [
+        { line: 5, field: 'studentId', message: 'Étudiant 99999 non trouvé' },
+        { line: 6, field: 'grade', message: expect.any(String) },
+      ],
+    });
+    expect(withTransaction).not.toHaveBeenCalled();
+    expect(pool.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('should flag a student listed twice in the file', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1, studentNumber: '22001' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const report = await GradeImportService.import(
+      [row(2, '22001', '14'), row(3, '22001', '15')],
+      scope,
+      true,
+      audit
+    );
+
+    expect(report.errors).toEqual([
+      { line: 3, field: 'studentId', message: 'Doublon de la ligne 2' },
+    ]);
+  });
+
+  it('should read special codes in place of grades', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 1, studentNumber: '22001' },
+          { id: 2, studentNumber: '22002' },
+          { id: 3, studentNumber: '22003' },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rows: [{ id: 10, studentId: 2, grade: null, specialCode: 'EN ATTENTE' }],
+      });
+
+    const report = await GradeImportService.import(
+      [row(2, '22001', 'abs'), row(3, '22002', '13'), row(4, '22003', '')],
+      scope,
+      true,
+      audit
+    );
+
+    expect(report.rows).toMatchObject([
+      { line: 2, grade: null, specialCode: 'ABS', status: 'new' },
+      {
+        line: 3,
+        grade: 13,
+        specialCode: null,
+        previousGrade: null,
+        previousSpecialCode: 'EN ATTENTE',
+        status: 'changed',
+      },
+      { line: 4, status: 'invalid' },
+    ]);
+    expect(report.errors).toEqual([
+      {
+        line: 4,
+        field: 'grade',
+        message: 'Note ou code spécial (ABS, ABJ, DISP, EN ATTENTE) requis',
+      },
+    ]);
+  });
+
+  it('should reject resit grades of students who passed the first session', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 1, studentNumber: '22001' },
+          { id: 2, studentNumber: '22002' },
+        ],
+      })
+      .mockResolvedValueOnce({ rows: [{ studentId: 2 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const report = await GradeImportService.import(
+      [row(2, '22001', '11'), row(3, '22002', '15')],
+      { ...scope, session: 'resit' },
+      true,
+      audit
+    );
+
+    expect((pool.query as jest.Mock).mock.calls[1][1]).toEqual([
+      3,
+      'S1',
+      '2024-2025',
+      [1, 2],
+      10,
+    ]);
+    expect(report.rows).toMatchObject([
+      { line: 2, studentId: 1, status: 'new' },
+      { line: 3, studentId: 2, status: 'invalid' },
+    ]);
+    expect(report.errors).toEqual([
+      {
+        line: 3,
+        field: 'studentId',
+        message: 'Cours validé en première session : pas de rattrapage',
+      },
+    ]);
+    expect((pool.query as jest.Mock).mock.calls[2][1][3]).toBe('resit');
+  });
+
+  it('should refuse the whole file when a row is rejected', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1, studentNumber: '22001' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      GradeImportService.import(
+        [row(2, '22001', '14'), row(3, '99999', '10')],
+        scope,
+        false,
+        audit
+      )
+    ).rejects.toMatchObject({
+      statusCode: 422,
+      code: 'IMPORT_VALIDATION_FAILED',
+      details: expect.objectContaining({
+        summary: expect.objectContaining({ new: 1, unknown_student: 1 }),
+      }),
+    });
+    expect(pool.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('should insert new grades and update changed ones in a single transaction', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 1, studentNumber: '22001' },
+          { id: 2, studentNumber: '22002' },
+        ],
+      })
+      .mockResolvedValueOnce({ rows: [{ id: 10, studentId: 2, grade: '8.00' }] })
+      .mockResolvedValue({ rows: [] });
+
+    const report = await GradeImportService.import(
+      [row(2, '22001', '14'), row(3, '22002', '11')],
+      scope,
+      false,
+      audit
+    );
+
+    expect(withTransaction).toHaveBeenCalledTimes(1);
+    expect(report.summary).toMatchObject({ new: 1, changed: 1 });
+    expect(pool.query).toHaveBeenNthCalledWith(
+      3,
+      expect.stringContaining('set_config'),
+      ['2', '', '127.0.0.1', 'Import CSV (2 lignes)']
+    );
+    expect(pool.query).toHaveBeenNthCalledWith(
+      4,
+      expect.stringContaining('INSERT INTO grades'),
+      [[1], [14], [null], 3, 'S1', '2024-2025', 'first']
+    );
+    expect(pool.query).toHaveBeenNthCalledWith(
+      5,
+      expect.stringContaining('UPDATE grades'),
+      [[10], [11], [null]]
+    );
+  });
+});
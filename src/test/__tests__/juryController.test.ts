@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { juryController } from '../../controllers/juryController';
+import { pool } from '../../config/database';
+import { JuryService } from '../../services/juryService';
+import { RequestWithUser } from '../../middleware/auth';
+
+jest.mock('../../config/database');
+
+const juryResult = {
+  studentId: 7,
+  studentNumber: 'E007',
+  firstName: 'Léa',
+  lastName: 'Martin',
+  academicYear: '2024-2025',
+  semesters: [
+    {
+      semester: 'S1',
+      average: 9.4,
+      totalCredits: 12,
+      validatedCredits: 6,
+      units: [],
+      proposedDecision: 'AJ' as const,
+      decision: 'AJ' as const,
+      overridden: false,
+      justification: null,
+      decidedBy: null,
+      decidedAt: null,
+    },
+  ],
+  failedUnits: 1,
+  canProgress: true,
+};
+
+describe('juryController.updateRules', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reject an eliminatory average above the passing average', async () => {
+    const req = {
+      body: {
+        academicYear: '2024-2025',
+        passingAverage: 10,
+        eliminatoryAverage: 12,
+        compensation: true,
+        maxFailedUnits: 2,
+      },
+    };
+
+    await expect(
+      juryController.updateRules(req as Request, {} as Response)
+    ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_JURY_RULES' });
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('juryController.saveDecision', () => {
+  let req: Partial<RequestWithUser>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      params: { studentId: '7' },
+      body: {
+        academicYear: '2024-2025',
+        semester: 'S1',
+        decision: 'ADJ',
+        justification: '  Maladie attestée pendant les examens  ',
+      },
+      user: { id: 2, email: 'chef@iut.fr', role: 'department_head', sid: 's' },
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should record the decision with its justification and the proposal it replaces', async () => {
+    const getDecisions = jest
+      .spyOn(JuryService, 'getDecisions')
+      .mockResolvedValueOnce([juryResult])
+      .mockResolvedValueOnce([juryResult]);
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 7 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await juryController.saveDecision(req as RequestWithUser, res as Response);
+
+    expect(getDecisions).toHaveBeenCalledWith('2024-2025', 7);
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[1];
+    expect(sql).toContain('INSERT INTO jury_decisions');
+    expect(params).toEqual([
+      7,
+      '2024-2025',
+      'S1',
+      'ADJ',
+      'AJ',
+      'Maladie attestée pendant les examens',
+      2,
+    ]);
+    expect(status).toHaveBeenCalledWith(200);
+  });
+
+  it('should return 404 if the student has no result for the semester', async () => {
+    jest.spyOn(JuryService, 'getDecisions').mockResolvedValueOnce([]);
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 7 }] });
+
+    await expect(
+      juryController.saveDecision(req as RequestWithUser, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'JURY_RESULTS_NOT_FOUND' });
+  });
+});
+
+describe('juryController.removeDecision', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 404 if no decision was recorded', async () => {
+    const req = {
+      params: { studentId: '7' },
+      query: { academicYear: '2024-2025', semester: 'S1' },
+    };
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(
+      juryController.removeDecision(req as unknown as Request, {} as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'JURY_DECISION_NOT_FOUND' });
+  });
+});
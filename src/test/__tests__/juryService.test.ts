@@ -0,0 +1,187 @@
+import { DEFAULT_JURY_RULES, JuryService } from '../../services/juryService';
+import { StudentUnitAverage } from '../../services/curriculumService';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+
+const curriculum = [
+  { id: 1, code: 'UE1.1', name: 'Réaliser', competenceId: 1, competenceCode: 'C1', semester: 'S1', credits: 6 },
+  { id: 2, code: 'UE1.2', name: 'Optimiser', competenceId: 2, competenceCode: 'C2', semester: 'S1', credits: 6 },
+  { id: 3, code: 'UE2.1', name: 'Réaliser', competenceId: 1, competenceCode: 'C1', semester: 'S2', credits: 6 },
+  { id: 4, code: 'UE2.2', name: 'Optimiser', competenceId: 2, competenceCode: 'C2', semester: 'S2', credits: 6 },
+];
+
+const average = (
+  unitId: number,
+  semester: string,
+  value: number
+): StudentUnitAverage => ({
+  studentId: 7,
+  unitId,
+  code: `UE${unitId}`,
+  name: 'UE',
+  competenceCode: unitId % 2 === 1 ? 'C1' : 'C2',
+  semester,
+  credits: 6,
+  average: value,
+  coursesCount: 2,
+  pending: false,
+  validated: value >= 10,
+});
+
+describe('JuryService.propose', () => {
+  it('should admit a semester whose units are all validated', () => {
+    const [s1] = JuryService.propose(
+      curriculum,
+      [average(1, 'S1', 12), average(2, 'S1', 10)],
+      DEFAULT_JURY_RULES
+    );
+
+    expect(s1).toMatchObject({
+      semester: 'S1',
+      average: 11,
+      totalCredits: 12,
+      validatedCredits: 12,
+      proposedDecision: 'ADM',
+    });
+  });
+
+  it('should compensate a unit with the other semester of the same competence', () => {
+    const [s1, s2] = JuryService.propose(
+      curriculum,
+      [
+        average(1, 'S1', 9),
+        average(2, 'S1', 12),
+        average(3, 'S2', 13),
+        average(4, 'S2', 11),
+      ],
+      DEFAULT_JURY_RULES
+    );
+
+    expect(s1.units.map((unit) => unit.decision)).toEqual(['CMP', 'ADM']);
+    expect(s1.proposedDecision).toBe('CMP');
+    expect(s1.validatedCredits).toBe(12);
+    expect(s2.proposedDecision).toBe('ADM');
+  });
+
+  it('should not compensate an eliminatory average', () => {
+    const [s1] = JuryService.propose(
+      curriculum,
+      [
+        average(1, 'S1', 7.5),
+        average(2, 'S1', 12),
+        average(3, 'S2', 16),
+        average(4, 'S2', 11),
+      ],
+      DEFAULT_JURY_RULES
+    );
+
+    expect(s1.units[0].decision).toBe('AJ');
+    expect(s1.proposedDecision).toBe('AJ');
+    expect(s1.validatedCredits).toBe(6);
+  });
+
+  it('should not compensate when compensation is disabled', () => {
+    const [s1] = JuryService.propose(
+      curriculum,
+      [
+        average(1, 'S1', 9),
+        average(2, 'S1', 12),
+        average(3, 'S2', 13),
+        average(4, 'S2', 11),
+      ],
+      { ...DEFAULT_JURY_RULES, compensation: false }
+    );
+
+    expect(s1.proposedDecision).toBe('AJ');
+  });
+
+  it('should neither validate nor use for compensation a unit with a pending grade', () => {
+    const [s1, s2] = JuryService.propose(
+      curriculum,
+      [
+        average(1, 'S1', 9),
+        average(2, 'S1', 12),
+        { ...average(3, 'S2', 15), pending: true, validated: false },
+        average(4, 'S2', 11),
+      ],
+      DEFAULT_JURY_RULES
+    );
+
+    expect(s1.units[0].decision).toBe('AJ');
+    expect(s2.units[0]).toMatchObject({ average: null, pending: true, decision: 'AJ' });
+  });
+
+  it('should fail a unit without any grade', () => {
+    const [s1] = JuryService.propose(
+      curriculum,
+      [average(1, 'S1', 14)],
+      DEFAULT_JURY_RULES
+    );
+
+    expect(s1.units[1]).toMatchObject({ code: 'UE1.2', average: null, decision: 'AJ' });
+    expect(s1.average).toBe(14);
+    expect(s1.proposedDecision).toBe('AJ');
+  });
+});
+
+describe('JuryService.getDecisions', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const mockQueries = (overrides: unknown[]): void => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [average(1, 'S1', 12), average(2, 'S1', 6), average(3, 'S2', 5), average(4, 'S2', 6)],
+      })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: curriculum })
+      .mockResolvedValueOnce({
+        rows: [{ studentId: 7, studentNumber: 'E007', firstName: 'Léa', lastName: 'Martin' }],
+      })
+      .mockResolvedValueOnce({ rows: overrides });
+  };
+
+  it('should count failed units against the progression limit', async () => {
+    mockQueries([]);
+
+    const [student] = await JuryService.getDecisions('2024-2025');
+
+    expect(student.semesters.map((semester) => semester.decision)).toEqual(['AJ', 'AJ']);
+    expect(student.failedUnits).toBe(3);
+    expect(student.canProgress).toBe(false);
+  });
+
+  it('should apply the decision recorded by the jury', async () => {
+    mockQueries([
+      {
+        studentId: 7,
+        semester: 'S1',
+        decision: 'ADJ',
+        justification: 'Circonstances exceptionnelles',
+        decidedBy: 2,
+        decidedAt: new Date('2025-07-01'),
+      },
+    ]);
+
+    const [student] = await JuryService.getDecisions('2024-2025');
+
+    expect(student.semesters[0]).toMatchObject({
+      proposedDecision: 'AJ',
+      decision: 'ADJ',
+      overridden: true,
+      justification: 'Circonstances exceptionnelles',
+      validatedCredits: 12,
+    });
+    expect(student.failedUnits).toBe(2);
+    expect(student.canProgress).toBe(true);
+  });
+
+  it('should return no result when no unit average exists', async () => {
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await expect(JuryService.getDecisions('2024-2025', 7)).resolves.toEqual([]);
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,264 @@
+import { Request } from 'express';
+import { ListQueryService } from '../../services/listQueryService';
+import { pool, streamQuery } from '../../config/database';
+import { gradeListQuery } from '../../schemas/grade.schema';
+import { studentListQuery } from '../../schemas/student.schema';
+import { gradeAuditListQuery } from '../../schemas/gradeAudit.schema';
+
+jest.mock('../../config/database');
+
+const source = { select: 'g.id', from: 'grades g' };
+
+const buildRequest = (query: Record<string, string>): Request =>
+  ({ query, baseUrl: '/api/grades', path: '/' }) as unknown as Request;
+
+describe('ListQueryService.paginate', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should apply filters, sort and page offset', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 45 }] })
+      .mockResolvedValueOnce({
+        rows: Array.from({ length: 11 }, (_, i) => ({ id: i, grade: 10 + i })),
+      });
+
+    const page = await ListQueryService.paginate(
+      buildRequest({
+        academicYear: '2024-2025',
+        sort: '-grade',
+        limit: '10',
+        page: '2',
+      }),
+      gradeListQuery,
+      source
+    );
+
+    const [countSql, countParams] = (pool.query as jest.Mock).mock.calls[0];
+    const [rowsSql, rowsParams] = (pool.query as jest.Mock).mock.calls[1];
+    expect(countSql).toContain('WHERE g.academic_year = $1');
+    expect(countParams).toEqual(['2024-2025']);
+    expect(rowsSql).toContain('ORDER BY COALESCE(g.grade, -1) DESC, g.id DESC');
+    expect(rowsParams).toEqual(['2024-2025', 11, 10]);
+
+    expect(page.data).toHaveLength(10);
+    expect(page.pagination).toMatchObject({ total: 45, limit: 10, page: 2 });
+    expect(page.pagination.next).toBe(
+      '/api/grades?academicYear=2024-2025&sort=-grade&limit=10&page=3'
+    );
+  });
+
+  it('should escape LIKE wildcards in prefix filters', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 0 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const page = await ListQueryService.paginate(
+      buildRequest({ studentLastName: 'O_Br%' }),
+      gradeListQuery,
+      source
+    );
+
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual(['O\\_Br\\%%']);
+    expect(page.pagination.next).toBeNull();
+  });
+
+  it('should bound range filters inclusively', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 0 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await ListQueryService.paginate(
+      buildRequest({ action: 'update', from: '2025-01-15', to: '2025-01-31T23:59:59Z' }),
+      gradeAuditListQuery,
+      { select: 'a.id', from: 'grade_audit a' }
+    );
+
+    const [countSql, countParams] = (pool.query as jest.Mock).mock.calls[0];
+    expect(countSql).toContain(
+      'a.action = $1 AND a.created_at >= $2 AND a.created_at <= $3'
+    );
+    expect(countParams).toEqual(['update', '2025-01-15', '2025-01-31T23:59:59Z']);
+  });
+
+  it('should continue after the cursor with keyset pagination', async () => {
+    const cursor = ListQueryService.encodeCursor('2024-2025', 42);
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 3 }] })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 41, academicYear: '2024-2025', cursorSortValue: '2024-2025' },
+          { id: 40, academicYear: '2023-2024', cursorSortValue: '2023-2024' },
+        ],
+      });
+
+    const page = await ListQueryService.paginate(
+      buildRequest({ cursor, limit: '1' }),
+      gradeListQuery,
+      source
+    );
+
+    const [rowsSql, rowsParams] = (pool.query as jest.Mock).mock.calls[1];
+    expect(rowsSql).toContain('(g.academic_year, g.id) < ($1, $2)');
+    expect(rowsParams).toEqual(['2024-2025', 42, 2, 0]);
+    expect(page.pagination.page).toBeNull();
+    expect(page.data).toEqual([{ id: 41, academicYear: '2024-2025' }]);
+    expect(ListQueryService.decodeCursor(page.pagination.nextCursor!)).toEqual([
+      '2024-2025',
+      41,
+    ]);
+  });
+
+  it('should paginate the audit feed past entries sharing a timestamp', async () => {
+    const createdAt = new Date('2025-01-15T10:00:00.123Z');
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 3 }] })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 12, createdAt, cursorSortValue: 12 },
+          { id: 11, createdAt, cursorSortValue: 11 },
+        ],
+      });
+
+    const page = await ListQueryService.paginate(
+      buildRequest({ cursor: ListQueryService.encodeCursor(13, 13), limit: '1' }),
+      gradeAuditListQuery,
+      { select: 'a.id, a.created_at as "createdAt"', from: 'grade_audit a' }
+    );
+
+    const [rowsSql, rowsParams] = (pool.query as jest.Mock).mock.calls[1];
+    expect(rowsSql).toContain('(a.id, a.id) < ($1, $2)');
+    expect(rowsSql).toContain('ORDER BY a.id DESC');
+    expect(rowsParams).toEqual([13, 13, 2, 0]);
+    expect(ListQueryService.decodeCursor(page.pagination.nextCursor!)).toEqual([
+      12,
+      12,
+    ]);
+  });
+
+  it('should paginate by grade past a grade replaced by a special code', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 3 }] })
+      .mockResolvedValueOnce({
+        rows: [
+          { id: 7, grade: null, specialCode: 'ABS', cursorSortValue: -1 },
+          { id: 5, grade: null, specialCode: 'ABJ', cursorSortValue: -1 },
+        ],
+      });
+
+    const first = await ListQueryService.paginate(
+      buildRequest({ sort: 'grade', limit: '1' }),
+      gradeListQuery,
+      source
+    );
+
+    const [firstSql] = (pool.query as jest.Mock).mock.calls[1];
+    expect(firstSql).toContain('COALESCE(g.grade, -1) as "cursorSortValue"');
+    expect(first.data).toEqual([{ id: 7, grade: null, specialCode: 'ABS' }]);
+    expect(ListQueryService.decodeCursor(first.pagination.nextCursor!)).toEqual([
+      -1,
+      7,
+    ]);
+
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 3 }] })
+      .mockResolvedValueOnce({
+        rows: [{ id: 5, grade: null, specialCode: 'ABJ', cursorSortValue: -1 }],
+      });
+
+    const second = await ListQueryService.paginate(
+      buildRequest({ sort: 'grade', limit: '1', cursor: first.pagination.nextCursor! }),
+      gradeListQuery,
+      source
+    );
+
+    const [secondSql, secondParams] = (pool.query as jest.Mock).mock.calls[3];
+    expect(secondSql).toContain('(COALESCE(g.grade, -1), g.id) > ($1, $2)');
+    expect(secondParams).toEqual([-1, 7, 2, 0]);
+    expect(second.data).toEqual([{ id: 5, grade: null, specialCode: 'ABJ' }]);
+  });
+
+  it('should reject combining page and cursor', async () => {
+    await expect(
+      ListQueryService.paginate(
+        buildRequest({ page: '2', cursor: 'abc' }),
+        gradeListQuery,
+        source
+      )
+    ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_PAGINATION' });
+  });
+
+  it('should reject a malformed cursor', () => {
+    expect(() => ListQueryService.decodeCursor('not-a-cursor')).toThrow(
+      'Curseur de pagination invalide'
+    );
+  });
+});
+
+describe('ListQueryService.paginate with a search term', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should filter on the search document and rank by relevance', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ total: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 1, lastName: 'Hélène' }] });
+
+    await ListQueryService.paginate(
+      {
+        query: { q: 'helene' },
+        baseUrl: '/api/students',
+        path: '/',
+      } as unknown as Request,
+      studentListQuery,
+      { select: 'id', from: 'students' }
+    );
+
+    const [rowsSql, rowsParams] = (pool.query as jest.Mock).mock.calls[1];
+    expect(rowsSql).toContain('search_normalize($1) <% search_normalize(');
+    expect(rowsSql).toContain('ORDER BY word_similarity(search_normalize($1)');
+    expect(rowsParams.slice(0, 2)).toEqual(['helene', '%helene%']);
+  });
+
+  it('should refuse cursor pagination when ranking by relevance', async () => {
+    await expect(
+      ListQueryService.paginate(
+        {
+          query: { q: 'helene', cursor: 'abc' },
+          baseUrl: '/api/students',
+          path: '/',
+        } as unknown as Request,
+        studentListQuery,
+        { select: 'id', from: 'students' }
+      )
+    ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_PAGINATION' });
+  });
+});
+
+describe('ListQueryService.stream', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should stream every matching row without pagination', () => {
+    ListQueryService.stream(
+      buildRequest({
+        semester: 'S1',
+        sort: 'grade',
+        page: '3',
+        limit: '10',
+      }),
+      gradeListQuery,
+      source
+    );
+
+    const [sql, params] = (streamQuery as jest.Mock).mock.calls[0];
+    expect(sql).toContain('WHERE g.semester = $1');
+    expect(sql).toContain('ORDER BY COALESCE(g.grade, -1) ASC, g.id ASC');
+    expect(sql).not.toContain('LIMIT');
+    expect(params).toEqual(['S1']);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { pool } from '../../config/database';
+import { LoginThrottleService } from '../../services/loginThrottleService';
+
+jest.mock('../../config/database');
+
+describe('LoginThrottleService', () => {
+  const now = new Date('2024-01-01T12:00:00Z');
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getProgressiveDelay', () => {
+    it('should grow exponentially and be capped', () => {
+      expect(LoginThrottleService.getProgressiveDelay(0)).toBe(0);
+      expect(LoginThrottleService.getProgressiveDelay(1)).toBe(0);
+      expect(LoginThrottleService.getProgressiveDelay(2)).toBe(2);
+      expect(LoginThrottleService.getProgressiveDelay(4)).toBe(8);
+      expect(LoginThrottleService.getProgressiveDelay(20)).toBe(30);
+    });
+  });
+
+  describe('assertAllowed', () => {
+    beforeEach(() => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ failures: 0 }] });
+    });
+
+    it('should reject a locked account with ACCOUNT_LOCKED', async () => {
+      const account = {
+        id: 1,
+        failedLoginAttempts: 5,
+        lastFailedLoginAt: now,
+        lockedUntil: new Date(now.getTime() + 60_000),
+      };
+
+      await expect(
+        LoginThrottleService.assertAllowed(account, '127.0.0.1', now)
+      ).rejects.toMatchObject({
+        statusCode: 423,
+        code: 'ACCOUNT_LOCKED',
+        details: { retryAfter: 60 },
+      });
+    });
+
+    it('should throttle an attempt made before the progressive delay', async () => {
+      const account = {
+        id: 1,
+        failedLoginAttempts: 3,
+        lastFailedLoginAt: new Date(now.getTime() - 1_000),
+        lockedUntil: null,
+      };
+
+      await expect(
+        LoginThrottleService.assertAllowed(account, '127.0.0.1', now)
+      ).rejects.toMatchObject({ statusCode: 429, code: 'LOGIN_THROTTLED' });
+    });
+
+    it('should allow an attempt once the delay has elapsed', async () => {
+      const account = {
+        id: 1,
+        failedLoginAttempts: 3,
+        lastFailedLoginAt: new Date(now.getTime() - 5_000),
+        lockedUntil: null,
+      };
+
+      await expect(
+        LoginThrottleService.assertAllowed(account, '127.0.0.1', now)
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject an IP with too many recent failures', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ failures: 50 }] });
+
+      await expect(
+        LoginThrottleService.assertAllowed(undefined, '10.0.0.1', now)
+      ).rejects.toMatchObject({ statusCode: 429, code: 'TOO_MANY_LOGIN_ATTEMPTS' });
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should only log the attempt for an unknown email', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      await LoginThrottleService.recordFailure('unknown@example.com', '127.0.0.1');
+
+      expect(pool.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should increment the counter of a known account', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ failedLoginAttempts: 2 }] });
+
+      await LoginThrottleService.recordFailure('prof@example.com', '127.0.0.1', 1);
+
+      expect(pool.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('failed_login_attempts + 1'),
+        [1, 5, 15]
+      );
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { meController } from '../../controllers/meController';
+import { gradeController } from '../../controllers/gradeController';
+import { pool } from '../../config/database';
+import { RequestWithUser } from '../../middleware/auth';
+
+jest.mock('../../config/database');
+
+describe('meController', () => {
+  let req: Partial<RequestWithUser>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      user: { id: 7, email: 'alice@etu.univ.fr', role: 'student', sid: 'session-1' },
+      params: {},
+      query: {},
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should return the profile of the connected student', async () => {
+    const profile = { id: 7, firstName: 'Alice', studentId: '22001234' };
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [profile] });
+
+    await meController.getProfile(req as RequestWithUser, res as Response);
+
+    expect(pool.query).toHaveBeenCalledWith(expect.any(String), [7]);
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(profile);
+  });
+
+  it('should only return the grades of the connected student', async () => {
+    const getByStudent = jest
+      .spyOn(gradeController, 'getByStudent')
+      .mockResolvedValue();
+    req.params = { studentId: '1' };
+
+    await meController.getGrades(req as RequestWithUser, res as Response);
+
+    expect(getByStudent).toHaveBeenCalledWith(
+      expect.objectContaining({ params: { studentId: '7' } }),
+      res
+    );
+  });
+
+  it('should hide the grades of unpublished offerings', async () => {
+    req.headers = {};
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+    await meController.getGrades(req as RequestWithUser, res as Response);
+
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain("IN ('published', 'locked')");
+    expect(params).toEqual(['7', true]);
+    expect(status).toHaveBeenCalledWith(200);
+  });
+});
@@ -0,0 +1,209 @@
+import { Request, Response } from 'express';
+import { professorController } from '../../controllers/professorController';
+import { pool } from '../../config/database';
+import bcrypt from 'bcryptjs';
+import { TokenService } from '../../services/tokenService';
+
+jest.mock('../../config/database');
+jest.mock('../../services/tokenService');
+
+describe('professorController', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  const professor = {
+    id: 1,
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'prof@example.com',
+    department: 'Informatique',
+    role: 'professor',
+    isActive: true,
+  };
+
+  beforeEach(() => {
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getAll', () => {
+    it('should return a page of professors', async () => {
+      req = { query: { department: 'Informatique' } };
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ total: 1 }] })
+        .mockResolvedValueOnce({ rows: [professor] });
+
+      await professorController.getAll(req as Request, res as Response);
+
+      expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual([
+        'Informatique',
+      ]);
+      expect(status).toHaveBeenCalledWith(200);
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ data: [professor] })
+      );
+    });
+  });
+
+  describe('getById', () => {
+    it('should throw 404 if professor is not found', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+      req = { params: { id: '1' } };
+
+      await expect(
+        professorController.getById(req as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 404, code: 'PROFESSOR_NOT_FOUND' });
+    });
+  });
+
+  describe('create', () => {
+    beforeEach(() => {
+      req = {
+        body: {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'prof@example.com',
+          department: 'Informatique',
+          password: 'password123',
+        },
+      };
+    });
+
+    it('should hash the password and create the professor', async () => {
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashed');
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [professor] });
+
+      await professorController.create(req as Request, res as Response);
+
+      expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual([
+        'John',
+        'Doe',
+        'prof@example.com',
+        'Informatique',
+        'professor',
+        'hashed',
+      ]);
+      expect(status).toHaveBeenCalledWith(201);
+      expect(json).toHaveBeenCalledWith(professor);
+    });
+
+    it('should throw 409 if the email is already used', async () => {
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashed');
+      (pool.query as jest.Mock).mockRejectedValue(
+        Object.assign(new Error('duplicate key'), { code: '23505' })
+      );
+
+      await expect(
+        professorController.create(req as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('update', () => {
+    it('should only update the provided fields', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({
+        rows: [{ ...professor, department: 'GEA' }],
+      });
+      req = { params: { id: '1' }, body: { department: 'GEA' } };
+
+      await professorController.update(req as Request, res as Response);
+
+      const [sql, values] = (pool.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('department = $1');
+      expect(values).toEqual(['GEA', '1']);
+      expect(TokenService.revokeAllSessions).not.toHaveBeenCalled();
+      expect(status).toHaveBeenCalledWith(200);
+    });
+
+    it('should revoke sessions when the role changes', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({
+        rows: [{ ...professor, role: 'admin' }],
+      });
+      req = { params: { id: '1' }, body: { role: 'admin' } };
+
+      await professorController.update(req as Request, res as Response);
+
+      expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(1);
+    });
+
+    it('should throw 400 if no field is provided', async () => {
+      req = { params: { id: '1' }, body: {} };
+
+      await expect(
+        professorController.update(req as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 400, code: 'EMPTY_UPDATE' });
+    });
+  });
+
+  describe('deactivate', () => {
+    it('should deactivate the professor and revoke its sessions', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ id: 1 }] });
+      req = { params: { id: '1' } };
+
+      await professorController.deactivate(req as Request, res as Response);
+
+      expect(TokenService.revokeAllSessions).toHaveBeenCalledWith(1);
+      expect(status).toHaveBeenCalledWith(204);
+    });
+
+    it('should throw 404 if professor is not found', async () => {
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+      req = { params: { id: '1' } };
+
+      await expect(
+        professorController.deactivate(req as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
+
+describe('professorController.unlock', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '1' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reset the lockout of the account', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [{ id: 1 }] });
+
+    await professorController.unlock(req as Request, res as Response);
+
+    expect(pool.query).toHaveBeenCalledWith(
+      expect.stringContaining('locked_until = NULL'),
+      [1]
+    );
+    expect(status).toHaveBeenCalledWith(204);
+  });
+
+  it('should throw 404 if professor is not found', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(
+      professorController.unlock(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { searchController } from '../../controllers/searchController';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+
+describe('searchController.search', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { query: { q: ' Hélène ' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return ranked students and courses', async () => {
+    const student = { id: 1, firstName: 'Hélène', score: 1 };
+    const course = { id: 2, code: 'R1.01', score: 0.4 };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [student] })
+      .mockResolvedValueOnce({ rows: [course] });
+
+    await searchController.search(req as Request, res as Response);
+
+    const [studentSql, studentParams] = (pool.query as jest.Mock).mock.calls[0];
+    expect(studentSql).toContain('archived_at IS NULL');
+    expect(studentSql).toContain('ORDER BY "score" DESC');
+    expect(studentParams).toEqual(['Hélène', '%Hélène%', 10]);
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith({
+      q: 'Hélène',
+      students: [student],
+      courses: [course],
+    });
+  });
+
+  it('should throw a 500 AppError on database error', async () => {
+    (pool.query as jest.Mock).mockRejectedValue(new Error('Database error'));
+
+    await expect(
+      searchController.search(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 500, code: 'SEARCH_ERROR' });
+  });
+});
@@ -15,6 +15,7 @@ describe('statsController.getCourseStats', () => {
     req = {
       params: { courseId: '1' },
       query: { academicYear: '2021-2022' },
+      headers: {},
     };
     status = jest.fn().mockReturnThis();
     json = jest.fn();
@@ -80,6 +81,7 @@ describe('statsController.getCourseStats', () => {
     beforeEach(() => {
       req = {
         query: { academicYear: '2021-2022' },
+        headers: {},
       };
       status = jest.fn().mockReturnThis();
       json = jest.fn();
@@ -145,6 +147,7 @@ describe('statsController.getCourseStats', () => {
       req = {
         params: { studentId: '1' },
         query: { academicYear: '2021-2022' },
+        headers: {},
       };
       status = jest.fn().mockReturnThis();
       json = jest.fn();
@@ -168,12 +171,52 @@ describe('statsController.getCourseStats', () => {
           coursesCount: 5,
         },
       ];
-      (pool.query as jest.Mock).mockResolvedValue({ rows: studentSemesterStats });
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: studentSemesterStats })
+        .mockResolvedValueOnce({ rows: [] });
   
       await statsController.getStudentSemesterStats(req as Request, res as Response);
   
       expect(status).toHaveBeenCalledWith(200);
-      expect(json).toHaveBeenCalledWith(studentSemesterStats);
+      expect(json).toHaveBeenCalledWith([
+        { ...studentSemesterStats[0], units: [] },
+      ]);
+    });
+
+    it('should compute the semester results from its teaching units', async () => {
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              semester: 'S1',
+              averageGrade: 11,
+              totalCredits: 12,
+              validatedCredits: 6,
+              coursesCount: 4,
+            },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            { unitId: 1, code: 'UE1.1', semester: 'S1', credits: 6, average: 12 },
+            { unitId: 2, code: 'UE1.2', semester: 'S1', credits: 4, average: 8.5 },
+          ],
+        });
+
+      await statsController.getStudentSemesterStats(req as Request, res as Response);
+
+      const [semester] = json.mock.calls[0][0];
+      expect(semester).toMatchObject({
+        semester: 'S1',
+        averageGrade: 10.6,
+        totalCredits: 10,
+        validatedCredits: 6,
+        coursesCount: 4,
+      });
+      expect(semester.units).toEqual([
+        expect.objectContaining({ code: 'UE1.1', validated: true }),
+        expect.objectContaining({ code: 'UE1.2', validated: false }),
+      ]);
     });
   
     it('should return 404 if no student semester stats are found', async () => {
@@ -202,4 +245,51 @@ describe('statsController.getCourseStats', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('statsController.getStudentUnitAverages', () => {
+    let req: Partial<Request>;
+    let res: Partial<Response>;
+    let status: jest.Mock;
+    let json: jest.Mock;
+
+    beforeEach(() => {
+      req = {
+        params: { studentId: '1' },
+        query: { academicYear: '2024-2025' },
+        headers: {},
+      };
+      status = jest.fn().mockReturnThis();
+      json = jest.fn();
+      res = {
+        status,
+        json,
+      };
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should return the unit averages of the student', async () => {
+      (pool.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ unitId: 1, code: 'UE1.1', semester: 'S1', credits: 6, average: 9.99 }],
+      });
+
+      await statsController.getStudentUnitAverages(req as Request, res as Response);
+
+      expect(pool.query).toHaveBeenCalledWith(expect.any(String), [1, '2024-2025', false]);
+      expect(status).toHaveBeenCalledWith(200);
+      expect(json).toHaveBeenCalledWith([
+        expect.objectContaining({ code: 'UE1.1', validated: false }),
+      ]);
+    });
+
+    it('should return 500 if there is a database error', async () => {
+      (pool.query as jest.Mock).mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(
+        statsController.getStudentUnitAverages(req as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 500, code: 'STATS_ERROR' });
+    });
+  });
+});
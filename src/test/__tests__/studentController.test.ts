@@ -2,8 +2,10 @@ import { Request, Response } from 'express';
 import { studentController } from '../../controllers/studentController';
 import { pool } from '../../config/database';
 import { AppError } from '../../types/error';
+import { TokenService } from '../../services/tokenService';
 
 jest.mock('../../config/database');
+jest.mock('../../services/tokenService');
 
 describe('studentController.create', () => {
   let req: Partial<Request>;
@@ -50,6 +52,16 @@ describe('studentController.create', () => {
     expect(json).toHaveBeenCalledWith(createdStudent);
   });
 
+  it('should return 409 if the email or student number is already used', async () => {
+    (pool.query as jest.Mock).mockRejectedValue(
+      Object.assign(new Error('duplicate'), { code: '23505' })
+    );
+
+    await expect(
+      studentController.create(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 409, code: 'STUDENT_ALREADY_EXISTS' });
+  });
+
   it('should return 500 if there is a database error', async () => {
     (pool.query as jest.Mock).mockRejectedValue(new Error('Database error'));
 
@@ -58,11 +70,15 @@ describe('studentController.create', () => {
     } catch (error) {
       if (error instanceof AppError) {
         expect(error.statusCode).toBe(500);
-        expect(error.message).toBe('Internal server error');
+        expect(error.message).toBe("Erreur lors de la création de l'étudiant");
       }
     }
   });
   describe('getAll', () => {
+    beforeEach(() => {
+      req = { query: {}, headers: {} };
+    });
+
     it('should return all students', async () => {
       const students = [
         {
@@ -74,22 +90,32 @@ describe('studentController.create', () => {
           studentId: '12345',
         },
       ];
-      (pool.query as jest.Mock).mockResolvedValue({ rows: students });
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ total: 1 }] })
+        .mockResolvedValueOnce({ rows: students });
 
       await studentController.getAll(req as Request, res as Response);
 
+      expect((pool.query as jest.Mock).mock.calls[0][0]).toContain(
+        'archived_at IS NULL'
+      );
       expect(status).toHaveBeenCalledWith(200);
-      expect(json).toHaveBeenCalledWith(students);
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: students,
+          pagination: expect.objectContaining({ total: 1 }),
+        })
+      );
     });
 
     it('should return 500 if there is a database error', async () => {
       (pool.query as jest.Mock).mockRejectedValue(new Error('Database error'));
 
-      await studentController.getAll(req as Request, res as Response);
-
-      expect(status).toHaveBeenCalledWith(500);
-      expect(json).toHaveBeenCalledWith({
-        error: 'Erreur lors de la récupération des étudiants',
+      await expect(
+        studentController.getAll(req as Request, res as Response)
+      ).rejects.toMatchObject({
+        statusCode: 500,
+        message: 'Erreur lors de la récupération des étudiants',
       });
     });
   });
@@ -119,10 +145,9 @@ describe('studentController.create', () => {
 
       req = { params: { id: '1' } };
 
-      await studentController.getById(req as Request, res as Response);
-
-      expect(status).toHaveBeenCalledWith(404);
-      expect(json).toHaveBeenCalledWith({ error: 'Étudiant non trouvé' });
+      await expect(
+        studentController.getById(req as Request, res as Response)
+      ).rejects.toMatchObject({ statusCode: 404, code: 'STUDENT_NOT_FOUND' });
     });
 
     it('should return 500 if there is a database error', async () => {
@@ -130,12 +155,198 @@ describe('studentController.create', () => {
 
       req = { params: { id: '1' } };
 
-      await studentController.getById(req as Request, res as Response);
-
-      expect(status).toHaveBeenCalledWith(500);
-      expect(json).toHaveBeenCalledWith({
-        error: 'Erreur lors de la récupération de l\'étudiant',
+      await expect(
+        studentController.getById(req as Request, res as Response)
+      ).rejects.toMatchObject({
+        statusCode: 500,
+        message: "Erreur lors de la récupération de l'étudiant",
       });
     });
   });
-});
\ No newline at end of file
+});
+
+describe('studentController.update', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '1' }, body: { lastName: 'Dupont' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only update the provided fields', async () => {
+    const student = { id: 1, lastName: 'Dupont' };
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [student] });
+
+    await studentController.update(req as Request, res as Response);
+
+    expect((pool.query as jest.Mock).mock.calls[0][0]).toContain(
+      'SET last_name = $1'
+    );
+    expect((pool.query as jest.Mock).mock.calls[0][1]).toEqual(['Dupont', '1']);
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(student);
+  });
+
+  it('should return 400 if no field is provided', async () => {
+    req.body = {};
+
+    await expect(
+      studentController.update(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 400, code: 'EMPTY_UPDATE' });
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 if the student does not exist', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(
+      studentController.update(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'STUDENT_NOT_FOUND' });
+  });
+});
+
+describe('studentController.archive', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '1' } };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should archive the student and revoke their sessions', async () => {
+    const student = { id: 1, archivedAt: '2025-01-01T00:00:00.000Z' };
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [student] });
+
+    await studentController.archive(req as Request, res as Response);
+
+    expect(TokenService.revokeAllStudentSessions).toHaveBeenCalledWith(1);
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith(student);
+  });
+});
+
+describe('studentController.delete', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = { params: { id: '1' }, query: {} };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return 404 if the student does not exist', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(
+      studentController.delete(req as Request, res as Response)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'STUDENT_NOT_FOUND' });
+  });
+
+  it('should refuse and report dependent grades without cascade', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ id: 1, gradesCount: 4 }],
+    });
+
+    await expect(
+      studentController.delete(req as Request, res as Response)
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'STUDENT_HAS_GRADES',
+      details: { gradesCount: 4 },
+    });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete the student and their grades with cascade=true', async () => {
+    req.query = { cascade: 'true' };
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ id: 1, gradesCount: 4 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await studentController.delete(req as Request, res as Response);
+
+    expect((pool.query as jest.Mock).mock.calls[1][1]).toEqual(['', '', '', 'Suppression de l\'étudiant']);
+    expect((pool.query as jest.Mock).mock.calls[2][0]).toContain(
+      'DELETE FROM grades WHERE student_id = $1'
+    );
+    expect(status).toHaveBeenCalledWith(204);
+  });
+});
+
+describe('studentController.importCsv', () => {
+  let req: Partial<Request>;
+  let res: Partial<Response>;
+  let status: jest.Mock;
+  let json: jest.Mock;
+
+  beforeEach(() => {
+    req = {
+      query: { dryRun: 'true', delimiter: ';' },
+      body: Buffer.from(
+        'nom;prenom;email;date_naissance;numero_etudiant\n' +
+          'Martin;Hélène;helene@etu.fr;01/02/2005;22001234\n'
+      ),
+    };
+    status = jest.fn().mockReturnThis();
+    json = jest.fn();
+    res = {
+      status,
+      json,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the dry-run report', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await studentController.importCsv(req as Request, res as Response);
+
+    expect(status).toHaveBeenCalledWith(200);
+    expect(json).toHaveBeenCalledWith({
+      dryRun: true,
+      total: 1,
+      created: 1,
+      updated: 0,
+      errors: [],
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { StudentImportService } from '../../services/studentImportService';
+import { pool, withTransaction } from '../../config/database';
+import { CsvRow } from '../../services/csvService';
+
+jest.mock('../../config/database');
+
+const row = (line: number, overrides: Record<string, string> = {}): CsvRow => ({
+  line,
+  values: {
+    firstName: 'Hélène',
+    lastName: 'Martin',
+    email: `etudiant${line}@etu.fr`,
+    dateOfBirth: '01/02/2005',
+    studentId: `2200${line}`,
+    ...overrides,
+  },
+});
+
+describe('StudentImportService.import', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should report per-row errors without writing in dry-run mode', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ studentId: '22002', email: 'etudiant2@etu.fr' }],
+    });
+
+    const report = await StudentImportService.import(
+      [
+        row(2),
+        row(3, { email: 'pas-un-email' }),
+        row(4, { studentId: '22002' }),
+      ],
+      true
+    );
+
+    expect(report).toEqual({
+      dryRun: true,
+      total: 3,
+      created: 0,
+      updated: 1,
+      errors: [
+        { line: 3, field: 'email', message: expect.any(String) },
+        { line: 4, field: 'studentId', message: 'Doublon de la ligne 2' },
+      ],
+    });
+    expect(withTransaction).not.toHaveBeenCalled();
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse an email already used by another student', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({
+      rows: [{ studentId: '99999', email: 'etudiant2@etu.fr' }],
+    });
+
+    await expect(StudentImportService.import([row(2)], false)).rejects.toMatchObject({
+      statusCode: 422,
+      code: 'IMPORT_VALIDATION_FAILED',
+      details: expect.objectContaining({
+        errors: [
+          {
+            line: 2,
+            field: 'email',
+            message: "Email déjà utilisé par l'étudiant 99999",
+          },
+        ],
+      }),
+    });
+    expect(pool.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should upsert all rows in a single transaction', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [{ studentId: '22002', email: 'etudiant2@etu.fr' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const report = await StudentImportService.import([row(2), row(3)], false);
+
+    expect(withTransaction).toHaveBeenCalledTimes(1);
+    const [sql, params] = (pool.query as jest.Mock).mock.calls[1];
+    expect(sql).toContain('ON CONFLICT (student_id) DO UPDATE');
+    expect(params[3]).toEqual(['2005-02-01', '2005-02-01']);
+    expect(report).toMatchObject({ created: 1, updated: 1, errors: [] });
+  });
+});
@@ -0,0 +1,57 @@
+import { pool } from '../../config/database';
+import jwt from 'jsonwebtoken';
+import { TokenService } from '../../services/tokenService';
+
+jest.mock('../../config/database');
+
+describe('TokenService.rotate', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should issue a new token pair for a valid refresh token', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({
+        rows: [{ sessionId: 'session-1', id: 1, email: 'prof@example.com', role: 'professor' }],
+      })
+      .mockResolvedValueOnce({ rows: [] });
+    (jwt.sign as jest.Mock).mockReturnValue('token');
+
+    const tokens = await TokenService.rotate('refresh');
+
+    expect(tokens.token).toBe('token');
+    expect(tokens.refreshToken).toEqual(expect.any(String));
+    expect(jwt.sign).toHaveBeenCalledWith(
+      { id: 1, email: 'prof@example.com', role: 'professor', sid: 'session-1' },
+      process.env.JWT_SECRET,
+      expect.any(Object)
+    );
+  });
+
+  it('should revoke the session when a used refresh token is replayed', async () => {
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [{ sessionId: 'session-1', usedAt: new Date() }],
+      })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await expect(TokenService.rotate('refresh')).rejects.toMatchObject({
+      statusCode: 401,
+      code: 'REFRESH_TOKEN_REUSED',
+    });
+    expect(pool.query).toHaveBeenLastCalledWith(
+      expect.stringContaining('UPDATE auth_sessions SET revoked_at'),
+      ['session-1']
+    );
+  });
+
+  it('should reject an unknown refresh token', async () => {
+    (pool.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+    await expect(TokenService.rotate('unknown')).rejects.toMatchObject({
+      statusCode: 401,
+      code: 'INVALID_REFRESH_TOKEN',
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { TotpService } from '../../services/totpService';
+
+// Secret des vecteurs de test de la RFC 6238 ("12345678901234567890")
+const RFC_SECRET = TotpService.base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TotpService', () => {
+  it('should round-trip base32 encoding', () => {
+    const buffer = Buffer.from('iut-laval-grades');
+
+    expect(TotpService.base32Decode(TotpService.base32Encode(buffer))).toEqual(
+      buffer
+    );
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('should match the RFC 6238 SHA1 test vectors', () => {
+    expect(TotpService.generate(RFC_SECRET, TotpService.getStep(59_000))).toBe(
+      '287082'
+    );
+    expect(
+      TotpService.generate(RFC_SECRET, TotpService.getStep(1111111109_000))
+    ).toBe('081804');
+    expect(
+      TotpService.generate(RFC_SECRET, TotpService.getStep(1234567890_000))
+    ).toBe('005924');
+  });
+
+  it('should accept a code from the adjacent time step', () => {
+    const time = 1234567890_000;
+    const previous = TotpService.generate(
+      RFC_SECRET,
+      TotpService.getStep(time) - 1
+    );
+
+    expect(TotpService.verify(RFC_SECRET, previous, time)).toBe(
+      TotpService.getStep(time) - 1
+    );
+  });
+
+  it('should reject an invalid code', () => {
+    expect(TotpService.verify(RFC_SECRET, '000000', 1234567890_000)).toBeNull();
+    expect(TotpService.verify(RFC_SECRET, 'abc', 1234567890_000)).toBeNull();
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const uri = TotpService.buildOtpAuthUri('prof@example.com', RFC_SECRET);
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\//);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('prof%40example.com');
+  });
+});
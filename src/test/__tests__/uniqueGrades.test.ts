@@ -0,0 +1,94 @@
+import { addGradeUniqueness } from '../../scripts/uniqueGrades';
+import { pool } from '../../config/database';
+
+jest.mock('../../config/database');
+jest.mock('../../services/loggerService');
+
+const duplicate = {
+  studentId: 1,
+  courseId: 2,
+  semester: 'S1',
+  academicYear: '2023-2024',
+  session: 'first',
+  gradeIds: [10, 14, 17],
+};
+
+/** upgrade.sql puis init.sql */
+const mockSchemaUpgrade = (): void => {
+  (pool.query as jest.Mock)
+    .mockResolvedValueOnce({ rows: [] })
+    .mockResolvedValueOnce({ rows: [] });
+};
+
+const mockDuplicates = (): void => {
+  mockSchemaUpgrade();
+  (pool.query as jest.Mock)
+    .mockResolvedValueOnce({ rows: [] })
+    .mockResolvedValueOnce({ rows: [] })
+    .mockResolvedValueOnce({ rows: [duplicate] });
+};
+
+describe('addGradeUniqueness', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should upgrade the schema before looking for duplicates', async () => {
+    mockSchemaUpgrade();
+    (pool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+    await addGradeUniqueness(false);
+
+    expect(pool.query).toHaveBeenCalledTimes(3);
+    expect(pool.query).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining("ADD COLUMN IF NOT EXISTS session VARCHAR(10) NOT NULL DEFAULT 'first'")
+    );
+    expect(pool.query).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining('CREATE TABLE IF NOT EXISTS grade_audit')
+    );
+  });
+
+  it('should stop without adding the constraint when duplicates are found', async () => {
+    mockDuplicates();
+
+    await expect(addGradeUniqueness(false)).rejects.toThrow(
+      '1 duplicate grade group(s) found'
+    );
+
+    expect(pool.query).toHaveBeenCalledTimes(5);
+    expect(pool.query).toHaveBeenNthCalledWith(
+      4,
+      'LOCK TABLE grades IN SHARE ROW EXCLUSIVE MODE'
+    );
+    expect(pool.query).not.toHaveBeenCalledWith(
+      expect.stringContaining('DELETE FROM grades')
+    );
+  });
+
+  it('should keep the latest grade of each duplicate with --keep-latest', async () => {
+    mockDuplicates();
+    (pool.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await addGradeUniqueness(true);
+
+    expect(pool.query).toHaveBeenNthCalledWith(
+      6,
+      expect.stringContaining("set_config('audit.reason', $4, TRUE)"),
+      ['', '', '', "Doublon supprimé avant l'ajout de la contrainte d'unicité des notes"]
+    );
+    expect(pool.query).toHaveBeenNthCalledWith(
+      7,
+      'DELETE FROM grades WHERE id = ANY($1)',
+      [[10, 14]]
+    );
+    expect(pool.query).toHaveBeenNthCalledWith(
+      8,
+      expect.stringContaining('ADD CONSTRAINT grades_unique_session UNIQUE')
+    );
+  });
+});
@@ -6,7 +6,12 @@ jest.mock('../config/database', () => {
   const pool = {
     query: jest.fn(),
   };
-  return { pool };
+  // Les requêtes d'une transaction passent par le même mock que pool.query
+  const withTransaction = jest.fn((work: (client: unknown) => unknown) =>
+    work(pool)
+  );
+  const streamQuery = jest.fn();
+  return { pool, withTransaction, streamQuery };
 });
 
 // Mock other global modules if necessary
@@ -1,19 +1,36 @@
+export const ROLES = ['admin', 'department_head', 'professor', 'student'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Rôles du personnel (stockés dans la table professors)
+export const STAFF_ROLES: Role[] = ['admin', 'department_head', 'professor'];
+
+// Rôles disposant des droits de gestion (cours, suppressions, etc.)
+export const MANAGER_ROLES: Role[] = ['admin', 'department_head'];
+
 export interface JWTPayload {
   id: number;
   email: string;
-  role: string;
+  role: Role;
+  // Identifiant de la session serveur (révocable)
+  sid: string;
 }
 
-export interface LoginCredentials {
-  email: string;
-  password: string;
-}
+// Groupes de routes accessibles par clé API
+export const API_KEY_ROUTE_GROUPS = ['students', 'courses', 'grades', 'stats'] as const;
+
+export type ApiKeyRouteGroup = (typeof API_KEY_ROUTE_GROUPS)[number];
 
-export interface Professor {
+// Ex. 'stats:read' ; 'write' inclut 'read'
+export type ApiKeyScope = `${ApiKeyRouteGroup}:${'read' | 'write'}`;
+
+export interface ApiKeyPrincipal {
   id: number;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface LoginCredentials {
   email: string;
-  firstName: string;
-  lastName: string;
-  department: string;
-  passwordHash: string;
+  password: string;
 }
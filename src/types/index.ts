@@ -1,3 +1,5 @@
+import { Role } from './auth';
+
 export interface Student {
   id: number;
   firstName: string;
@@ -19,7 +21,9 @@ export interface Grade {
   id: number;
   studentId: number;
   courseId: number;
-  grade: number;
+  /** null lorsqu'un code spécial (ABS, ABJ, DISP, EN ATTENTE) remplace la note */
+  grade: number | null;
+  specialCode: string | null;
   semester: string;
   academicYear: string;
 }
@@ -30,4 +34,8 @@ export interface Professor {
   lastName: string;
   email: string;
   department: string;
+  role: Role;
+  isActive: boolean;
+  // Uniquement présent lors de la vérification des identifiants
+  passwordHash?: string;
 }